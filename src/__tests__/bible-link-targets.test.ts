@@ -0,0 +1,137 @@
+import {
+    embedLocalPassage,
+    formatPassage,
+    getBibleLinkTarget,
+    localBibleLinkTarget,
+    logosReference,
+    osisReference
+} from '../utils/bible-link-targets';
+import { linkBibleVerses } from '../utils/bible-linker';
+import { passage } from './bible-passage';
+
+describe('Bible Link Targets', () => {
+    describe('logosReference', () => {
+        it('should format verses, ranges and chapters', () => {
+            expect(logosReference(passage('Jn', 3, 16))).toBe('Jn3.16');
+            expect(logosReference(passage('Jn', 3, 16, null, 18))).toBe('Jn3.16-18');
+            expect(logosReference(passage('Ge', 1, 1, 2, 3))).toBe('Ge1.1-2.3');
+            expect(logosReference(passage('Ps', 1, null, 2))).toBe('Ps1-2');
+            expect(logosReference(passage('Ro', 8))).toBe('Ro8');
+        });
+    });
+
+    describe('osisReference', () => {
+        it('should spell out both ends of a range', () => {
+            expect(osisReference(passage('Jn', 3, 16))).toBe('John.3.16');
+            expect(osisReference(passage('Jn', 3, 16, null, 18))).toBe('John.3.16-John.3.18');
+            expect(osisReference(passage('Ps', 1, null, 2))).toBe('Ps.1-Ps.2');
+        });
+    });
+
+    describe('formatPassage', () => {
+        it('should use the full book name', () => {
+            expect(formatPassage(passage('1Co', 13, 4, null, 7))).toBe('1 Corinthians 13:4-7');
+            expect(formatPassage(passage('Jn', 3, 16, 4, 2))).toBe('John 3:16-4:2');
+        });
+    });
+
+    describe('localBibleLinkTarget', () => {
+        it('should fill the template within the Bible folder', () => {
+            const options = { localBibleFolder: 'Bible/', localBibleLinkTemplate: '{book}/{book} {chapter}#{verse}' };
+
+            expect(localBibleLinkTarget(passage('Jn', 3, 16), options)).toBe('Bible/John/John 3#16');
+        });
+
+        it('should use verse block IDs by default', () => {
+            expect(localBibleLinkTarget(passage('Jn', 3, 16), {})).toBe('John 3#^16');
+        });
+
+        it('should drop the verse part for whole chapters', () => {
+            expect(localBibleLinkTarget(passage('Ro', 8), {})).toBe('Romans 8');
+        });
+    });
+
+    describe('embedLocalPassage', () => {
+        it('should embed each verse of a range within a chapter', () => {
+            expect(embedLocalPassage(passage('Jn', 3, 16, null, 17), {})).toBe('![[John 3#^16]] ![[John 3#^17]]');
+        });
+
+        it('should embed whole chapters', () => {
+            expect(embedLocalPassage(passage('Ro', 8), { localBibleFolder: 'Bible' })).toBe('![[Bible/Romans 8]]');
+        });
+
+        it('should not embed chapter ranges or missing notes', () => {
+            expect(embedLocalPassage(passage('Ps', 1, null, 2), {})).toBeNull();
+            expect(embedLocalPassage(passage('Jn', 3, 16), { localNoteExists: () => false })).toBeNull();
+        });
+    });
+
+    describe('getBibleLinkTarget', () => {
+        it('should fall back to ref.ly', () => {
+            expect(getBibleLinkTarget(undefined).id).toBe('refly');
+        });
+    });
+
+    describe('linkBibleVerses with a target', () => {
+        it('should link to the Logos app', () => {
+            expect(linkBibleVerses('John 3:16', 'esv', { target: 'logos' })).toBe('[John 3:16](logosref:Bible.Jn3.16)');
+        });
+
+        it('should link to Bible Gateway', () => {
+            expect(linkBibleVerses('Jn 3:16-18', 'niv', { target: 'biblegateway' }))
+                .toBe('[Jn 3:16-18](https://www.biblegateway.com/passage/?search=John%203%3A16-18&version=NIV)');
+        });
+
+        it('should link to Blue Letter Bible', () => {
+            expect(linkBibleVerses('Rom 8:28', 'esv', { target: 'blueletterbible' }))
+                .toBe('[Rom 8:28](https://www.blueletterbible.org/esv/rom/8/28/)');
+        });
+
+        it('should keep deuterocanonical books on ref.ly for Blue Letter Bible', () => {
+            expect(linkBibleVerses('Sir 3:1', 'esv', { target: 'blueletterbible', includeDeuterocanon: true }))
+                .toBe('[Sir 3:1](https://ref.ly/Sir3.1;esv)');
+        });
+
+        it('should link to STEP Bible', () => {
+            expect(linkBibleVerses('John 3:16', 'esv', { target: 'step' }))
+                .toBe('[John 3:16](https://www.stepbible.org/?q=version%3DESV%7Creference%3DJohn.3.16)');
+        });
+
+        it('should link to a Bible in the vault', () => {
+            const result = linkBibleVerses('Deut. 19:12; 21:1', 'esv', { target: 'wikilink', localBibleFolder: 'Bible' });
+
+            expect(result).toBe('[[Bible/Deuteronomy 19#^12|Deut. 19:12]]; [[Bible/Deuteronomy 21#^1|21:1]]');
+        });
+
+        it('should leave references to missing vault Bible notes unlinked', () => {
+            const checked: string[] = [];
+            const result = linkBibleVerses('John 3:16 and Rom 8:28', 'esv', {
+                target: 'wikilink',
+                localNoteExists: (path) => {
+                    checked.push(path);
+                    return path === 'John 3';
+                },
+            });
+
+            expect(result).toBe('[[John 3#^16|John 3:16]] and Rom 8:28');
+            expect(checked).toEqual(['John 3', 'Romans 8']);
+        });
+
+        it('should embed vault Bible references on a line of their own', () => {
+            const text = 'Read this:\n> John 3:16–17\nand compare Romans 8.\nRomans 8';
+            const result = linkBibleVerses(text, 'esv', { target: 'wikilink', embedLocalVerses: true });
+
+            expect(result).toBe('Read this:\n> ![[John 3#^16]] ![[John 3#^17]]\nand compare [[Romans 8|Romans 8]].\n![[Romans 8]]');
+        });
+
+        it('should link cross-chapter references instead of embedding them', () => {
+            const result = linkBibleVerses('John 3:36–4:2', 'esv', { target: 'wikilink', embedLocalVerses: true });
+
+            expect(result).toBe('[[John 3#^36|John 3:36–4:2]]');
+        });
+
+        it('should only embed for the vault Bible target', () => {
+            expect(linkBibleVerses('John 3:16', 'esv', { embedLocalVerses: true })).toBe('[John 3:16](https://ref.ly/Jn3.16;esv)');
+        });
+    });
+});
@@ -1,4 +1,4 @@
-import { linkBibleVerses, getLogosVersionCode } from '../utils/bible-linker';
+import { countLinkedReferences, linkBibleVerses, getLogosVersionCode, parseBibleReferences, renderBibleReferences } from '../utils/bible-linker';
 
 describe('Bible Linker', () => {
     describe('linkBibleVerses', () => {
@@ -94,6 +94,364 @@ describe('Bible Linker', () => {
             expect(result).toContain('https://ref.ly/Is1.1;esv');
             expect(result).not.toContain('https://ref.ly/1Sa1.1;esv');
         });
+
+        it('should honor translation markers after a reference', () => {
+            const result = linkBibleVerses('John 3:16 (KJV), Rom 8:28 NASB and Gal 2:20', 'esv');
+
+            expect(result).toContain('[John 3:16](https://ref.ly/Jn3.16;kjv1900) (KJV)');
+            expect(result).toContain('[Rom 8:28](https://ref.ly/Ro8.28;nasb95) NASB');
+            expect(result).toContain('[Gal 2:20](https://ref.ly/Ga2.20;esv)');
+        });
+
+        it('should ignore unknown or lowercase bare markers', () => {
+            const result = linkBibleVerses('John 3:16 (ABC) and Rom 8:28 net', 'esv');
+
+            expect(result).toContain('https://ref.ly/Jn3.16;esv');
+            expect(result).toContain('https://ref.ly/Ro8.28;esv');
+        });
+
+        it('should ignore markers for translations without the book', () => {
+            const result = linkBibleVerses('Gen 1:1 (NA28) and John 1:1 (NA28)', 'esv');
+
+            expect(result).toContain('https://ref.ly/Ge1.1;esv');
+            expect(result).toContain('https://ref.ly/Jn1.1;na28');
+        });
+
+        it('should honor markers for custom translations', () => {
+            const result = linkBibleVerses('Sir 3:1 (NABRE)', 'esv', {
+                includeDeuterocanon: true,
+                customTranslations: [{ abbreviation: 'NABRE', logosCode: 'nabre' }],
+            });
+
+            expect(result).toContain('https://ref.ly/Sir3.1;nabre');
+        });
+
+        it('should link cross-chapter ranges', () => {
+            const result = linkBibleVerses('See John 3:16–4:2 and Gen 1:1-2:3.', 'esv');
+
+            expect(result).toContain('[John 3:16–4:2](https://ref.ly/Jn3.16-4.2;esv)');
+            expect(result).toContain('[Gen 1:1-2:3](https://ref.ly/Ge1.1-2.3;esv)');
+        });
+
+        it('should link whole-chapter references', () => {
+            const result = linkBibleVerses('Romans 8 and Isa 53 are central.', 'esv');
+
+            expect(result).toContain('[Romans 8](https://ref.ly/Ro8;esv)');
+            expect(result).toContain('[Isa 53](https://ref.ly/Is53;esv)');
+        });
+
+        it('should link chapter ranges', () => {
+            const result = linkBibleVerses('Psalms 1–2 introduce the Psalter.', 'esv');
+
+            expect(result).toContain('[Psalms 1–2](https://ref.ly/Ps1-2;esv)');
+        });
+
+        it('should link cross-chapter ranges after a separator', () => {
+            const result = linkBibleVerses('Gen 1:1; 1:26–2:3', 'esv');
+
+            expect(result).toContain('[1:26–2:3](https://ref.ly/Ge1.26-2.3;esv)');
+        });
+
+        it('should not treat a chapter as a verse context', () => {
+            const result = linkBibleVerses('Romans 8, 9', 'esv');
+
+            expect(result).toContain('[Romans 8](https://ref.ly/Ro8;esv)');
+            expect(result).not.toContain('Ro8.9');
+        });
+
+        it('should not link chapter-only references after ordinary words', () => {
+            const text = 'Is 5 enough? The meeting is at 10:30 in room 5, so 2 of us will go.';
+            const result = linkBibleVerses(text, 'esv');
+
+            expect(result).toBe(text);
+        });
+
+        it('should still find numbered books after a number in prose', () => {
+            const result = linkBibleVerses('see 1 John 1:9', 'esv');
+
+            expect(result).toContain('[1 John 1:9](https://ref.ly/1Jn1.9;esv)');
+        });
+
+        it('should keep partial-verse suffixes in the text and link the whole verse', () => {
+            const result = linkBibleVerses('John 3:16a and Rom 8:28b–30a', 'esv');
+
+            expect(result).toContain('[John 3:16a](https://ref.ly/Jn3.16;esv)');
+            expect(result).toContain('[Rom 8:28b–30a](https://ref.ly/Ro8.28-30;esv)');
+        });
+
+        it('should link "f" and "ff" following-verse references', () => {
+            const result = linkBibleVerses('Matt 12:1ff. and Gen 2:4f.', 'esv');
+
+            expect(result).toContain('[Matt 12:1ff](https://ref.ly/Mt12.1;esv).');
+            expect(result).toContain('[Gen 2:4f](https://ref.ly/Ge2.4-5;esv).');
+        });
+
+        it('should link "v." and "vv." references to the last book and chapter', () => {
+            const result = linkBibleVerses('In Rom 8:1 Paul begins; v. 4 explains and vv. 6–8 contrast.', 'esv');
+
+            expect(result).toContain('[v. 4](https://ref.ly/Ro8.4;esv)');
+            expect(result).toContain('[vv. 6–8](https://ref.ly/Ro8.6-8;esv)');
+        });
+
+        it('should link "v." references after a whole chapter', () => {
+            const result = linkBibleVerses('Romans 8 climaxes in v. 28.', 'esv');
+
+            expect(result).toContain('[v. 28](https://ref.ly/Ro8.28;esv)');
+        });
+
+        it('should link "ch." references and use them as verse context', () => {
+            const result = linkBibleVerses('Compare 1 Cor 12:4 with ch. 13, especially v. 4.', 'esv');
+
+            expect(result).toContain('[ch. 13](https://ref.ly/1Co13;esv)');
+            expect(result).toContain('[v. 4](https://ref.ly/1Co13.4;esv)');
+        });
+
+        it('should link "cf." references', () => {
+            const result = linkBibleVerses('Love is patient (cf. 1 Cor 13:4–7); see Gal 5:22 (cf. 6:2).', 'esv');
+
+            expect(result).toContain('cf. [1 Cor 13:4–7](https://ref.ly/1Co13.4-7;esv)');
+            expect(result).toContain('cf. [6:2](https://ref.ly/Ga6.2;esv)');
+        });
+
+        it('should not link "v." or "ch." without an earlier reference', () => {
+            const text = 'See v. 4 and ch. 5 of the report.';
+
+            expect(linkBibleVerses(text, 'esv')).toBe(text);
+        });
+
+        it('should not link deuterocanonical books unless enabled', () => {
+            const text = 'Sir 3:1 and Wis 7:26';
+
+            expect(linkBibleVerses(text, 'esv')).toBe(text);
+        });
+
+        it('should link deuterocanonical books when enabled', () => {
+            const text = 'Sir 3:1; 4:2, Wis 7:26, Tobit 4:15, 2 Macc 7:28 and IV Maccabees 1:1';
+            const result = linkBibleVerses(text, 'esv', { includeDeuterocanon: true });
+
+            expect(result).toContain('[Sir 3:1](https://ref.ly/Sir3.1;esv)');
+            expect(result).toContain('[4:2](https://ref.ly/Sir4.2;esv)');
+            expect(result).toContain('[Wis 7:26](https://ref.ly/Wis7.26;esv)');
+            expect(result).toContain('[Tobit 4:15](https://ref.ly/Tob4.15;esv)');
+            expect(result).toContain('[2 Macc 7:28](https://ref.ly/2Mac7.28;esv)');
+            expect(result).toContain('[IV Maccabees 1:1](https://ref.ly/4Mac1.1;esv)');
+        });
+
+        it('should link book names that span several words', () => {
+            const result = linkBibleVerses('Song of Songs 2:1 and Prayer of Manasseh 1:1', 'esv', { includeDeuterocanon: true });
+
+            expect(result).toContain('[Song of Songs 2:1](https://ref.ly/So2.1;esv)');
+            expect(result).toContain('[Prayer of Manasseh 1:1](https://ref.ly/PrMan1.1;esv)');
+        });
+
+        it('should not link references to chapters or verses that do not exist', () => {
+            const text = 'John 33:99, Jude 2:1 and Romans 17; I am 5:30 late.';
+
+            expect(linkBibleVerses(text, 'esv')).toBe(text);
+        });
+
+        it('should not link lowercase words that are also book abbreviations, even before a verse', () => {
+            const text = 'I am 5:15 late, he is 1:1 with her and so 3:16 on.';
+
+            expect(linkBibleVerses(text, 'esv')).toBe(text);
+            expect(linkBibleVerses(text, 'esv', { flagInvalidReferences: true })).toBe(text);
+            expect(linkBibleVerses('Am 5:15', 'esv')).toBe('[Am 5:15](https://ref.ly/Am5.15;esv)');
+        });
+
+        it('should not link sequential references that do not exist', () => {
+            const result = linkBibleVerses('John 3:16; 40:1, v. 99', 'esv');
+
+            expect(result).toBe('[John 3:16](https://ref.ly/Jn3.16;esv); 40:1, v. 99');
+        });
+
+        it('should highlight invalid references when flagging is enabled', () => {
+            const result = linkBibleVerses('John 33:99 and John 3:16; 40:1', 'esv', { flagInvalidReferences: true });
+
+            expect(result).toContain('==John 33:99==');
+            expect(result).toContain('[John 3:16](https://ref.ly/Jn3.16;esv)');
+            expect(result).toContain('; ==40:1==');
+        });
+
+        it('should treat a bare number after a one-chapter book as a verse', () => {
+            const result = linkBibleVerses('Jude 5 and Philemon 8–10', 'esv');
+
+            expect(result).toContain('[Jude 5](https://ref.ly/Jud1.5;esv)');
+            expect(result).toContain('[Philemon 8–10](https://ref.ly/Phm1.8-10;esv)');
+        });
+
+        it('should validate against Hebrew versification when selected', () => {
+            expect(linkBibleVerses('Mal 3:24', 'esv')).toBe('Mal 3:24');
+            expect(linkBibleVerses('Mal 3:24', 'esv', { versification: 'hebrew' })).toContain('https://ref.ly/Mal3.24;esv');
+        });
+
+        it('should link book names of enabled languages', () => {
+            const result = linkBibleVerses('Juan 3:16, 1 Kor 13 y Jó 1:1; Mateo 5', 'esv', { languages: ['es', 'de', 'pt'] });
+
+            expect(result).toContain('[Juan 3:16](https://ref.ly/Jn3.16;esv)');
+            expect(result).toContain('[1 Kor 13](https://ref.ly/1Co13;esv)');
+            expect(result).toContain('[Jó 1:1](https://ref.ly/Job1.1;esv)');
+            expect(result).toContain('[Mateo 5](https://ref.ly/Mt5;esv)');
+        });
+
+        it('should leave book names of other languages alone unless enabled', () => {
+            const text = 'Juan 3:16 and Mateo 5';
+
+            expect(linkBibleVerses(text, 'esv')).toBe(text);
+            expect(linkBibleVerses(text, 'esv', { languages: ['de'] })).toBe(text);
+        });
+
+        it('should match book names that start with an accented letter', () => {
+            const result = linkBibleVerses('Véase Éxodo 20:1-17 y Gênesis 1:1', 'esv', { languages: ['es', 'pt'] });
+
+            expect(result).toContain('[Éxodo 20:1-17](https://ref.ly/Ex20.1-17;esv)');
+            expect(result).toContain('[Gênesis 1:1](https://ref.ly/Ge1.1;esv)');
+        });
+
+        it('should tell Portuguese Jó from Jo', () => {
+            const result = linkBibleVerses('Jó 42:2 e Jo 1:1', 'esv', { languages: ['pt'] });
+
+            expect(result).toContain('[Jó 42:2](https://ref.ly/Job42.2;esv)');
+            expect(result).toContain('[Jo 1:1](https://ref.ly/Jn1.1;esv)');
+        });
+
+        it('should read German ordinals with a period', () => {
+            const result = linkBibleVerses('1. Mose 1:1 und 2. Kor 5:17', 'esv', { languages: ['de'] });
+
+            expect(result).toContain('[1. Mose 1:1](https://ref.ly/Ge1.1;esv)');
+            expect(result).toContain('[2. Kor 5:17](https://ref.ly/2Co5.17;esv)');
+        });
+
+        it('should not read a sentence-ending number as an English ordinal', () => {
+            const result = linkBibleVerses('See chapter 1. John 3:16 says', 'esv', { languages: ['de'] });
+
+            expect(result).toBe('See chapter 1. [John 3:16](https://ref.ly/Jn3.16;esv) says');
+        });
+
+        it('should keep English meanings of abbreviations shared with a language pack', () => {
+            expect(linkBibleVerses('Jn 3:16', 'esv', { languages: ['pt'] })).toContain('https://ref.ly/Jn3.16;esv');
+        });
+
+        it('should leave code, math, links, URLs, HTML, comments and frontmatter alone', () => {
+            const text = [
+                '---',
+                'passage: John 3:16',
+                '---',
+                '`Romans 8:28` and $Ps 23:1$',
+                '```',
+                'Genesis 1:1',
+                '```',
+                '[Acts 2:38](https://example.com) [[Ps 23|Psalm 23]] https://example.com/John/3:16',
+                '<span title="Mark 1:1">Luke 2:1</span> <a href="https://ref.ly/Jn3.16;esv">John 3:16</a>',
+                '%% Matthew 5:3 %% and Luke 2:1',
+            ].join('\n');
+
+            const result = linkBibleVerses(text, 'esv');
+
+            expect(result).toBe(text.replace('and Luke 2:1', 'and [Luke 2:1](https://ref.ly/Lk2.1;esv)'));
+        });
+
+        it('should not change already linked text', () => {
+            const text = 'John 3:16; 4:2, v. 5 and ![[Ps 23]]\n\nJude 5 and John 33:99';
+            const options = { flagInvalidReferences: true };
+
+            const once = linkBibleVerses(text, 'esv', options);
+
+            expect(once).toContain('[John 3:16](https://ref.ly/Jn3.16;esv)');
+            expect(once).toContain('==John 33:99==');
+            expect(linkBibleVerses(once, 'esv', options)).toBe(once);
+        });
+
+        it('should not link a reference that runs into code', () => {
+            const result = linkBibleVerses('Romans 8:28-`30`', 'esv');
+
+            expect(result).not.toContain('Ro8.28-30');
+            expect(result).toContain('-`30`');
+        });
+
+        it('should link references with a period or a spaced colon between chapter and verse', () => {
+            const result = linkBibleVerses('Jn 3.16; 4.2 and Ge 1.1-2.3 and John 3: 17', 'esv');
+
+            expect(result).toContain('[Jn 3.16](https://ref.ly/Jn3.16;esv)');
+            expect(result).toContain('; [4.2](https://ref.ly/Jn4.2;esv)');
+            expect(result).toContain('[Ge 1.1-2.3](https://ref.ly/Ge1.1-2.3;esv)');
+            expect(result).toContain('[John 3: 17](https://ref.ly/Jn3.17;esv)');
+        });
+
+        it('should link chapters in roman numerals only after a capitalized book', () => {
+            const result = linkBibleVerses('Is v. 5 the line? John iii. 16 is.', 'esv');
+
+            expect(result).toBe('Is v. 5 the line? [John iii. 16](https://ref.ly/Jn3.16;esv) is.');
+        });
+
+        it('should not join a sentence-ending chapter to the next number', () => {
+            const result = linkBibleVerses('Read Romans 8. 2 Kings 5:1 follows.', 'esv');
+
+            expect(result).toBe('Read [Romans 8](https://ref.ly/Ro8;esv). [2 Kings 5:1](https://ref.ly/2Ki5.1;esv) follows.');
+        });
+
+        it('should link multi-word Spanish book names', () => {
+            const result = linkBibleVerses('Hechos de los Apóstoles 2:38', 'esv', { languages: ['es'] });
+
+            expect(result).toBe('[Hechos de los Apóstoles 2:38](https://ref.ly/Ac2.38;esv)');
+        });
+    });
+
+    describe('parseBibleReferences', () => {
+        it('should return spans, passages and the original text', () => {
+            const text = 'See Jn 3:16 (KJV); 4:2-5, v. 7 and `Ps 23`.';
+
+            expect(parseBibleReferences(text)).toEqual([
+                {
+                    start: 4, end: 11, text: 'Jn 3:16', full: true, valid: true, translation: 'KJV', standalone: false,
+                    passage: { bookCode: 'Jn', chapter: 3, verse: 16, endChapter: null, endVerse: null },
+                },
+                {
+                    start: 19, end: 24, text: '4:2-5', full: false, valid: true, translation: null, standalone: false,
+                    passage: { bookCode: 'Jn', chapter: 4, verse: 2, endChapter: null, endVerse: 5 },
+                },
+                {
+                    start: 26, end: 30, text: 'v. 7', full: false, valid: true, translation: null, standalone: false,
+                    passage: { bookCode: 'Jn', chapter: 4, verse: 7, endChapter: null, endVerse: null },
+                },
+            ]);
+        });
+
+        it('should return references to chapters or verses that do not exist as invalid', () => {
+            const references = parseBibleReferences('1 John 6:1 and Romans 8');
+
+            expect(references.map(reference => [reference.text, reference.valid])).toEqual([['1 John 6:1', false], ['Romans 8', true]]);
+        });
+
+        it('should mark a reference alone on its line as standalone', () => {
+            const references = parseBibleReferences('> John 3:16\nAs in Romans 8');
+
+            expect(references.map(reference => reference.standalone)).toEqual([true, false]);
+        });
+    });
+
+    describe('renderBibleReferences', () => {
+        it('should render only the references it is given', () => {
+            const text = 'John 3:16 and Romans 8:28';
+            const references = parseBibleReferences(text).filter(reference => reference.passage.bookCode === 'Ro');
+
+            expect(renderBibleReferences(text, references, 'esv')).toBe('John 3:16 and [Romans 8:28](https://ref.ly/Ro8.28;esv)');
+        });
+
+        it('should render to the link target in options', () => {
+            const text = 'John 3:16';
+
+            expect(renderBibleReferences(text, parseBibleReferences(text), 'esv', { target: 'logos' })).toBe('[John 3:16](logosref:Bible.Jn3.16)');
+        });
+    });
+
+    describe('countLinkedReferences', () => {
+        it('should count links, embeds and highlights added', () => {
+            const before = '[Acts 2:38](https://example.com) John 3:16; 4:2 and John 33:99\n\nPs 23:1';
+            const after = linkBibleVerses(before, 'esv', { flagInvalidReferences: true });
+
+            expect(countLinkedReferences(before, after)).toBe(4);
+            expect(countLinkedReferences(after, after)).toBe(0);
+        });
     });
 
     describe('getLogosVersionCode', () => {
@@ -113,8 +471,12 @@ describe('Bible Linker', () => {
             expect(getLogosVersionCode('lsb')).toBe('lgcystndrdbblsb');
         });
 
+        it('should return correct code for kjv', () => {
+            expect(getLogosVersionCode('kjv')).toBe('kjv1900');
+        });
+
         it('should return input for unknown versions', () => {
-            expect(getLogosVersionCode('kjv')).toBe('kjv');
+            expect(getLogosVersionCode('nabre')).toBe('nabre');
         });
     });
 });
@@ -0,0 +1,8 @@
+import { BiblePassage } from '../types';
+
+/**
+ * Builds a passage for tests; omitted parts are null
+ */
+export function passage(bookCode: string, chapter: number, verse: number | null = null, endChapter: number | null = null, endVerse: number | null = null): BiblePassage {
+    return { bookCode, chapter, verse, endChapter, endVerse };
+}
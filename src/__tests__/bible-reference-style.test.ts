@@ -0,0 +1,83 @@
+import { BibleReferenceStyle } from '../types';
+import { normalizeBibleReferences } from '../utils/bible-linker';
+import { restyleReference, romanToNumber, styleBookName } from '../utils/bible-reference-style';
+import { passage } from './bible-passage';
+
+const FULL: BibleReferenceStyle = { book: 'full', separator: ':', link: false };
+
+describe('Bible reference style', () => {
+    describe('romanToNumber', () => {
+        it('should convert lowercase roman numerals', () => {
+            expect(romanToNumber('iii')).toBe(3);
+            expect(romanToNumber('iv')).toBe(4);
+            expect(romanToNumber('xiv')).toBe(14);
+            expect(romanToNumber('xlix')).toBe(49);
+        });
+    });
+
+    describe('styleBookName', () => {
+        it('should write full names, SBL abbreviations and Logos codes', () => {
+            expect(styleBookName(passage('1Co', 13), 'full')).toBe('1 Corinthians');
+            expect(styleBookName(passage('1Co', 13), 'sbl')).toBe('1 Cor');
+            expect(styleBookName(passage('1Co', 13), 'logos')).toBe('1Co');
+        });
+
+        it('should tell a single psalm from several', () => {
+            expect(styleBookName(passage('Ps', 23), 'full')).toBe('Psalm');
+            expect(styleBookName(passage('Ps', 1, null, 2), 'full')).toBe('Psalms');
+            expect(styleBookName(passage('Ps', 23, 1), 'sbl')).toBe('Ps');
+            expect(styleBookName(passage('Ps', 1, null, 2), 'sbl')).toBe('Pss');
+        });
+    });
+
+    describe('restyleReference', () => {
+        it('should replace the book name, separator and range dash of a full reference', () => {
+            const style: BibleReferenceStyle = { book: 'sbl', separator: '.', link: false };
+
+            expect(restyleReference('Jn 3:16 - 18', passage('Jn', 3, 16, null, 18), style, true)).toBe('John 3.16–18');
+            expect(restyleReference('Song of Songs 2:1a', passage('So', 2, 1), style, true)).toBe('Song 2.1a');
+        });
+
+        it('should keep the form of continuing references', () => {
+            expect(restyleReference('4.2-5', passage('Jn', 4, 2, null, 5), FULL, false)).toBe('4:2–5');
+            expect(restyleReference('vv. 6-8', passage('Jn', 4, 6, null, 8), FULL, false)).toBe('vv. 6–8');
+        });
+    });
+
+    describe('normalizeBibleReferences', () => {
+        it('should rewrite mixed forms of a reference the same way', () => {
+            const result = normalizeBibleReferences('Jn 3.16, John iii. 16, Joh 3:16 and John 3: 16', FULL);
+
+            expect(result).toBe('John 3:16, John 3:16, John 3:16 and John 3:16');
+        });
+
+        it('should rewrite continuing references and keep verse suffixes', () => {
+            const result = normalizeBibleReferences('Rom 8.28-30; 9.1, v. 5 and Ps 23.1a', FULL);
+
+            expect(result).toBe('Romans 8:28–30; 9:1, v. 5 and Psalm 23:1a');
+        });
+
+        it('should link the rewritten references when the style says so', () => {
+            const result = normalizeBibleReferences('Jn 3.16', { book: 'logos', separator: '.', link: true });
+
+            expect(result).toBe('[Jn 3.16](https://ref.ly/Jn3.16;esv)');
+        });
+
+        it('should leave code, links and invalid references alone', () => {
+            const text = '`Jn 3.16` [Jn 3.16](https://example.com) Jn 33.99';
+
+            expect(normalizeBibleReferences(text, FULL)).toBe(text);
+        });
+
+        it('should leave words that are also book abbreviations alone, even before a verse', () => {
+            const text = 'I am 5:15 late, he is 1:1 with her, Am 5.15; 6.1 and so 3:16 on.';
+
+            expect(normalizeBibleReferences(text, FULL)).toBe(text);
+            expect(normalizeBibleReferences(`${text} See Jn 3.16.`, FULL)).toBe(`${text} See John 3:16.`);
+        });
+
+        it('should not highlight invalid references', () => {
+            expect(normalizeBibleReferences('Jn 33.99', FULL, 'esv', { flagInvalidReferences: true })).toBe('Jn 33.99');
+        });
+    });
+});
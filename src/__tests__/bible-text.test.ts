@@ -0,0 +1,146 @@
+import {
+    listPassageVerses,
+    parseBibleText,
+    parseJsonBible,
+    parseOsisBible,
+    parseUsfmBible,
+    readNoteVerse,
+} from '../utils/bible-text';
+import { passage } from './bible-passage';
+
+describe('Bible text', () => {
+    describe('parseOsisBible', () => {
+        it('should read container verses without notes or titles', () => {
+            const xml = `<osis><osisText><div type="book" osisID="John"><chapter osisID="John.3">
+                <title>The New Birth</title>
+                <verse osisID="John.3.16">For God so loved the world,<note type="study">Or <hi>only</hi></note> that he gave his only Son.</verse>
+                <verse osisID="John.3.17">For God did not send his Son &amp; condemn the world.</verse>
+            </chapter></div></osisText></osis>`;
+            const bible = parseOsisBible(xml);
+
+            expect(bible.get('Jn.3.16')).toBe('For God so loved the world, that he gave his only Son.');
+            expect(bible.get('Jn.3.17')).toBe('For God did not send his Son & condemn the world.');
+        });
+
+        it('should read milestone verses and verses with several IDs', () => {
+            const xml = `<chapter sID="Rom.3" osisID="Rom.3"/>
+                <p><verse sID="Rom.3.24" osisID="Rom.3.24"/>and are justified by his grace<verse eID="Rom.3.24"/>
+                <verse sID="Rom.3.25" osisID="Rom.3.25 Rom.3.26"/>whom God put forward<verse eID="Rom.3.25"/></p>
+                <chapter eID="Rom.3"/>`;
+            const bible = parseOsisBible(xml);
+
+            expect(bible.get('Ro.3.24')).toBe('and are justified by his grace');
+            expect(bible.get('Ro.3.25')).toBe('whom God put forward');
+            expect(bible.get('Ro.3.26')).toBe('whom God put forward');
+        });
+    });
+
+    describe('parseUsfmBible', () => {
+        it('should read verses across paragraphs without headings, footnotes or word attributes', () => {
+            const usfm = [
+                '\\id JHN English Standard Version',
+                '\\h John',
+                '\\c 3',
+                '\\s1 You Must Be Born Again',
+                '\\p',
+                '\\v 16 For God so \\w loved|strong="G25"\\w* the world,\\f + \\fr 3:16 \\ft Or \\fq only \\f* that he gave',
+                '\\q1 his only Son.',
+                '\\v 17-18 For God did not send his Son.',
+            ].join('\n');
+            const bible = parseUsfmBible(usfm);
+
+            expect(bible.get('Jn.3.16')).toBe('For God so loved the world, that he gave his only Son.');
+            expect(bible.get('Jn.3.17')).toBe('For God did not send his Son.');
+            expect(bible.get('Jn.3.18')).toBe('For God did not send his Son.');
+        });
+    });
+
+    describe('parseJsonBible', () => {
+        it('should read books keyed by name with numbered or listed chapters and verses', () => {
+            const bible = parseJsonBible(JSON.stringify({
+                'John': { '3': { '16': 'For God so loved the world' } },
+                '1 Corinthians': [[], [], [], [], [], [], [], [], [], [], [], [], ['', '', '', 'Love is patient']],
+            }));
+
+            expect(bible.get('Jn.3.16')).toBe('For God so loved the world');
+            expect(bible.get('1Co.13.4')).toBe('Love is patient');
+            expect(bible.has('1Co.13.1')).toBe(false);
+        });
+
+        it('should read lists of books and lists of verses', () => {
+            const books = parseJsonBible(JSON.stringify([{ abbrev: 'gn', name: 'Genesis', chapters: [['In the beginning']] }]));
+            const verses = parseJsonBible(JSON.stringify({
+                verses: [
+                    { book_name: 'Psalms', book: 19, chapter: 23, verse: 1, text: 'The LORD is my shepherd' },
+                    { book: 43, chapter: 11, verse: 35, text: 'Jesus wept.' },
+                ],
+            }));
+
+            expect(books.get('Ge.1.1')).toBe('In the beginning');
+            expect(verses.get('Ps.23.1')).toBe('The LORD is my shepherd');
+            expect(verses.get('Jn.11.35')).toBe('Jesus wept.');
+        });
+    });
+
+    describe('parseBibleText', () => {
+        it('should choose the format by extension and ignore other files', () => {
+            expect(parseBibleText('<verse osisID="Jude.1.1">Jude</verse>', 'xml')?.get('Jud.1.1')).toBe('Jude');
+            expect(parseBibleText('\\id JUD\n\\c 1\n\\v 1 Jude', 'usfm')?.get('Jud.1.1')).toBe('Jude');
+            expect(parseBibleText('{"Jude": [["Jude"]]}', 'JSON')?.get('Jud.1.1')).toBe('Jude');
+            expect(parseBibleText('Jude', 'md')).toBeNull();
+        });
+    });
+
+    describe('readNoteVerse', () => {
+        const chapter = [
+            '# John 3',
+            '',
+            '###### 16',
+            '**16** For God so loved the world, [[John 1|that]] he gave',
+            'his only Son.',
+            '',
+            '###### 17',
+            'For God did not send his Son.',
+        ].join('\n');
+
+        it('should read a verse by block ID without its number or Markdown', () => {
+            const content = '- 16 For God so *loved* the world ^16\n- 17 For God did not send his Son ^17';
+
+            expect(readNoteVerse(content, '^16', 16)).toBe('For God so loved the world');
+            expect(readNoteVerse(content, '^18', 18)).toBeNull();
+        });
+
+        it('should read a paragraph whose block ID is on a line of its own', () => {
+            expect(readNoteVerse('For God so loved\nthe world\n^v16\n\nNext', '^v16', 16)).toBe('For God so loved the world');
+        });
+
+        it('should read a verse by heading up to the next heading', () => {
+            expect(readNoteVerse(chapter, '16', 16)).toBe('For God so loved the world, that he gave his only Son.');
+            expect(readNoteVerse(chapter, '17', 17)).toBe('For God did not send his Son.');
+            expect(readNoteVerse(chapter, '', 1)).toBeNull();
+        });
+    });
+
+    describe('listPassageVerses', () => {
+        it('should list a verse, a verse range and a cross-chapter range', () => {
+            expect(listPassageVerses(passage('Jn', 3, 16)).verses).toEqual([{ chapter: 3, verse: 16 }]);
+            expect(listPassageVerses(passage('Jn', 3, 16, null, 18)).verses.map(v => v.verse)).toEqual([16, 17, 18]);
+            expect(listPassageVerses(passage('Jn', 3, 35, 4, 2)).verses).toEqual([
+                { chapter: 3, verse: 35 }, { chapter: 3, verse: 36 }, { chapter: 4, verse: 1 }, { chapter: 4, verse: 2 },
+            ]);
+        });
+
+        it('should list whole chapters using the versification', () => {
+            expect(listPassageVerses(passage('Ps', 51)).verses).toHaveLength(19);
+            expect(listPassageVerses(passage('Ps', 51), 'hebrew').verses).toHaveLength(21);
+        });
+
+        it('should cut off long passages', () => {
+            const { verses, truncated } = listPassageVerses(passage('Ps', 119), 'english', 10);
+
+            expect(verses).toHaveLength(10);
+            expect(truncated).toBe(true);
+            expect(listPassageVerses(passage('Ps', 117)).truncated).toBe(false);
+        });
+    });
+});
@@ -0,0 +1,60 @@
+import {
+    findTranslationByAbbreviation,
+    getBibleTranslations,
+    resolveTranslation,
+    translationIncludesBook
+} from '../utils/bible-translations';
+
+describe('Bible Translations', () => {
+    describe('getBibleTranslations', () => {
+        it('should include the built-in translations', () => {
+            const ids = getBibleTranslations().map(translation => translation.id);
+
+            expect(ids).toEqual(expect.arrayContaining(['esv', 'kjv', 'nkjv', 'csb', 'nrsv', 'net', 'leb', 'na28', 'sblgnt', 'bhs']));
+        });
+
+        it('should add custom translations and let them replace built-in codes', () => {
+            const translations = getBibleTranslations([
+                { abbreviation: 'NABRE', logosCode: 'nabre' },
+                { abbreviation: 'BHS', logosCode: 'bhssesb' },
+            ]);
+
+            expect(translations.find(translation => translation.id === 'nabre')?.logosCode).toBe('nabre');
+            expect(translations.find(translation => translation.id === 'bhs')).toMatchObject({ logosCode: 'bhssesb', language: 'hbo' });
+        });
+    });
+
+    describe('resolveTranslation', () => {
+        it('should resolve keys and abbreviations', () => {
+            expect(resolveTranslation('nasb').logosCode).toBe('nasb95');
+            expect(resolveTranslation('NIV').logosCode).toBe('niv2011');
+        });
+
+        it('should pass unknown keys through as Logos codes', () => {
+            expect(resolveTranslation('nabre')).toMatchObject({ logosCode: 'nabre', abbreviation: 'NABRE' });
+        });
+    });
+
+    describe('findTranslationByAbbreviation', () => {
+        it('should only find registered translations', () => {
+            expect(findTranslationByAbbreviation('SBLGNT')?.language).toBe('grc');
+            expect(findTranslationByAbbreviation('ABC')).toBeNull();
+        });
+    });
+
+    describe('translationIncludesBook', () => {
+        it('should follow the translation canon', () => {
+            const na28 = resolveTranslation('na28');
+            const bhs = resolveTranslation('bhs');
+            const esv = resolveTranslation('esv');
+            const nrsv = resolveTranslation('nrsv');
+
+            expect(translationIncludesBook(na28, 'Jn')).toBe(true);
+            expect(translationIncludesBook(na28, 'Ge')).toBe(false);
+            expect(translationIncludesBook(bhs, 'Mal')).toBe(true);
+            expect(translationIncludesBook(bhs, 'Sir')).toBe(false);
+            expect(translationIncludesBook(esv, 'Sir')).toBe(false);
+            expect(translationIncludesBook(nrsv, 'Sir')).toBe(true);
+        });
+    });
+});
@@ -0,0 +1,82 @@
+import { parseBibtexDatabase, parseFirstBibtexEntry } from '../utils/bibtex-parser';
+
+describe('BibTeX Parser', () => {
+    describe('parseBibtexDatabase', () => {
+        it('should keep nested braces inside field values', () => {
+            const entry = parseFirstBibtexEntry('@book{key, title = {The {LORD} Is My Shepherd}, year = 2001}');
+
+            expect(entry?.fields.title).toBe('The {LORD} Is My Shepherd');
+            expect(entry?.fields.year).toBe('2001');
+        });
+
+        it('should keep escaped accents intact', () => {
+            const entry = parseFirstBibtexEntry('@book{key, publisher = {Vandenhoeck {\\"u} Ruprecht}}');
+            expect(entry?.fields.publisher).toBe('Vandenhoeck {\\"u} Ruprecht');
+        });
+
+        it('should parse quoted values with braces containing quotes', () => {
+            const entry = parseFirstBibtexEntry('@article{key, title = "A {"quoted"} word", pages = "12--14"}');
+
+            expect(entry?.fields.title).toBe('A {"quoted"} word');
+            expect(entry?.fields.pages).toBe('12--14');
+        });
+
+        it('should expand @string macros and # concatenation', () => {
+            const db = parseBibtexDatabase(`@string{ivp = "InterVarsity Press"}
+@string{dg = {Downers Grove}}
+@book{wright2003,
+  publisher = ivp,
+  address = dg # ", IL",
+  month = mar
+}`);
+
+            expect(db.strings.ivp).toBe('InterVarsity Press');
+            expect(db.entries).toHaveLength(1);
+            expect(db.entries[0].fields.publisher).toBe('InterVarsity Press');
+            expect(db.entries[0].fields.address).toBe('Downers Grove, IL');
+            expect(db.entries[0].fields.month).toBe('March');
+        });
+
+        it('should collect @preamble and skip @comment', () => {
+            const db = parseBibtexDatabase(`@preamble{"\\newcommand{\\noop}[1]{}"}
+@comment{ignored @book{fake, title={No}} }
+@book{real, title={Yes}}`);
+
+            expect(db.preambles).toEqual(['\\newcommand{\\noop}[1]{}']);
+            expect(db.entries.map(e => e.key)).toEqual(['real']);
+        });
+
+        it('should match field names exactly', () => {
+            const entry = parseFirstBibtexEntry('@incollection{key, booktitle = {The Book}, title = {The Chapter}}');
+
+            expect(entry?.fields.title).toBe('The Chapter');
+            expect(entry?.fields.booktitle).toBe('The Book');
+        });
+
+        it('should accept parenthesis-delimited entries and lowercase names', () => {
+            const entry = parseFirstBibtexEntry('@BOOK(key, TITLE = {Upper})');
+
+            expect(entry?.type).toBe('book');
+            expect(entry?.key).toBe('key');
+            expect(entry?.fields.title).toBe('Upper');
+        });
+
+        it('should record the source span of each value', () => {
+            const source = '@book{key, title = {Span}}';
+            const entry = parseFirstBibtexEntry(source);
+            const span = entry?.spans.title;
+
+            expect(span).toBeDefined();
+            expect(source.substring(span?.start ?? 0, span?.end ?? 0)).toBe('{Span}');
+        });
+
+        it('should not throw on unterminated input', () => {
+            const entry = parseFirstBibtexEntry('@book{key, title = {Unfinished');
+            expect(entry?.fields.title).toBe('Unfinished');
+        });
+
+        it('should return null when there is no entry', () => {
+            expect(parseFirstBibtexEntry('no entries here')).toBeNull();
+        });
+    });
+});
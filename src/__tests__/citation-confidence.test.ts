@@ -0,0 +1,59 @@
+import { assessCitation, LOW_CONFIDENCE_THRESHOLD } from '../utils/citation-confidence';
+import { parseAPA, parseBibtex, parseChicago, parseMLA } from '../utils/clipboard-parser';
+
+describe('Citation Confidence', () => {
+    describe('assessCitation', () => {
+        it('should trust a complete book citation', () => {
+            const result = parseChicago('Wright, N. T. The Resurrection of the Son of God. Minneapolis: Fortress, 2003.');
+
+            expect(result.confidence).toBe(1);
+            expect(result.missingFields).toEqual([]);
+        });
+
+        it('should list missing fields and lower the score', () => {
+            const result = parseAPA('Waltke, B. K. (2018). OT300 Old Testament Theology.');
+
+            expect(result.missingFields).toEqual(['publisher']);
+            expect(result.confidence).toBeCloseTo(0.85);
+        });
+
+        it('should flag plain text that fell through to BibTeX', () => {
+            const fallback = parseBibtex('Just some copied text without any citation at all');
+            expect(fallback.confidence).toBe(0);
+            expect(fallback.missingFields).toEqual(['title', 'author', 'year', 'publisher']);
+        });
+
+        it('should count implausible values for half their weight', () => {
+            const result = assessCitation({
+                ...parseChicago('Wright, N. T. The Resurrection of the Son of God. Minneapolis: Fortress, 2003.'),
+                author: 'Wright, N. T., and many other people who wrote a very long sentence that is clearly not a name',
+            });
+
+            expect(result.confidence).toBe(0.88);
+        });
+
+        it('should doubt an author that ran into a quoted entry title', () => {
+            const result = assessCitation({
+                ...parseMLA('Elwell, Walter A., and Barry J. Beitzel. “Covenant.” _Baker Encyclopedia of the Bible_, vol. 1, Baker Book House.'),
+                author: 'Elwell, Walter A., and Barry J. Beitzel. “Covenant.”',
+            });
+
+            expect(result.confidence).toBe(0.68);
+            expect(result.confidence).toBeLessThan(LOW_CONFIDENCE_THRESHOLD);
+        });
+
+        it('should score shortened notes on author, short title and locator', () => {
+            const result = parseChicago('Wright, *Resurrection*, 45.');
+
+            expect(result.confidence).toBe(1);
+            expect(result.confidence).toBeGreaterThanOrEqual(LOW_CONFIDENCE_THRESHOLD);
+        });
+
+        it('should not expect a publisher for journal articles', () => {
+            const result = parseBibtex('@article{hays2003, author={Hays, Richard B.}, title={Reading Scripture}, journal={New Testament Studies}, year={2003}}');
+
+            expect(result.missingFields).toEqual([]);
+            expect(result.confidence).toBe(1);
+        });
+    });
+});
@@ -9,7 +9,12 @@ import {
     parseBibtex,
     parseMLA,
     parseAPA,
-    parseChicago
+    parseChicago,
+    parseSBL,
+    parseRIS,
+    parseCslJson,
+    splitClipboardEntries,
+    parseLogosClipboardEntries
 } from '../utils/clipboard-parser';
 
 describe('Clipboard Parser', () => {
@@ -19,6 +24,24 @@ describe('Clipboard Parser', () => {
             expect(detectCitationFormat(bibtex)).toBe('bibtex');
         });
 
+        it('should detect RIS format', () => {
+            expect(detectCitationFormat('TY  - BOOK\nAU  - Wright, N. T.\nTI  - Jesus and the Victory of God\nER  - ')).toBe('ris');
+        });
+
+        it('should detect CSL-JSON format', () => {
+            expect(detectCitationFormat('[{"id": "1", "type": "book", "title": "Jesus and the Victory of God"}]')).toBe('csl-json');
+            expect(detectCitationFormat('{"type": "book", "author": [{"family": "Wright"}]}')).toBe('csl-json');
+        });
+
+        it('should not detect arbitrary JSON as CSL-JSON', () => {
+            expect(detectCitationFormat('{"name": "plugin"}')).not.toBe('csl-json');
+        });
+
+        it('should detect a shortened note as Chicago', () => {
+            expect(detectCitationFormat('Wright, *Resurrection*, 45.')).toBe('chicago');
+            expect(detectCitationFormat('Wright, [_Resurrection_](https://ref.ly/logosres/resurrection), 45.')).toBe('chicago');
+        });
+
         it('should detect APA format', () => {
             const apa = 'Smith, J. A. (2020). Title of work. Publisher.';
             expect(detectCitationFormat(apa)).toBe('apa');
@@ -34,6 +57,24 @@ describe('Clipboard Parser', () => {
             expect(detectCitationFormat(chicago)).toBe('chicago');
         });
 
+        it('should detect SBL notes with series abbreviations', () => {
+            expect(detectCitationFormat('Robert A. Guelich, *Mark 1–8:26*, WBC 34A (Dallas: Word, 1989), 45.')).toBe('sbl');
+            expect(detectCitationFormat('Robert A. Guelich, _Mark 1–8:26_ (WBC 34A; Dallas: Word, 1989), 45.')).toBe('sbl');
+        });
+
+        it('should detect SBL bibliography entries', () => {
+            expect(detectCitationFormat('Guelich, Robert A. *Mark 1–8:26*. WBC 34A. Dallas: Word, 1989.')).toBe('sbl');
+        });
+
+        it('should detect SBL journal articles and series without a volume', () => {
+            expect(detectCitationFormat('Richard B. Hays, “Psalm 143 and the Logic of Romans 3,” JBL 99 (1980): 107–15.')).toBe('sbl');
+            expect(detectCitationFormat('D. A. Carson, The Gospel according to John, PNTC (Grand Rapids: Eerdmans, 1991), 45.')).toBe('sbl');
+        });
+
+        it('should detect Chicago journal articles', () => {
+            expect(detectCitationFormat('Richard B. Hays, “Reading Scripture,” _New Testament Studies_ 49, no. 2 (2003): 150–70.')).toBe('chicago');
+        });
+
         it('should default to bibtex for unknown formats', () => {
             const unknown = 'Some random text';
             expect(detectCitationFormat(unknown)).toBe('bibtex');
@@ -175,6 +216,183 @@ collection={Some Collection} }`;
             expect(result.cleanedTitle).toBe('Generic Book Title');
             expect(result.series).toBe('Some Series Name');
         });
+
+        it('should not truncate titles containing nested braces', () => {
+            const bibtex = '@book{key, title = {The {LORD} Is My Shepherd}, year = {2001}}';
+            const result = parseBibtex(bibtex);
+            expect(result.title).toBe('The LORD Is My Shepherd');
+        });
+
+        it('should decode LaTeX accents while keeping the raw value in rawCitation', () => {
+            const bibtex = '@book{key, author = {Ku{\\ss}, Otto}, publisher = {Vandenhoeck \\& Ruprecht}, address = {G{\\"o}ttingen}}';
+            const result = parseBibtex(bibtex);
+            expect(result.author).toBe('Kuß, Otto');
+            expect(result.publisher).toBe('Vandenhoeck & Ruprecht');
+            expect(result.fields?.address).toBe('Göttingen');
+            expect(result.rawCitation).toContain('Ku{\\ss}');
+            expect(result.rawCitation).toContain('G{\\"o}ttingen');
+        });
+
+        it('should parse author, editor and translator lists into contributors', () => {
+            const bibtex = '@book{key, author = {Calvin, John}, editor = {McNeill, John T.}, translator = {Ford Lewis Battles}}';
+            const result = parseBibtex(bibtex);
+            expect(result.contributors?.map(c => [c.family, c.role])).toEqual([
+                ['Calvin', 'author'],
+                ['McNeill', 'editor'],
+                ['Battles', 'translator'],
+            ]);
+        });
+
+        it('should build a fallback cite key from the first author family name', () => {
+            const result = parseBibtex('@book{, author = {Gerhard von Rad}, year = {1962}}');
+            expect(result.citeKey).toBe('rad-1962');
+        });
+
+        it('should not decode verbatim fields such as url', () => {
+            const bibtex = '@book{key, title = {T}, url = {https://ref.ly/x?ctx=a~b--c}}';
+            const result = parseBibtex(bibtex);
+            expect(result.url).toBe('https://ref.ly/x?ctx=a~b--c');
+        });
+
+        it('should not match title against booktitle', () => {
+            const bibtex = '@book{key, booktitle = {Wrong}, title = {Right}}';
+            expect(extractBookTitle(bibtex)).toBe('Right');
+        });
+
+        it('should parse quoted values and string macros', () => {
+            const bibtex = `@string{bh = "Baker Book House"}
+@book{key, title = "Quoted Title", publisher = bh, year = 1988}`;
+            const result = parseBibtex(bibtex);
+            expect(result.title).toBe('Quoted Title');
+            expect(result.publisher).toBe('Baker Book House');
+            expect(result.year).toBe('1988');
+        });
+
+        it('should expose every field of the entry', () => {
+            const bibtex = '@book{key, title = {Title}, edition = {2nd}, address = {Grand Rapids}}';
+            const result = parseBibtex(bibtex);
+            expect(result.fields).toEqual({ title: 'Title', edition: '2nd', address: 'Grand Rapids' });
+        });
+
+        it('should link the title in rawCitation when a url field is present', () => {
+            const bibtex = '@book{key, title = {Linked}, url = {https://ref.ly/test}}';
+            const result = parseBibtex(bibtex);
+            expect(result.title).toBe('[Linked](https://ref.ly/test)');
+            expect(result.rawCitation).toContain('title = {[Linked](https://ref.ly/test)}');
+        });
+    });
+
+    describe('work details', () => {
+        it('should keep the article and its container apart in BibTeX', () => {
+            const bibtex = '@incollection{smith2016, author={Smith, Jane}, title={Wisdom}, booktitle={The Lexham Bible Dictionary}, editor={Barry, John D.}, address={Bellingham, WA}, publisher={Lexham Press}, year={2016}, volume={2}, edition={2}, doi={10.1000/lbd}}';
+            const result = parseBibtex(bibtex);
+
+            expect(result.title).toBe('The Lexham Bible Dictionary');
+            expect(result.entryType).toBe('dictionary-entry');
+            expect(result.containerTitle).toBe('The Lexham Bible Dictionary');
+            expect(result.articleTitle).toBe('Wisdom');
+            expect(result.volume).toBe('2');
+            expect(result.edition).toBe('2');
+            expect(result.place).toBe('Bellingham, WA');
+            expect(result.doi).toBe('10.1000/lbd');
+            expect(result.editors).toEqual(['John D. Barry']);
+        });
+
+        it('should read a BibTeX journal article', () => {
+            const result = parseBibtex('@article{hays2003, author={Hays, Richard B.}, title={Reading Scripture}, journal={New Testament Studies}, volume={49}, number={2}, year={2003}}');
+
+            expect(result.entryType).toBe('article');
+            expect(result.containerTitle).toBe('New Testament Studies');
+            expect(result.articleTitle).toBe('Reading Scripture');
+            expect(result.issue).toBe('2');
+        });
+
+        it('should treat a plain BibTeX book as a book without a container', () => {
+            const result = parseBibtex('@book{wright2003, author={Wright, N. T.}, title={The Resurrection of the Son of God}, year={2003}}');
+
+            expect(result.entryType).toBe('book');
+            expect(result.containerTitle).toBeNull();
+            expect(result.articleTitle).toBeNull();
+        });
+
+        it('should read a Chicago dictionary article with its editors and place', () => {
+            const chicago = 'Jane Smith, [“Wisdom,”](https://ref.ly/logosres/lbd?art=wisdom) in _The Lexham Bible Dictionary_, ed. John D. Barry et al. (Bellingham, WA: Lexham Press, 2016).';
+            const result = parseChicago(chicago);
+
+            expect(result.entryType).toBe('dictionary-entry');
+            expect(result.articleTitle).toBe('Wisdom');
+            expect(result.containerTitle).toBe('The Lexham Bible Dictionary');
+            expect(result.place).toBe('Bellingham, WA');
+            expect(result.editors).toEqual(['John D. Barry']);
+        });
+
+        it('should read a Chicago journal article volume and issue', () => {
+            const result = parseChicago('Richard B. Hays, “Reading Scripture,” _New Testament Studies_ 49, no. 2 (2003): 150–70.');
+
+            expect(result.entryType).toBe('article');
+            expect(result.containerTitle).toBe('New Testament Studies');
+            expect(result.volume).toBe('49');
+            expect(result.issue).toBe('2');
+        });
+
+        it('should not read a page after a reference work as its volume', () => {
+            const entry = parseChicago('Smith, Jane. “Covenant.” In [_Baker Encyclopedia of the Bible_](https://ref.ly/logosres/bkrencbib), 531. Grand Rapids: Baker, 1988.');
+            const journal = parseChicago('Hays, Richard B. “Reading Scripture.” _New Testament Studies_ 49 (2003): 150–70.');
+
+            expect(entry.entryType).toBe('dictionary-entry');
+            expect(entry.volume).toBeNull();
+            expect(journal.volume).toBe('49');
+        });
+
+        it('should read an APA journal article with a DOI', () => {
+            const result = parseAPA('Hays, R. B. (2003). Reading Scripture. New Testament Studies, 49(2), 150–170. https://doi.org/10.1017/S0028688503000080');
+
+            expect(result.entryType).toBe('article');
+            expect(result.articleTitle).toBe('Reading Scripture');
+            expect(result.containerTitle).toBe('New Testament Studies');
+            expect(result.volume).toBe('49');
+            expect(result.issue).toBe('2');
+            expect(result.doi).toBe('10.1017/S0028688503000080');
+        });
+
+        it('should read the entry title of a Logos APA dictionary entry', () => {
+            const result = parseAPA('Elwell, W. A., & Beitzel, B. J. (1988). [Wisdom, Wisdom Literature](https://ref.ly/logosres/bkrencbib?ref=Page.p+2152). In _Baker encyclopedia of the Bible_ (Vol. 2, p. 2152). Baker Book House.');
+
+            expect(result.entryType).toBe('dictionary-entry');
+            expect(result.articleTitle).toBe('Wisdom, Wisdom Literature');
+            expect(result.containerTitle).toBe('Baker encyclopedia of the Bible');
+            expect(result.volume).toBe('2');
+        });
+
+        it('should read an MLA chapter with an edition', () => {
+            const result = parseMLA('Smith, Jane. “Wisdom.” _Old Testament Studies_, edited by John Barry, 2nd ed., Lexham Press, 2016.');
+
+            expect(result.entryType).toBe('chapter');
+            expect(result.articleTitle).toBe('Wisdom');
+            expect(result.containerTitle).toBe('Old Testament Studies');
+            expect(result.edition).toBe('2nd');
+        });
+
+        it('should treat a Chicago book as a book', () => {
+            const result = parseChicago('Wright, N. T. The Resurrection of the Son of God. Minneapolis: Fortress, 2003.');
+
+            expect(result.entryType).toBe('book');
+            expect(result.place).toBe('Minneapolis');
+            expect(result.articleTitle).toBeNull();
+        });
+
+        it('should read entry types and details from RIS and CSL-JSON', () => {
+            const ris = parseRIS('TY  - JOUR\nTI  - Reading Scripture\nJO  - New Testament Studies\nVL  - 49\nIS  - 2\nDO  - 10.1017/x\nER  - ');
+            const csl = parseCslJson('{"type": "entry-dictionary", "title": "Wisdom", "container-title": "The Lexham Bible Dictionary", "publisher-place": "Bellingham, WA", "edition": 2}');
+
+            expect(ris.entryType).toBe('article');
+            expect(ris.articleTitle).toBe('Reading Scripture');
+            expect(ris.issue).toBe('2');
+            expect(ris.doi).toBe('10.1017/x');
+            expect(csl.entryType).toBe('dictionary-entry');
+            expect(csl.place).toBe('Bellingham, WA');
+            expect(csl.edition).toBe('2');
+        });
     });
 
     describe('parseMLA', () => {
@@ -212,6 +430,25 @@ collection={Some Collection} }`;
             expect(result.citeKey).not.toBe('unknown');
             expect(result.citeKey).toBe('elwell-1988');
         });
+        it('should read the year and publisher of an MLA entry before its pages', () => {
+            const result = parseMLA('Smith, John. "Covenant." _Baker Encyclopedia of the Bible_, edited by Walter A. Elwell, Baker, 1988, pp. 1-5.');
+
+            expect(result.author).toBe('Smith, John');
+            expect(result.title).toBe('Covenant');
+            expect(result.year).toBe('1988');
+            expect(result.publisher).toBe('Baker');
+        });
+
+        it('should keep the quoted title of an MLA dictionary entry out of the author', () => {
+            const signed = parseMLA('Elwell, Walter A., and Barry J. Beitzel. “Covenant.” _Baker Encyclopedia of the Bible_, vol. 1, Baker Book House, 1988, p. 530.');
+            const unsigned = parseMLA('“Covenant.” _The Lexham Bible Dictionary_, edited by John D. Barry, Lexham Press, 2016.');
+
+            expect(signed.author).toBe('Elwell, Walter A., and Barry J. Beitzel');
+            expect(signed.title).toBe('Baker Encyclopedia of the Bible');
+            expect(signed.articleTitle).toBe('Covenant');
+            expect(unsigned.author).toBeNull();
+            expect(unsigned.articleTitle).toBe('Covenant');
+        });
     });
 
     describe('parseAPA', () => {
@@ -235,6 +472,24 @@ collection={Some Collection} }`;
             expect(result.url).toContain('ref.ly');
         });
 
+        it('should use the first family name for the cite key even when it contains "and"', () => {
+            const apa = 'Alexander, T. D., & Rosner, B. S. (2000). New dictionary of biblical theology. InterVarsity Press.';
+            const result = parseAPA(apa);
+
+            expect(result.citeKey).toBe('alexander-2000');
+            expect(result.contributors?.map(c => c.family)).toEqual(['Alexander', 'Rosner']);
+        });
+
+        it('should keep an (Ed.) marker with the author and mark the contributor as editor', () => {
+            const apa = 'Elwell, W. A. (Ed.). (1988). Baker encyclopedia of the Bible. Baker Book House.';
+            const result = parseAPA(apa);
+
+            expect(result.year).toBe('1988');
+            expect(result.title).toBe('Baker encyclopedia of the Bible');
+            expect(result.contributors?.[0]).toMatchObject({ family: 'Elwell', role: 'editor' });
+            expect(result.citeKey).toBe('elwell-1988');
+        });
+
         it('should correctly parse author without capturing preceding text', () => {
             const apa = 'Author, A. B. (2020). Title here. Publisher.';
             const result = parseAPA(apa);
@@ -265,9 +520,384 @@ collection={Some Collection} }`;
             expect(result.publisher).toBe('University Press');
             expect(result.url).toContain('ref.ly');
         });
+
+        it('should distinguish bibliography entries from full notes', () => {
+            const bibliography = parseChicago('Wright, N. T. The Resurrection of the Son of God. Minneapolis: Fortress, 2003.');
+            const note = parseChicago('N. T. Wright, _The Resurrection of the Son of God_ (Minneapolis: Fortress, 2003), 45–47.');
+
+            expect(bibliography.citationForm).toBe('bibliography');
+            expect(bibliography.pages).toBeNull();
+            expect(note.citationForm).toBe('note');
+            expect(note.pages).toBe('45–47');
+        });
+
+        it('should drop the terminal period from bibliography article titles and authors', () => {
+            const quoted = parseChicago('Hays, Richard B. "Covenant." _New Testament Studies_ 49, no. 2 (2003): 150–70.');
+            const linked = parseChicago('Barry, John D. [“Covenant.”](https://ref.ly/logosres/lbd?art=covenant) In _The Lexham Bible Dictionary_, edited by John D. Barry. Bellingham, WA: Lexham Press, 2016.');
+            const curly = parseChicago('Barry, John D. “Covenant.” In _The Lexham Bible Dictionary_, edited by John D. Barry. Bellingham, WA: Lexham Press, 2016.');
+
+            expect(quoted.author).toBe('Hays, Richard B');
+            expect(quoted.title).toBe('Covenant');
+            expect(linked.author).toBe('Barry, John D');
+            expect(linked.title).toBe('Covenant');
+            expect(linked.articleTitle).toBe('Covenant');
+            expect(curly.author).toBe('Barry, John D');
+            expect(curly.title).toBe('The Lexham Bible Dictionary');
+            expect(curly.articleTitle).toBe('Covenant');
+        });
+
+        it('should parse a shortened note', () => {
+            const result = parseChicago('Wright, *Resurrection*, 45.');
+
+            expect(result.citationForm).toBe('short-note');
+            expect(result.author).toBe('Wright');
+            expect(result.title).toBe('Resurrection');
+            expect(result.pages).toBe('45');
+            expect(result.year).toBeNull();
+        });
+
+        it('should parse a shortened note with a quoted article title and two authors', () => {
+            const result = parseChicago('Elwell and Beitzel, “Wisdom,” 2152.');
+
+            expect(result.citationForm).toBe('short-note');
+            expect(result.author).toBe('Elwell and Beitzel');
+            expect(result.title).toBe('Wisdom');
+            expect(result.pages).toBe('2152');
+        });
+    });
+
+    describe('parseSBL', () => {
+        it('should parse an SBL note with a series abbreviation', () => {
+            const sbl = 'Robert A. Guelich, *Mark 1–8:26*, WBC 34A (Dallas: Word, 1989), 45.';
+            const result = parseSBL(sbl);
+
+            expect(result.format).toBe('sbl');
+            expect(result.author).toBe('Robert A. Guelich');
+            expect(result.title).toBe('Mark 1–8:26');
+            expect(result.series).toBe('WBC 34A');
+            expect(result.publisher).toBe('Word');
+            expect(result.year).toBe('1989');
+            expect(result.pages).toBe('45');
+            expect(result.citeKey).toBe('guelich-1989');
+        });
+
+        it('should parse a first-edition SBL note with the series inside the parentheses', () => {
+            const sbl = 'Robert A. Guelich, _Mark 1–8:26_ (WBC 34A; Dallas: Word, 1989), 45.';
+            const result = parseSBL(sbl);
+
+            expect(result.title).toBe('Mark 1–8:26');
+            expect(result.series).toBe('WBC 34A');
+            expect(result.publisher).toBe('Word');
+            expect(result.year).toBe('1989');
+        });
+
+        it('should parse an SBL bibliography entry', () => {
+            const sbl = 'Guelich, Robert A. *Mark 1–8:26*. WBC 34A. Dallas: Word, 1989.';
+            const result = parseSBL(sbl);
+
+            expect(result.author).toBe('Guelich, Robert A');
+            expect(result.title).toBe('Mark 1–8:26');
+            expect(result.series).toBe('WBC 34A');
+            expect(result.publisher).toBe('Word');
+            expect(result.year).toBe('1989');
+            expect(result.pages).toBeNull();
+        });
+
+        it('should parse a plain-text SBL bibliography entry', () => {
+            const sbl = 'Guelich, Robert A. Mark 1–8:26. WBC 34A. Dallas: Word, 1989.';
+            const result = parseSBL(sbl);
+
+            expect(result.title).toBe('Mark 1–8:26');
+            expect(result.series).toBe('WBC 34A');
+            expect(result.year).toBe('1989');
+        });
+
+        it('should parse a plain-text SBL note', () => {
+            const sbl = 'Robert A. Guelich, Mark 1–8:26, WBC 34A (Dallas: Word, 1989), 45.';
+            const result = parseSBL(sbl);
+
+            expect(result.author).toBe('Robert A. Guelich');
+            expect(result.title).toBe('Mark 1–8:26');
+            expect(result.series).toBe('WBC 34A');
+        });
+
+        it('should parse a multivolume work with a volume:page locator', () => {
+            const sbl = '1. Joseph A. Fitzmyer, _The Gospel according to Luke_, 2 vols., AB 28–28A (Garden City, NY: Doubleday, 1981–1985), 1:235.';
+            const result = parseSBL(sbl);
+
+            expect(result.author).toBe('Joseph A. Fitzmyer');
+            expect(result.title).toBe('The Gospel according to Luke');
+            expect(result.series).toBe('AB 28–28A');
+            expect(result.publisher).toBe('Doubleday');
+            expect(result.year).toBe('1981');
+            expect(result.pages).toBe('1:235');
+        });
+
+        it('should parse a Logos SBL note with a spelled-out series and volume', () => {
+            const sbl = 'Andrew T. Lincoln, [_Ephesians_](https://ref.ly/logosres/wbc42?ref=Page.p+45), vol. 42, Word Biblical Commentary (Dallas: Word, Incorporated, 1990), 45.';
+            const result = parseSBL(sbl);
+
+            expect(result.author).toBe('Andrew T. Lincoln');
+            expect(result.title).toBe('Ephesians');
+            expect(result.url).toContain('ref.ly');
+            expect(result.series).toBe('Word Biblical Commentary 42');
+            expect(result.publisher).toBe('Word, Incorporated');
+            expect(result.year).toBe('1990');
+        });
+
+        it('should file dictionary articles under the containing work', () => {
+            const sbl = 'Walter A. Elwell and Barry J. Beitzel, “Wisdom, Wisdom Literature,” in _Baker Encyclopedia of the Bible_ (Grand Rapids: Baker, 1988), 2:2152.';
+            const result = parseSBL(sbl);
+
+            expect(result.title).toBe('Baker Encyclopedia of the Bible');
+            expect(result.author).toBe('Walter A. Elwell and Barry J. Beitzel');
+            expect(result.year).toBe('1988');
+        });
+
+        it('should parse an SBL journal article note', () => {
+            const sbl = 'Richard B. Hays, “Psalm 143 and the Logic of Romans 3,” JBL 99 (1980): 107–15.';
+            const result = parseSBL(sbl);
+
+            expect(result.format).toBe('sbl');
+            expect(result.author).toBe('Richard B. Hays');
+            expect(result.title).toBe('Psalm 143 and the Logic of Romans 3');
+            expect(result.entryType).toBe('article');
+            expect(result.containerTitle).toBe('JBL');
+            expect(result.volume).toBe('99');
+            expect(result.year).toBe('1980');
+            expect(result.pages).toBe('107–15');
+        });
+
+        it('should parse an SBL note with a series abbreviation but no volume', () => {
+            const sbl = 'D. A. Carson, The Gospel according to John, PNTC (Grand Rapids: Eerdmans, 1991), 45.';
+            const result = parseSBL(sbl);
+
+            expect(result.author).toBe('D. A. Carson');
+            expect(result.title).toBe('The Gospel according to John');
+            expect(result.series).toBe('PNTC');
+            expect(result.publisher).toBe('Eerdmans');
+            expect(result.year).toBe('1991');
+            expect(result.pages).toBe('45');
+        });
+    });
+
+    describe('parseRIS', () => {
+        const ris = [
+            'TY  - CHAP',
+            'AU  - Wright, N. T.',
+            'AU  - Bird, Michael F.',
+            'A2  - Green, Joel B.',
+            'TI  - The Historical Jesus',
+            'T2  - Dictionary of Jesus and the Gospels',
+            'ET  - 2nd',
+            'VL  - 1',
+            'PY  - 2013///',
+            'SP  - 375',
+            'EP  - 388',
+            'CY  - Downers Grove, IL',
+            'PB  - IVP Academic',
+            'SN  - 978-0-8308-2456-7',
+            'DO  - https://doi.org/10.1000/example',
+            'KW  - Jesus',
+            'KW  - history',
+            'ER  - ',
+        ].join('\n');
+
+        it('should parse a RIS record', () => {
+            const result = parseRIS(ris);
+
+            expect(result.format).toBe('ris');
+            expect(result.author).toBe('Wright, N. T. and Bird, Michael F.');
+            expect(result.title).toBe('Dictionary of Jesus and the Gospels');
+            expect(result.year).toBe('2013');
+            expect(result.pages).toBe('375-388');
+            expect(result.publisher).toBe('IVP Academic');
+            expect(result.isbn).toBe('978-0-8308-2456-7');
+            expect(result.keywords).toEqual(['Jesus', 'history']);
+            expect(result.citeKey).toBe('wright-2013');
+        });
+
+        it('should keep every author and editor as contributors', () => {
+            const result = parseRIS(ris);
+
+            expect(result.contributors?.map(c => `${c.role}:${c.family}`)).toEqual([
+                'author:Wright', 'author:Bird', 'editor:Green',
+            ]);
+        });
+
+        it('should expose volume, edition, DOI and container title as fields', () => {
+            const fields = parseRIS(ris).fields;
+
+            expect(fields?.title).toBe('The Historical Jesus');
+            expect(fields?.booktitle).toBe('Dictionary of Jesus and the Gospels');
+            expect(fields?.volume).toBe('1');
+            expect(fields?.edition).toBe('2nd');
+            expect(fields?.doi).toBe('10.1000/example');
+            expect(fields?.address).toBe('Downers Grove, IL');
+        });
+
+        it('should treat SN as an ISSN for journal articles', () => {
+            const result = parseRIS('TY  - JOUR\nAU  - Hays, Richard B.\nTI  - Reading Scripture\nJO  - New Testament Studies\nSN  - 0028-6885\nPY  - 2003\nER  - ');
+
+            expect(result.title).toBe('New Testament Studies');
+            expect(result.isbn).toBeNull();
+            expect(result.fields?.journal).toBe('New Testament Studies');
+            expect(result.fields?.issn).toBe('0028-6885');
+        });
+    });
+
+    describe('parseCslJson', () => {
+        const csl = JSON.stringify([{
+            id: 'http://zotero.org/users/1/items/ABC',
+            type: 'article-journal',
+            title: 'Reading Scripture',
+            'container-title': 'New Testament Studies',
+            volume: 49,
+            issue: '2',
+            page: '150-170',
+            DOI: '10.1017/S0028688503000080',
+            author: [
+                { family: 'Hays', given: 'Richard B.' },
+                { family: 'Rad', given: 'Gerhard', 'non-dropping-particle': 'von' },
+            ],
+            translator: [{ literal: 'Society of Biblical Literature' }],
+            issued: { 'date-parts': [[2003, 4]] },
+        }], null, 2);
+
+        it('should parse a CSL-JSON item', () => {
+            const result = parseCslJson(csl);
+
+            expect(result.format).toBe('csl-json');
+            expect(result.author).toBe('Hays, Richard B. and von Rad, Gerhard');
+            expect(result.title).toBe('New Testament Studies');
+            expect(result.year).toBe('2003');
+            expect(result.pages).toBe('150-170');
+            expect(result.citeKey).toBe('hays-2003');
+        });
+
+        it('should map names, volume, issue and DOI', () => {
+            const result = parseCslJson(csl);
+
+            expect(result.contributors?.[1]).toEqual({ family: 'Rad', given: 'Gerhard', suffix: null, particle: 'von', role: 'author' });
+            expect(result.contributors?.[2].family).toBe('Society of Biblical Literature');
+            expect(result.fields?.journal).toBe('New Testament Studies');
+            expect(result.fields?.volume).toBe('49');
+            expect(result.fields?.number).toBe('2');
+            expect(result.fields?.doi).toBe('10.1017/S0028688503000080');
+        });
+
+        it('should prefer the citation-key variable', () => {
+            const result = parseCslJson('{"type": "book", "title": "Mark", "citation-key": "guelich_mark_1989", "issued": {"raw": "1989"}}');
+
+            expect(result.citeKey).toBe('guelich-mark-1989');
+            expect(result.year).toBe('1989');
+        });
+    });
+
+    describe('splitClipboardEntries', () => {
+        it('should keep a single copy whole', () => {
+            const clipboard = 'First quote.\n\nWright, N. T. The Resurrection of the Son of God. Minneapolis: Fortress, 2003.';
+            expect(splitClipboardEntries(clipboard)).toEqual([clipboard]);
+        });
+
+        it('should split several formatted copies after each citation', () => {
+            const clipboard = [
+                'First quote.',
+                '',
+                'Wright, N. T. The Resurrection of the Son of God. Minneapolis: Fortress, 2003, p. 45.',
+                '',
+                'Second quote,',
+                'over two lines.',
+                '',
+                'Ladd, George Eldon. The Presence of the Future. Grand Rapids: Eerdmans, 1974, p. 12.',
+            ].join('\n');
+            const chunks = splitClipboardEntries(clipboard);
+
+            expect(chunks).toHaveLength(2);
+            expect(chunks[0]).toBe('First quote.\n\nWright, N. T. The Resurrection of the Son of God. Minneapolis: Fortress, 2003, p. 45.');
+            expect(chunks[1].startsWith('Second quote,')).toBe(true);
+        });
+
+        it('should split several BibTeX copies after each entry', () => {
+            const clipboard = 'First quote. @book{wright2003, title={Resurrection}, year={2003}, pages={45}}\n\nSecond quote. @book{ladd1974, title={Presence}, year={1974}, pages={12}}';
+            const chunks = splitClipboardEntries(clipboard);
+
+            expect(chunks).toEqual([
+                'First quote. @book{wright2003, title={Resurrection}, year={2003}, pages={45}}',
+                'Second quote. @book{ladd1974, title={Presence}, year={1974}, pages={12}}',
+            ]);
+        });
+
+        it('should not split a quote whose last line looks like a citation', () => {
+            const clipboard = [
+                'The standard treatment of the question remains',
+                'Hart, H. L. A. The Concept of Law. Oxford: Clarendon, 1990.',
+                '',
+                'Wright, N. T. The Resurrection of the Son of God. Minneapolis: Fortress, 2003, p. 45.',
+            ].join('\n');
+
+            expect(splitClipboardEntries(clipboard)).toEqual([clipboard]);
+        });
+
+        it('should split copies whose citations follow the quote after a single line break', () => {
+            const clipboard = [
+                'First quote.',
+                'Wright, N. T. The Resurrection of the Son of God. Minneapolis: Fortress, 2003, p. 45.',
+                '',
+                'Second quote.',
+                'Ladd, George Eldon. The Presence of the Future. Grand Rapids: Eerdmans, 1974, p. 12.',
+            ].join('\n');
+
+            expect(splitClipboardEntries(clipboard)).toHaveLength(2);
+        });
+
+        it('should not split on quoted text that only mentions a year', () => {
+            const clipboard = 'In 1974 Ladd wrote about the kingdom.\n\nMore quoted text.\n\nLadd, George Eldon. The Presence of the Future. Grand Rapids: Eerdmans, 1974.';
+            expect(splitClipboardEntries(clipboard)).toHaveLength(1);
+        });
+    });
+
+    describe('locators', () => {
+        it('should give a structured locator for a Chicago note with a footnote', () => {
+            const result = parseLogosClipboard('Quote.\n\nN. T. Wright, _The Resurrection of the Son of God_ (Minneapolis: Fortress, 2003), 45 n. 3.');
+
+            expect(result.locator).toEqual({ kind: 'footnote', value: '45 n. 3' });
+        });
+
+        it('should give a structured locator for a locus', () => {
+            const result = parseLogosClipboard('Quote.\n\nJohn Calvin, _Institutes of the Christian Religion_ (Philadelphia: Westminster, 1960), Inst. 1.3.1.');
+
+            expect(result.locator).toEqual({ kind: 'locus', value: 'Inst. 1.3.1' });
+        });
+
+        it('should give a structured locator for a page found in the text', () => {
+            const result = parseLogosClipboard('Quote.\n\nLadd, George Eldon. The Presence of the Future. Eerdmans, 1974, p. xiv.');
+
+            expect(result.locator).toEqual({ kind: 'page', value: 'xiv' });
+        });
+    });
+
+    describe('parseLogosClipboardEntries', () => {
+        it('should give each copy its own text, citation and page', () => {
+            const clipboard = 'First quote.\n\nWright, N. T. The Resurrection of the Son of God. Minneapolis: Fortress, 2003, p. 45.\n\nSecond quote.\n\nLadd, George Eldon. The Presence of the Future. Grand Rapids: Eerdmans, 1974, p. 12.';
+            const entries = parseLogosClipboardEntries(clipboard);
+
+            expect(entries.map(entry => entry.mainText)).toEqual(['First quote.', 'Second quote.']);
+            expect(entries.map(entry => entry.citation?.year)).toEqual(['2003', '1974']);
+            expect(entries.map(entry => entry.page)).toEqual(['p. 45', 'p. 12']);
+        });
     });
 
     describe('parseLogosClipboard', () => {
+        it('should detect the format from the citation, not from publication data in the quote', () => {
+            const clipboard = 'The translation used here (ESV 2016; Wheaton: Crossway, 2016) follows the Greek closely.\n\nN. T. Wright, _The Resurrection of the Son of God_ (Minneapolis: Fortress, 2003), 45.';
+            const result = parseLogosClipboard(clipboard);
+
+            expect(result.citation?.format).toBe('chicago');
+            expect(result.citation?.title).toBe('The Resurrection of the Son of God');
+            expect(result.mainText).toBe('The translation used here (ESV 2016; Wheaton: Crossway, 2016) follows the Greek closely.');
+        });
+
         it('should parse clipboard content with BibTeX', () => {
             const clipboard = `This is a quote from the book.
 @book{smith2020,
@@ -357,6 +987,18 @@ Third line.
             expect(result.reflyLink).toBe('https://ref.ly/logosref/phi.1.1;esv');
         });
 
+        it('should split Text + SBL Citation correctly', () => {
+            const clipboard = `The kingdom is both present and future.
+
+Robert A. Guelich, *Mark 1–8:26*, WBC 34A (Dallas: Word, 1989), 45.`;
+            const result = parseLogosClipboard(clipboard);
+
+            expect(result.mainText).toBe('The kingdom is both present and future.');
+            expect(result.citation?.format).toBe('sbl');
+            expect(result.citation?.title).toBe('Mark 1–8:26');
+            expect(result.page).toBe('45');
+        });
+
         it('should respect preferred format when specified', () => {
             const clipboard = `Smith, J. A. (2020). Test title. Publisher.`;
             const result = parseLogosClipboard(clipboard, 'apa');
@@ -409,6 +1051,32 @@ Third line.
             const result = extractPageNumber('Text p. 100–105');
             expect(result.page).toBe('p. 100–105');
         });
+
+        it('should extract roman numerals, multiple ranges and notes', () => {
+            expect(extractPageNumber('Grand Rapids: Eerdmans, 1974, p. xiv.').page).toBe('p. xiv');
+            expect(extractPageNumber('Eerdmans, 1974, pp. 12, 15–17.').page).toBe('pp. 12, 15–17');
+            expect(extractPageNumber('Eerdmans, 1974, p. 45 n. 3.').page).toBe('p. 45 n. 3');
+        });
+
+        it('should extract sections and columns', () => {
+            expect(extractPageNumber('Text § 4.2').page).toBe('§ 4.2');
+            expect(extractPageNumber('Text cols. 3–4.').page).toBe('cols. 3–4');
+        });
+
+        it('should not read a page label out of a longer word', () => {
+            expect(extractPageNumber('See chap. 4').page).toBeNull();
+        });
+
+        it('should extract classical loci', () => {
+            expect(extractPageNumber('John Calvin, _Institutes of the Christian Religion_ (Philadelphia: Westminster, 1960), Inst. 1.3.1.'))
+                .toEqual({ cleanedText: 'John Calvin, _Institutes of the Christian Religion_ (Philadelphia: Westminster, 1960)', page: 'Inst. 1.3.1' });
+            expect(extractPageNumber('Thomas Aquinas, _Summa Theologiae_, Summa I, q. 2, a. 3.').page).toBe('Summa I, q. 2, a. 3');
+            expect(extractPageNumber('Josephus, _Antiquities_ (Ant. 18.63)').page).toBe('Ant. 18.63');
+        });
+
+        it('should not take a publisher and year for a locus', () => {
+            expect(extractPageNumber('Calvin, John. _Institutes_. Philadelphia: Westminster, 1960.').page).toBeNull();
+        });
     });
 
     describe('extractPagesFromBibtex', () => {
@@ -548,7 +1216,7 @@ Third line.
                 const text = 'Miller, Arthur J. _The Silicon Horizon: A History of Computing_. Seattle: North Press, 2018.';
                 const result = parseChicago(text);
                 expect(result.author).toBe('Miller, Arthur J');
-                expect(result.title).toContain('The Silicon Horizon');
+                expect(result.title).toBe('The Silicon Horizon: A History of Computing');
                 expect(result.publisher).toBe('North Press');
                 expect(result.year).toBe('2018');
             });
@@ -557,7 +1225,7 @@ Third line.
                 const text = 'García, Maria L., and Wei Chen. _Urban Echoes: Sociology of the Modern City_. 2nd ed. Chicago: Riverbank Publishing, 2022.';
                 const result = parseChicago(text);
                 expect(result.author).toBe('García, Maria L., and Wei Chen');
-                expect(result.title).toContain('Urban Echoes');
+                expect(result.title).toBe('Urban Echoes: Sociology of the Modern City');
                 expect(result.publisher).toBe('Riverbank Publishing');
                 expect(result.year).toBe('2022');
             });
@@ -566,7 +1234,7 @@ Third line.
                 const text = 'Vance, Sarah R. _Principles of Organic Chemistry_. New York: Academic Media Group, 2015.';
                 const result = parseChicago(text);
                 expect(result.author).toBe('Vance, Sarah R');
-                expect(result.title).toContain('Principles of Organic Chemistry');
+                expect(result.title).toBe('Principles of Organic Chemistry');
                 expect(result.publisher).toBe('Academic Media Group');
                 expect(result.year).toBe('2015');
             });
@@ -666,6 +1334,25 @@ Harrison, Robert D., and Elena Martinez. A Comprehensive Study of Ancient Civili
                 }
             });
 
+            it('should split Text + RIS record correctly', () => {
+                const clipboard = 'The kingdom is both present and future.\n\nTY  - BOOK\nAU  - Ladd, George Eldon\nTI  - The Presence of the Future\nPY  - 1974\nPB  - Eerdmans\nER  - ';
+                const result = parseLogosClipboard(clipboard);
+
+                expect(result.mainText).toBe('The kingdom is both present and future.');
+                expect(result.citation?.format).toBe('ris');
+                expect(result.citation?.title).toBe('The Presence of the Future');
+                expect(result.citation?.citeKey).toBe('ladd-1974');
+            });
+
+            it('should split Text + CSL-JSON correctly', () => {
+                const clipboard = 'The kingdom is both present and future.\n\n[\n  {"type": "book", "title": "The Presence of the Future", "author": [{"family": "Ladd", "given": "George Eldon"}], "issued": {"date-parts": [[1974]]}}\n]';
+                const result = parseLogosClipboard(clipboard);
+
+                expect(result.mainText).toBe('The kingdom is both present and future.');
+                expect(result.citation?.format).toBe('csl-json');
+                expect(result.citation?.author).toBe('Ladd, George Eldon');
+            });
+
             it('should split Text + APA Citation correctly', () => {
                 const clipboard = `God, in His grace, appears to Manoah’s wife—[through] an angel of the Lord [or] revelation—and promises her a child. When you come to Hannah, there’s no revelation at all. Manoah’s wife, however, is resigned to her barrenness. She has no prayer. She has no praise. Hannah is quite different. She wants a child; she wants a son, and she’s provoked
 
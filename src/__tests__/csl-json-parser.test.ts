@@ -0,0 +1,50 @@
+import { CslItem, cslContributors, cslYear, extractCslJson } from '../utils/csl-json-parser';
+
+describe('CSL-JSON Parser', () => {
+    describe('extractCslJson', () => {
+        it('should find an array of items after quoted text', () => {
+            const text = 'Some quoted text [with brackets].\n\n[{"type": "book", "title": "One"}, {"type": "chapter", "title": "Two"}]';
+            const result = extractCslJson(text);
+
+            expect(result?.items.map(item => item.title)).toEqual(['One', 'Two']);
+            expect(text.substring(result?.start ?? 0).startsWith('[{')).toBe(true);
+        });
+
+        it('should return null for JSON that is not CSL', () => {
+            expect(extractCslJson('[1, 2, 3]')).toBeNull();
+            expect(extractCslJson('{"title": "No type"}')).toBeNull();
+        });
+    });
+
+    describe('cslYear', () => {
+        it('should read date parts, raw and literal dates', () => {
+            expect(cslYear({ 'date-parts': [[1989, 5]] })).toBe('1989');
+            expect(cslYear({ raw: 'Spring 2003' })).toBe('2003');
+            expect(cslYear({ literal: 'c. 1550' })).toBe('1550');
+            expect(cslYear(undefined)).toBeNull();
+        });
+    });
+
+    describe('cslContributors', () => {
+        it('should map name variables to roles and join particles', () => {
+            const contributors = cslContributors({
+                author: [{ family: 'Beethoven', given: 'Ludwig', 'dropping-particle': 'van' }],
+                editor: [{ family: 'Smith', given: 'John', suffix: 'Jr.' }],
+            });
+
+            expect(contributors).toEqual([
+                { family: 'Beethoven', given: 'Ludwig', suffix: null, particle: 'van', role: 'author' },
+                { family: 'Smith', given: 'John', suffix: 'Jr.', particle: null, role: 'editor' },
+            ]);
+        });
+
+        it('should read a single name or a string and skip other values', () => {
+            const item = JSON.parse('{"author": {"family": "Wright", "given": "N. T."}, "editor": "Lexham Press", "translator": 42}') as CslItem;
+
+            expect(cslContributors(item)).toEqual([
+                { family: 'Wright', given: 'N. T.', suffix: null, particle: null, role: 'author' },
+                { family: 'Lexham Press', given: null, suffix: null, particle: null, role: 'editor' },
+            ]);
+        });
+    });
+});
@@ -3,9 +3,15 @@ import {
     generateNotePath,
     generateMetadataFrontmatter,
     generateCitationFrontmatter,
-    toTitleCase
+    toTitleCase,
+    referenceNoteName,
+    articleNoteName,
+    citationArticle,
+    workCitation,
+    addArticleLink
 } from '../utils/file-utils';
 import { ParsedCitation } from '../types';
+import { parseAPA } from '../utils/clipboard-parser';
 
 describe('File Utils', () => {
     describe('sanitizeNoteName', () => {
@@ -165,6 +171,73 @@ describe('File Utils', () => {
             expect(result).toContain('title: "Book with \\"Quoted\\" Title"');
         });
 
+        it('should write contributors as YAML lists grouped by role', () => {
+            const citation: ParsedCitation = {
+                format: 'chicago',
+                citeKey: 'calvin-1960',
+                author: 'John Calvin',
+                title: 'Institutes of the Christian Religion',
+                cleanedTitle: 'Institutes of the Christian Religion',
+                year: '1960',
+                pages: null,
+                publisher: null,
+                url: null,
+                rawCitation: '',
+                isbn: null,
+                abstract: null,
+                keywords: null,
+                series: null,
+                contributors: [
+                    { family: 'Calvin', given: 'John', suffix: null, particle: null, role: 'author' },
+                    { family: 'McNeill', given: 'John T.', suffix: null, particle: null, role: 'editor' },
+                    { family: 'Battles', given: 'Ford Lewis', suffix: null, particle: null, role: 'translator' },
+                ],
+            };
+            const result = generateCitationFrontmatter(citation);
+
+            expect(result).toContain('authors:\n  - "John Calvin"\n');
+            expect(result).toContain('editors:\n  - "John T. McNeill"\n');
+            expect(result).toContain('translators:\n  - "Ford Lewis Battles"\n');
+            expect(result).not.toContain('compilers:');
+        });
+
+        it('should write entry type and work details for a dictionary article', () => {
+            const citation: ParsedCitation = {
+                format: 'bibtex',
+                citeKey: 'barry-2016',
+                author: 'Jane Smith',
+                title: 'The Lexham Bible Dictionary',
+                cleanedTitle: 'The Lexham Bible Dictionary',
+                year: '2016',
+                pages: null,
+                publisher: 'Lexham Press',
+                url: null,
+                rawCitation: '',
+                isbn: null,
+                abstract: null,
+                keywords: null,
+                series: null,
+                entryType: 'dictionary-entry',
+                containerTitle: 'The Lexham Bible Dictionary',
+                articleTitle: 'Wisdom',
+                volume: null,
+                edition: '2nd',
+                place: 'Bellingham, WA',
+                doi: '10.1000/lbd',
+                editors: ['John D. Barry'],
+            };
+            const result = generateCitationFrontmatter(citation);
+
+            expect(result).toContain('entry-type: dictionary-entry\n');
+            expect(result).toContain('container-title: "The Lexham Bible Dictionary"\n');
+            expect(result).toContain('article-title: "Wisdom"\n');
+            expect(result).toContain('edition: "2nd"\n');
+            expect(result).toContain('place: "Bellingham, WA"\n');
+            expect(result).toContain('doi: "10.1000/lbd"\n');
+            expect(result).toContain('editors:\n  - "John D. Barry"\n');
+            expect(result).not.toContain('volume:');
+        });
+
         it('should include enhanced metadata when fetchLogosMetadata is enabled', () => {
             const citation: ParsedCitation = {
                 format: 'bibtex',
@@ -254,4 +327,85 @@ describe('File Utils', () => {
             expect(toTitleCase('niv bible')).toBe('Niv Bible');
         });
     });
+
+    describe('reference note names', () => {
+        it('should name a work note after its title', () => {
+            expect(referenceNoteName('baker encyclopedia of the bible')).toBe('Baker Encyclopedia of the Bible - References');
+        });
+
+        it('should qualify an article note with its work', () => {
+            expect(articleNoteName('covenant', 'Baker Encyclopedia of the Bible')).toBe('Covenant (Baker Encyclopedia of the Bible) - References');
+        });
+
+        it('should name APA dictionary entries after the entry and its work', () => {
+            const citation = parseAPA('Elwell, W. A., & Beitzel, B. J. (1988). [Wisdom, Wisdom Literature](https://ref.ly/logosres/bkrencbib?ref=Page.p+2152). In _Baker encyclopedia of the Bible_ (Vol. 2, p. 2152). Baker Book House.');
+            const article = citationArticle(citation);
+
+            expect(article).toEqual({ title: 'Wisdom, Wisdom Literature', workTitle: 'Baker encyclopedia of the Bible' });
+            expect(article && articleNoteName(article.title, article.workTitle)).toBe('Wisdom, Wisdom Literature (Baker Encyclopedia of the Bible) - References');
+        });
+
+        it('should not treat an article title that repeats its container as an article', () => {
+            const citation = parseAPA('Elwell, W. A. (1988). In _Baker encyclopedia of the Bible_ (Vol. 2, p. 2152). Baker Book House.');
+
+            expect(citationArticle({ ...citation, articleTitle: 'Baker Encyclopedia of the Bible' })).toBeNull();
+            expect(citationArticle({ ...citation, articleTitle: null })).toBeNull();
+        });
+    });
+
+    describe('workCitation', () => {
+        it('should credit the work to its editors and drop the article', () => {
+            const citation: ParsedCitation = {
+                format: 'chicago',
+                citeKey: 'smith-1988',
+                author: 'Jane Smith',
+                title: 'Baker Encyclopedia of the Bible',
+                cleanedTitle: 'Baker Encyclopedia of the Bible',
+                year: '1988',
+                pages: '531',
+                publisher: 'Baker Book House',
+                url: null,
+                rawCitation: '',
+                isbn: null,
+                abstract: null,
+                keywords: null,
+                series: null,
+                contributors: [
+                    { family: 'Smith', given: 'Jane', suffix: null, particle: null, role: 'author' },
+                    { family: 'Elwell', given: 'Walter A.', suffix: null, particle: null, role: 'editor' },
+                ],
+                entryType: 'dictionary-entry',
+                containerTitle: 'Baker Encyclopedia of the Bible',
+                articleTitle: 'Covenant',
+                editors: ['Walter A. Elwell'],
+            };
+            const work = workCitation(citation);
+
+            expect(work.citeKey).toBe('elwell-1988');
+            expect(work.author).toBe('Walter A. Elwell');
+            expect(work.title).toBe('Baker Encyclopedia of the Bible');
+            expect(work.entryType).toBe('book');
+            expect(work.articleTitle).toBeNull();
+            expect(work.pages).toBeNull();
+            expect(work.contributors).toHaveLength(1);
+        });
+    });
+
+    describe('addArticleLink', () => {
+        it('should create the Articles section', () => {
+            expect(addArticleLink('---\ntitle: "Work"\n---\n\n', '[[Covenant|Covenant]]'))
+                .toBe('---\ntitle: "Work"\n---\n\n## Articles\n\n- [[Covenant|Covenant]]\n');
+        });
+
+        it('should append to an existing Articles section before the next heading', () => {
+            const content = '## Articles\n\n- [[Adam|Adam]]\n\n## Notes\nText';
+            expect(addArticleLink(content, '[[Covenant|Covenant]]'))
+                .toBe('## Articles\n- [[Adam|Adam]]\n- [[Covenant|Covenant]]\n\n## Notes\nText');
+        });
+
+        it('should not list an article twice', () => {
+            const content = '## Articles\n\n- [[Covenant|Covenant]]\n';
+            expect(addArticleLink(content, '[[Covenant|Covenant]]')).toBe(content);
+        });
+    });
 });
@@ -0,0 +1,57 @@
+import { decodeLatex } from '../utils/latex-decoder';
+
+describe('LaTeX Decoder', () => {
+    describe('decodeLatex', () => {
+        it('should decode braced and bare umlauts', () => {
+            expect(decodeLatex('G{\\"o}ttingen')).toBe('Göttingen');
+            expect(decodeLatex('G\\"ottingen')).toBe('Göttingen');
+            expect(decodeLatex('M\\"{u}nchen')).toBe('München');
+        });
+
+        it('should decode acute, grave, circumflex, tilde and cedilla', () => {
+            expect(decodeLatex("Andr\\'{e}")).toBe('André');
+            expect(decodeLatex('Cr\\`eme')).toBe('Crème');
+            expect(decodeLatex('Ma\\^{\\i}tre')).toBe('Maître');
+            expect(decodeLatex('Espa\\~na')).toBe('España');
+            expect(decodeLatex('Fran\\c{c}ois')).toBe('François');
+        });
+
+        it('should decode letter accents like caron and double acute', () => {
+            expect(decodeLatex('Dvo\\v{r}\\\'ak')).toBe('Dvořák');
+            expect(decodeLatex('Erd\\H{o}s')).toBe('Erdős');
+        });
+
+        it('should decode special letters', () => {
+            expect(decodeLatex('Ku{\\ss}')).toBe('Kuß');
+            expect(decodeLatex('Stra\\ss e')).toBe('Straße');
+            expect(decodeLatex('{\\O}rsted')).toBe('Ørsted');
+            expect(decodeLatex('{\\AE}lfric')).toBe('Ælfric');
+        });
+
+        it('should decode escapes, dashes and quotes', () => {
+            expect(decodeLatex('Faith \\& Reason')).toBe('Faith & Reason');
+            expect(decodeLatex('1990--2000')).toBe('1990–2000');
+            expect(decodeLatex('Word---break')).toBe('Word—break');
+            expect(decodeLatex('1990{\\textendash}2000')).toBe('1990–2000');
+            expect(decodeLatex("``Quoted''")).toBe('“Quoted”');
+        });
+
+        it('should strip grouping braces and formatting commands', () => {
+            expect(decodeLatex('The {LORD} Is My Shepherd')).toBe('The LORD Is My Shepherd');
+            expect(decodeLatex('A Study of \\emph{Hesed}')).toBe('A Study of Hesed');
+        });
+
+        it('should turn ties into spaces', () => {
+            expect(decodeLatex('D.~A. Carson')).toBe('D. A. Carson');
+        });
+
+        it('should leave markdown link targets and URLs untouched', () => {
+            const linked = '[Title--Part](https://ref.ly/logosres/x?ctx=a+b%0a~In+this--that)';
+            expect(decodeLatex(linked)).toBe('[Title–Part](https://ref.ly/logosres/x?ctx=a+b%0a~In+this--that)');
+        });
+
+        it('should keep unknown commands as written', () => {
+            expect(decodeLatex('\\LaTeX{} Companion')).toBe('\\LaTeX Companion');
+        });
+    });
+});
@@ -0,0 +1,60 @@
+import { formatLocator, parseLocator } from '../utils/locator-parser';
+
+describe('Locator Parser', () => {
+    describe('parseLocator', () => {
+        it('should parse plain and labelled pages', () => {
+            expect(parseLocator('45')).toEqual({ kind: 'page', value: '45' });
+            expect(parseLocator('p. 45.')).toEqual({ kind: 'page', value: '45' });
+            expect(parseLocator('pp. 12–14')).toEqual({ kind: 'page', value: '12–14' });
+        });
+
+        it('should parse roman numerals and multiple ranges', () => {
+            expect(parseLocator('xiv')).toEqual({ kind: 'page', value: 'xiv' });
+            expect(parseLocator('12, 15–17')).toEqual({ kind: 'page', value: '12, 15–17' });
+        });
+
+        it('should parse footnotes in their common spellings', () => {
+            expect(parseLocator('45 n. 3')).toEqual({ kind: 'footnote', value: '45 n. 3' });
+            expect(parseLocator('45n3')).toEqual({ kind: 'footnote', value: '45 n. 3' });
+            expect(parseLocator('p. 45 nn. 3–4')).toEqual({ kind: 'footnote', value: '45 nn. 3–4' });
+            expect(parseLocator('n. 7')).toEqual({ kind: 'footnote', value: 'n. 7' });
+        });
+
+        it('should parse sections and columns', () => {
+            expect(parseLocator('§ 4.2')).toEqual({ kind: 'section', value: '4.2' });
+            expect(parseLocator('§§ 4–5')).toEqual({ kind: 'section', value: '4–5' });
+            expect(parseLocator('col. 12')).toEqual({ kind: 'column', value: '12' });
+        });
+
+        it('should parse loci', () => {
+            expect(parseLocator('Inst. 1.3.1')).toEqual({ kind: 'locus', value: 'Inst. 1.3.1' });
+            expect(parseLocator('Ant. 18.63.')).toEqual({ kind: 'locus', value: 'Ant. 18.63' });
+        });
+
+        it('should keep volume and page together', () => {
+            expect(parseLocator('2:152')).toEqual({ kind: 'page', value: '2:152' });
+        });
+
+        it('should return null for empty input', () => {
+            expect(parseLocator(null)).toBeNull();
+            expect(parseLocator('  ')).toBeNull();
+        });
+    });
+
+    describe('formatLocator', () => {
+        it('should label pages by number', () => {
+            expect(formatLocator({ kind: 'page', value: '45' })).toBe('p. 45');
+            expect(formatLocator({ kind: 'page', value: '12, 15' })).toBe('pp. 12, 15');
+            expect(formatLocator({ kind: 'page', value: '10-15' })).toBe('pp. 10-15');
+            expect(formatLocator({ kind: 'page', value: 'xiv' })).toBe('p. xiv');
+        });
+
+        it('should label footnotes, sections, columns and loci', () => {
+            expect(formatLocator({ kind: 'footnote', value: '45 n. 3' })).toBe('p. 45 n. 3');
+            expect(formatLocator({ kind: 'footnote', value: 'n. 7' })).toBe('n. 7');
+            expect(formatLocator({ kind: 'section', value: '4–5' })).toBe('§§ 4–5');
+            expect(formatLocator({ kind: 'column', value: '3–4' })).toBe('cols. 3–4');
+            expect(formatLocator({ kind: 'locus', value: 'Inst. 1.3.1' })).toBe('Inst. 1.3.1');
+        });
+    });
+});
@@ -0,0 +1,85 @@
+import { findNonProseRanges, linkAt, rangeAt } from '../utils/markdown-ranges';
+
+/**
+ * Returns the text of every non-prose range
+ */
+function nonProse(text: string): string[] {
+    return findNonProseRanges(text).map(range => text.substring(range.start, range.end));
+}
+
+describe('Markdown ranges', () => {
+    describe('findNonProseRanges', () => {
+        it('should find frontmatter only at the start of a note', () => {
+            const text = '---\ntitle: John 3:16\n---\nProse\n---\nnot: frontmatter\n---\n';
+
+            expect(nonProse(text)).toEqual(['---\ntitle: John 3:16\n---\n']);
+        });
+
+        it('should find fenced code blocks, including unclosed ones', () => {
+            expect(nonProse('a\n```js\nJohn 3:16\n```\nb')).toEqual(['```js\nJohn 3:16\n```']);
+            expect(nonProse('a\n~~~\nJohn 3:16')).toEqual(['~~~\nJohn 3:16']);
+        });
+
+        it('should find inline code and math', () => {
+            expect(nonProse('See `John 3:16`, $$x$$ and $a + b$.')).toEqual(['`John 3:16`', '$$x$$', '$a + b$']);
+        });
+
+        it('should not take prices for inline math', () => {
+            expect(nonProse('It cost $5 and $10 today')).toEqual([]);
+        });
+
+        it('should find links, images, wikilinks and embeds', () => {
+            const text = '[John 3:16](https://ref.ly/Jn3.16;esv), ![img](a.png), [[John 3#^16|John 3:16]], ![[Ps 23]] and [see][1]';
+
+            expect(nonProse(text)).toEqual([
+                '[John 3:16](https://ref.ly/Jn3.16;esv)',
+                '![img](a.png)',
+                '[[John 3#^16|John 3:16]]',
+                '![[Ps 23]]',
+                '[see][1]',
+            ]);
+        });
+
+        it('should find inline HTML elements with their text, and HTML comments', () => {
+            expect(nonProse('<span title="John 3:16">Romans 8</span> <a href="https://ref.ly/Jn3.16">John 3:16</a> <!-- Ps 1 -->'))
+                .toEqual(['<span title="John 3:16">Romans 8</span>', '<a href="https://ref.ly/Jn3.16">John 3:16</a>', '<!-- Ps 1 -->']);
+        });
+
+        it('should find only the tags of elements that span lines', () => {
+            expect(nonProse('<div>\nRomans 8\n</div><br>')).toEqual(['<div>', '</div>', '<br>']);
+        });
+
+        it('should find Obsidian comments, including unclosed ones', () => {
+            expect(nonProse('See %%John 3:16\nand Ps 1%% here')).toEqual(['%%John 3:16\nand Ps 1%%']);
+            expect(nonProse('a %%Romans 8')).toEqual(['%%Romans 8']);
+        });
+
+        it('should find URLs and link definitions', () => {
+            expect(nonProse('Go to https://example.com/John/3:16 or logosref:Bible.Jn3.16\n[1]: https://ref.ly/Ps1'))
+                .toEqual(['https://example.com/John/3:16', 'logosref:Bible.Jn3.16', '[1]: https://ref.ly/Ps1']);
+        });
+    });
+
+    describe('rangeAt', () => {
+        it('should return the range containing an offset', () => {
+            const ranges = [{ start: 2, end: 5 }, { start: 8, end: 10 }];
+
+            expect(rangeAt(ranges, 1)).toBeNull();
+            expect(rangeAt(ranges, 2)).toEqual({ start: 2, end: 5 });
+            expect(rangeAt(ranges, 5)).toBeNull();
+            expect(rangeAt(ranges, 9)).toEqual({ start: 8, end: 10 });
+        });
+    });
+
+    describe('linkAt', () => {
+        it('should return the target and text of the link or URL at an offset', () => {
+            const line = 'See [John 3:16](https://ref.ly/Jn3.16;esv) and https://ref.ly/Ro8.28;esv here';
+
+            expect(linkAt(line, 6)).toEqual({ href: 'https://ref.ly/Jn3.16;esv', text: 'John 3:16' });
+            expect(linkAt(line, 20)).toEqual({ href: 'https://ref.ly/Jn3.16;esv', text: 'John 3:16' });
+            expect(linkAt(line, 50)).toEqual({ href: 'https://ref.ly/Ro8.28;esv', text: 'https://ref.ly/Ro8.28;esv' });
+            expect(linkAt(line, 1)).toBeNull();
+            expect(linkAt(line, 44)).toBeNull();
+        });
+    });
+});
@@ -0,0 +1,187 @@
+import {
+    parseContributorString,
+    parseBibtexNames,
+    extractRoleContributors,
+    formatContributorName,
+    formatInvertedName,
+    parseRisName,
+    citeKeyName,
+    replaceAuthorContributors
+} from '../utils/name-parser';
+
+describe('Name Parser', () => {
+    describe('parseBibtexNames', () => {
+        it('should parse "First Last" names joined by and', () => {
+            const result = parseBibtexNames('Maria L. García and Wei Chen');
+
+            expect(result).toHaveLength(2);
+            expect(result[0]).toEqual({ family: 'García', given: 'Maria L.', suffix: null, particle: null, role: 'author' });
+            expect(result[1].family).toBe('Chen');
+            expect(result[1].given).toBe('Wei');
+        });
+
+        it('should parse "von Last, Jr, First" names', () => {
+            const result = parseBibtexNames('von Rad, Gerhard and King, Jr, Martin Luther');
+
+            expect(result[0]).toEqual({ family: 'Rad', given: 'Gerhard', suffix: null, particle: 'von', role: 'author' });
+            expect(result[1]).toEqual({ family: 'King', given: 'Martin Luther', suffix: 'Jr', particle: null, role: 'author' });
+        });
+
+        it('should detect particles in natural order names', () => {
+            const result = parseBibtexNames('Ludwig van Beethoven');
+            expect(result[0].particle).toBe('van');
+            expect(result[0].family).toBe('Beethoven');
+            expect(result[0].given).toBe('Ludwig');
+        });
+
+        it('should keep braced corporate names whole and decode accents', () => {
+            const result = parseBibtexNames('{Logos Research Systems} and G{\\"o}del, Kurt');
+
+            expect(result[0].family).toBe('Logos Research Systems');
+            expect(result[0].given).toBeNull();
+            expect(result[1].family).toBe('Gödel');
+        });
+
+        it('should not split names containing "and" inside words', () => {
+            const result = parseBibtexNames('Alexander, T. Desmond and Sandy, Brent');
+            expect(result.map(c => c.family)).toEqual(['Alexander', 'Sandy']);
+        });
+
+        it('should drop "others" and apply the given role', () => {
+            const result = parseBibtexNames('Carson, D. A. and others', 'editor');
+            expect(result).toHaveLength(1);
+            expect(result[0].role).toBe('editor');
+        });
+    });
+
+    describe('parseContributorString', () => {
+        it('should parse an MLA list with an inverted first author', () => {
+            const result = parseContributorString('Elwell, Walter A., and Barry J. Beitzel');
+
+            expect(result.map(formatContributorName)).toEqual(['Walter A. Elwell', 'Barry J. Beitzel']);
+        });
+
+        it('should parse an APA list where every name is inverted', () => {
+            const result = parseContributorString('Smith, J. A., Jones, B., & Lee, C.');
+
+            expect(result.map(c => c.family)).toEqual(['Smith', 'Jones', 'Lee']);
+            expect(result[0].given).toBe('J. A.');
+            expect(result[2].given).toBe('C.');
+        });
+
+        it('should parse a Chicago notes list in natural order', () => {
+            const result = parseContributorString('Walter A. Elwell and Barry J. Beitzel');
+            expect(result.map(c => c.family)).toEqual(['Elwell', 'Beitzel']);
+        });
+
+        it('should not treat "Alexander" as a conjunction', () => {
+            const result = parseContributorString('Alexander, T. Desmond');
+
+            expect(result).toHaveLength(1);
+            expect(result[0].family).toBe('Alexander');
+        });
+
+        it('should read editor and translator markers', () => {
+            expect(parseContributorString('Carson, D. A., and Douglas J. Moo, eds.')[1].role).toBe('editor');
+            expect(parseContributorString('Smith, J. (Ed.).')[0]).toMatchObject({ family: 'Smith', role: 'editor' });
+            expect(parseContributorString('Battles, Ford Lewis, trans.')[0].role).toBe('translator');
+            expect(parseContributorString('Schaff, Philip, comp.')[0].role).toBe('compiler');
+        });
+
+        it('should read a role marker that opens a list after a semicolon', () => {
+            const result = parseContributorString('Herman Bavinck; trans. John Vriend');
+
+            expect(result).toHaveLength(2);
+            expect(result[0]).toMatchObject({ family: 'Bavinck', given: 'Herman', role: 'author' });
+            expect(result[1]).toMatchObject({ family: 'Vriend', given: 'John', role: 'translator' });
+        });
+
+        it('should credit every role of a combined marker', () => {
+            const result = parseContributorString('Translated and edited by Jane Roe.');
+
+            expect(result).toHaveLength(2);
+            expect(result[0]).toMatchObject({ family: 'Roe', given: 'Jane', role: 'translator' });
+            expect(result[1]).toMatchObject({ family: 'Roe', given: 'Jane', role: 'editor' });
+        });
+
+        it('should drop et al.', () => {
+            const result = parseContributorString('Wright, N. T., et al.');
+
+            expect(result).toHaveLength(1);
+            expect(result[0].family).toBe('Wright');
+        });
+
+        it('should parse particles and suffixes', () => {
+            expect(parseContributorString('Rad, Gerhard von')[0]).toMatchObject({ family: 'Rad', particle: 'von' });
+            expect(parseContributorString('de Vaux, Roland')[0]).toMatchObject({ family: 'Vaux', particle: 'de' });
+            expect(parseContributorString('Martin Luther King Jr.')[0]).toMatchObject({ family: 'King', suffix: 'Jr' });
+        });
+
+        it('should parse a single-name author', () => {
+            expect(parseContributorString('Augustine')[0]).toEqual({ family: 'Augustine', given: null, suffix: null, particle: null, role: 'author' });
+        });
+    });
+
+    describe('extractRoleContributors', () => {
+        it('should find translators and editors introduced in the citation', () => {
+            const citation = 'Calvin, John. _Institutes of the Christian Religion_. Edited by John T. McNeill. Translated by Ford Lewis Battles. Philadelphia: Westminster, 1960.';
+            const result = extractRoleContributors(citation);
+
+            expect(result).toHaveLength(2);
+            expect(result[0]).toMatchObject({ family: 'McNeill', given: 'John T.', role: 'editor' });
+            expect(result[1]).toMatchObject({ family: 'Battles', given: 'Ford Lewis', role: 'translator' });
+        });
+
+        it('should read combined translator and editor markers', () => {
+            const citation = 'Bavinck, Herman. _Reformed Dogmatics_. Translated and edited by John Vriend. Grand Rapids: Baker, 2003.';
+
+            expect(extractRoleContributors(citation).map(c => [c.family, c.role])).toEqual([['Vriend', 'translator'], ['Vriend', 'editor']]);
+        });
+
+        it('should not mistake an edition for an editor', () => {
+            const citation = 'García, Maria L. _Urban Echoes_. 2nd ed. Chicago: Riverbank Publishing, 2022.';
+            expect(extractRoleContributors(citation)).toHaveLength(0);
+        });
+    });
+
+    describe('parseRisName', () => {
+        it('should parse family, given and suffix', () => {
+            expect(parseRisName('King, Martin Luther, Jr.')).toEqual({ family: 'King', given: 'Martin Luther', suffix: 'Jr.', particle: null, role: 'author' });
+        });
+
+        it('should keep a name without a comma whole', () => {
+            expect(parseRisName('World Council of Churches', 'editor')).toEqual({ family: 'World Council of Churches', given: null, suffix: null, particle: null, role: 'editor' });
+        });
+    });
+
+    describe('formatInvertedName', () => {
+        it('should put the particle with the family name', () => {
+            expect(formatInvertedName(parseRisName('Rad, Gerhard von')!)).toBe('von Rad, Gerhard');
+        });
+    });
+
+    describe('citeKeyName', () => {
+        it('should use the first author family name', () => {
+            const contributors = parseContributorString('van der Watt, Jan G.');
+            expect(citeKeyName(contributors)).toBe('watt');
+        });
+
+        it('should return null for an empty list', () => {
+            expect(citeKeyName([])).toBeNull();
+        });
+    });
+
+    describe('replaceAuthorContributors', () => {
+        it('should replace the authors of the old author string and keep other credits', () => {
+            const contributors = [
+                ...parseContributorString('Wrigth, N.'),
+                ...extractRoleContributors('Edited by John D. Barry.'),
+            ];
+
+            const replaced = replaceAuthorContributors(contributors, 'Wrigth, N.', 'Wright, N. T.');
+
+            expect(replaced.map(formatContributorName)).toEqual(['N. T. Wright', 'John D. Barry']);
+            expect(replaced.map(contributor => contributor.role)).toEqual(['author', 'editor']);
+        });
+    });
+});
@@ -0,0 +1,37 @@
+import { findShortNoteMatch, normalizeTitle, ReferenceCandidate } from '../utils/reference-matcher';
+import { parseChicago } from '../utils/clipboard-parser';
+
+describe('Reference Matcher', () => {
+    const candidates: ReferenceCandidate[] = [
+        { path: 'Refs/The Resurrection of the Son of God - References.md', title: 'The Resurrection of the Son of God', authors: ['N. T. Wright', 'Wright, N. T.'] },
+        { path: 'Refs/Paul and the Faithfulness of God - References.md', title: 'Paul and the Faithfulness of God', authors: ['N. T. Wright'] },
+        { path: 'Refs/Resurrection - References.md', title: 'Resurrection', authors: ['Jane Doe'] },
+        { path: 'Refs/Baker Encyclopedia of the Bible - References.md', title: 'Baker Encyclopedia of the Bible', authors: ['Walter A. Elwell', 'Barry J. Beitzel'] },
+    ];
+
+    describe('normalizeTitle', () => {
+        it('should strip links, emphasis, punctuation and leading articles', () => {
+            expect(normalizeTitle('[_The Resurrection: A Study_](https://ref.ly/x)')).toBe('resurrection a study');
+        });
+    });
+
+    describe('findShortNoteMatch', () => {
+        it('should match by author family name and short title', () => {
+            const match = findShortNoteMatch(parseChicago('Wright, *Resurrection*, 45.'), candidates);
+            expect(match?.path).toBe('Refs/The Resurrection of the Son of God - References.md');
+        });
+
+        it('should require every named author', () => {
+            const match = findShortNoteMatch(parseChicago('Elwell and Beitzel, *Baker Encyclopedia*, 2152.'), candidates);
+            expect(match?.title).toBe('Baker Encyclopedia of the Bible');
+        });
+
+        it('should return null when the author does not match', () => {
+            expect(findShortNoteMatch(parseChicago('Smith, *Resurrection*, 45.'), candidates)).toBeNull();
+        });
+
+        it('should not match partial words', () => {
+            expect(findShortNoteMatch(parseChicago('Wright, *Faith*, 12.'), candidates)).toBeNull();
+        });
+    });
+});
@@ -0,0 +1,40 @@
+import { containsRis, parseRisRecords } from '../utils/ris-parser';
+
+describe('RIS Parser', () => {
+    describe('containsRis', () => {
+        it('should find a TY line anywhere in the text', () => {
+            expect(containsRis('Quoted text\n\nTY  - BOOK\nER  - ')).toBe(true);
+            expect(containsRis('Smith, John. Title. Publisher, 2020.')).toBe(false);
+        });
+    });
+
+    describe('parseRisRecords', () => {
+        it('should collect repeated tags in order', () => {
+            const [record] = parseRisRecords('TY  - BOOK\nAU  - Wright, N. T.\nAU  - Bird, Michael F.\nTI  - Title\nER  - ');
+
+            expect(record.type).toBe('BOOK');
+            expect(record.tags.AU).toEqual(['Wright, N. T.', 'Bird, Michael F.']);
+            expect(record.tags.TI).toEqual(['Title']);
+        });
+
+        it('should join wrapped lines onto the previous value', () => {
+            const [record] = parseRisRecords('TY  - JOUR\nAB  - A long abstract\nthat wraps\nER  - ');
+
+            expect(record.tags.AB).toEqual(['A long abstract that wraps']);
+        });
+
+        it('should parse several records and record their spans', () => {
+            const text = 'TY  - BOOK\nTI  - One\nER  - \nTY  - CHAP\nTI  - Two\nER  - ';
+            const records = parseRisRecords(text);
+
+            expect(records.map(r => r.tags.TI[0])).toEqual(['One', 'Two']);
+            expect(text.substring(records[1].start, records[1].end)).toBe('TY  - CHAP\nTI  - Two\nER  - ');
+        });
+
+        it('should accept CRLF line endings and a single space before the hyphen', () => {
+            const [record] = parseRisRecords('TY - BOOK\r\nTI - Title\r\nER - \r\n');
+
+            expect(record.tags.TI).toEqual(['Title']);
+        });
+    });
+});
@@ -0,0 +1,137 @@
+import {
+    findOverlappingReferences,
+    findScriptureReferences,
+    parseBibleLink,
+    parseLogosReference,
+    passagesOverlap,
+    renderScriptureIndex,
+} from '../utils/scripture-index';
+import { passage } from './bible-passage';
+
+describe('Scripture index', () => {
+    describe('parseLogosReference', () => {
+        it('should read verses, verse ranges, cross-chapter ranges and chapter ranges', () => {
+            expect(parseLogosReference('Jn3.16')).toEqual(passage('Jn', 3, 16));
+            expect(parseLogosReference('Jn3.16-18')).toEqual(passage('Jn', 3, 16, null, 18));
+            expect(parseLogosReference('Ge1.1-2.3')).toEqual(passage('Ge', 1, 1, 2, 3));
+            expect(parseLogosReference('Ps1-2')).toEqual(passage('Ps', 1, null, 2));
+            expect(parseLogosReference('1Co13')).toEqual(passage('1Co', 13));
+        });
+
+        it('should reject unknown books', () => {
+            expect(parseLogosReference('Xyz3.16')).toBeNull();
+        });
+    });
+
+    describe('parseBibleLink', () => {
+        it('should read the passage of ref.ly and Logos app links', () => {
+            expect(parseBibleLink('https://ref.ly/Jn3.16-18;esv', 'John 3:16–18')).toEqual(passage('Jn', 3, 16, null, 18));
+            expect(parseBibleLink('logosref:Bible.Ge1.1-2.3', 'Genesis 1:1–2:3')).toEqual(passage('Ge', 1, 1, 2, 3));
+        });
+
+        it('should read the link text of links to other Bible sites', () => {
+            expect(parseBibleLink('https://www.biblegateway.com/passage/?search=Romans%208&version=ESV', 'Romans 8')).toEqual(passage('Ro', 8));
+        });
+
+        it('should ignore links that are not to a single Bible passage', () => {
+            expect(parseBibleLink('https://example.com', 'Example')).toBeNull();
+            expect(parseBibleLink('https://example.com', 'See John 3:16')).toBeNull();
+            expect(parseBibleLink('https://example.com', 'John 3:16; 4:2')).toBeNull();
+        });
+    });
+
+    describe('findScriptureReferences', () => {
+        it('should find references in prose and in ref.ly and Logos app links', () => {
+            const content = [
+                '---',
+                'source: https://ref.ly/Ps1;esv',
+                '---',
+                'As John 3:16 says.',
+                '',
+                'See [this](https://ref.ly/Ro8.28-30;esv) and [that](logosref:Bible.Ge1.1).',
+            ].join('\n');
+
+            const references = findScriptureReferences(content, 'Notes/Sermon.md');
+
+            expect(references.map(reference => [reference.passage, reference.line])).toEqual([
+                [passage('Jn', 3, 16), 3],
+                [passage('Ro', 8, 28, null, 30), 5],
+                [passage('Ge', 1, 1), 5],
+            ]);
+        });
+
+        it('should count lines across blank lines and references at the start of a line', () => {
+            const lines = findScriptureReferences('John 3:16\n\n\nRomans 8:28\nand Psalm 23\n', 'Note.md').map(reference => reference.line);
+
+            expect(lines).toEqual([0, 3, 4]);
+        });
+
+        it('should point at the block ID of the paragraph, callout or list item', () => {
+            const content = [
+                '## Grace',
+                'Ephesians 2:8 is clear',
+                'about this. ^grace',
+                '',
+                '> [!cite] Commentary',
+                '> Romans 8:28',
+                '> [[Commentary|Commentary, p. 5]] ^comm-1',
+                '',
+                '- Psalm 23 ^psalm',
+                '- Psalm 1',
+            ].join('\n');
+
+            const subpaths = findScriptureReferences(content, 'Note.md').map(reference => reference.subpath);
+
+            expect(subpaths).toEqual(['#^grace', '#^comm-1', '#^psalm', '#Grace']);
+        });
+    });
+
+    describe('passagesOverlap', () => {
+        it('should match ranges that share a verse', () => {
+            expect(passagesOverlap(passage('Ro', 8), passage('Ro', 8, 28, null, 30))).toBe(true);
+            expect(passagesOverlap(passage('Ro', 7, null, 8), passage('Ro', 8, 1))).toBe(true);
+            expect(passagesOverlap(passage('Ro', 8, 28, 9, 5), passage('Ro', 9, 1))).toBe(true);
+            expect(passagesOverlap(passage('Ro', 8, 1, null, 11), passage('Ro', 8, 28))).toBe(false);
+            expect(passagesOverlap(passage('Ro', 8), passage('Jn', 8))).toBe(false);
+        });
+    });
+
+    describe('findOverlappingReferences', () => {
+        it('should return overlapping references in canonical order', () => {
+            const references = [
+                ...findScriptureReferences('Romans 8:28 and Romans 7-8', 'B.md'),
+                ...findScriptureReferences('Romans 9:1 and Romans 8:1', 'A.md'),
+            ];
+
+            const found = findOverlappingReferences(references, passage('Ro', 8));
+
+            expect(found.map(reference => [reference.path, reference.passage])).toEqual([
+                ['B.md', passage('Ro', 7, null, 8)],
+                ['A.md', passage('Ro', 8, 1)],
+                ['B.md', passage('Ro', 8, 28)],
+            ]);
+        });
+    });
+
+    describe('renderScriptureIndex', () => {
+        it('should group passages by book in canonical order and link each note once', () => {
+            const references = [
+                ...findScriptureReferences('Matthew 5:3 and Genesis 1:1\n\nGenesis 1:1 again', 'Notes/Sermon.md'),
+                ...findScriptureReferences('Genesis 1:1 ^creation', 'Study.md'),
+                ...findScriptureReferences('Tobit 1:1', 'Apocrypha.md', { includeDeuterocanon: true }),
+            ];
+
+            expect(renderScriptureIndex(references)).toBe([
+                '## Genesis',
+                '- Genesis 1:1: [[Notes/Sermon|Sermon]], [[Study#^creation|Study]]',
+                '',
+                '## Tobit',
+                '- Tobit 1:1: [[Apocrypha|Apocrypha]]',
+                '',
+                '## Matthew',
+                '- Matthew 5:3: [[Notes/Sermon|Sermon]]',
+                '',
+            ].join('\n'));
+        });
+    });
+});
@@ -0,0 +1,81 @@
+import { getChapterVerses, isValidReference } from '../utils/versification';
+import { CHAPTER_VERSES } from '../constants/versification';
+import { BIBLE_BOOKS } from '../constants/bible-books';
+
+describe('Versification', () => {
+    describe('CHAPTER_VERSES', () => {
+        it('should cover every book code', () => {
+            for (const code of new Set(Object.values(BIBLE_BOOKS))) {
+                expect(CHAPTER_VERSES[code]).toBeDefined();
+            }
+        });
+
+        it('should have the expected chapter counts', () => {
+            expect(CHAPTER_VERSES.Ge).toHaveLength(50);
+            expect(CHAPTER_VERSES.Ps).toHaveLength(150);
+            expect(CHAPTER_VERSES.Is).toHaveLength(66);
+            expect(CHAPTER_VERSES.Re).toHaveLength(22);
+        });
+
+        it('should have the expected verse counts', () => {
+            expect(CHAPTER_VERSES.Jn[2]).toBe(36);
+            expect(CHAPTER_VERSES.Ps[118]).toBe(176);
+        });
+    });
+
+    describe('getChapterVerses', () => {
+        it('should use English chapter divisions by default', () => {
+            expect(getChapterVerses('Mal')).toHaveLength(4);
+            expect(getChapterVerses('Joe')).toHaveLength(3);
+        });
+
+        it('should use Hebrew chapter divisions for Joel and Malachi', () => {
+            expect(getChapterVerses('Mal', 'hebrew')).toEqual([14, 17, 24]);
+            expect(getChapterVerses('Joe', 'hebrew')).toEqual([20, 27, 5, 21]);
+        });
+
+        it('should count psalm superscriptions as verses in Hebrew numbering', () => {
+            const hebrew = getChapterVerses('Ps', 'hebrew');
+
+            expect(hebrew?.[0]).toBe(6);
+            expect(hebrew?.[2]).toBe(9);
+            expect(hebrew?.[50]).toBe(21);
+        });
+
+        it('should return undefined for books without a table', () => {
+            expect(getChapterVerses('Sir')).toBeUndefined();
+        });
+    });
+
+    describe('isValidReference', () => {
+        it('should accept existing references', () => {
+            expect(isValidReference('Jn', '3', '16')).toBe(true);
+            expect(isValidReference('Jn', '3', '16', '4', '2')).toBe(true);
+            expect(isValidReference('Ps', '1', undefined, '2')).toBe(true);
+        });
+
+        it('should reject chapters and verses that do not exist', () => {
+            expect(isValidReference('Jn', '33', '99')).toBe(false);
+            expect(isValidReference('Jn', '3', '37')).toBe(false);
+            expect(isValidReference('Jud', '2', '1')).toBe(false);
+            expect(isValidReference('Ro', '17')).toBe(false);
+        });
+
+        it('should reject ranges that end past the chapter or run backwards', () => {
+            expect(isValidReference('Jn', '3', '16', undefined, '40')).toBe(false);
+            expect(isValidReference('Jn', '3', '16', undefined, '10')).toBe(false);
+            expect(isValidReference('Ps', '2', undefined, '1')).toBe(false);
+        });
+
+        it('should follow the selected versification', () => {
+            expect(isValidReference('Mal', '4', '1')).toBe(true);
+            expect(isValidReference('Mal', '4', '1', undefined, undefined, 'hebrew')).toBe(false);
+            expect(isValidReference('Ps', '3', '9')).toBe(false);
+            expect(isValidReference('Ps', '3', '9', undefined, undefined, 'hebrew')).toBe(true);
+        });
+
+        it('should accept books without a table', () => {
+            expect(isValidReference('Sir', '51', '30')).toBe(true);
+        });
+    });
+});
@@ -0,0 +1,231 @@
+/**
+ * Bible book names and abbreviations in other languages, as used by Logos
+ * resources in those languages. Keys follow BIBLE_BOOKS: lowercased with spaces
+ * and periods removed ("1. Kor" → "1kor"), but accents are kept because they
+ * tell some books apart (Portuguese "Jó" is Job, "Jo" is John).
+ */
+
+import { BookNameLanguage } from '../types';
+
+/**
+ * The book names of one language
+ */
+export interface BookNamePack {
+    name: string;
+    /** A reference shown in settings */
+    example: string;
+    /** Book names and abbreviations mapped to Logos ref codes */
+    books: Record<string, string>;
+}
+
+/**
+ * Language packs. English names in BIBLE_BOOKS take precedence, so an
+ * abbreviation that means another book in English ("Jn", "Hb") keeps its English
+ * meaning, and short words that are common in running text are left out.
+ */
+export const BOOK_NAME_PACKS: Record<BookNameLanguage, BookNamePack> = {
+    es: {
+        name: 'Spanish',
+        example: 'Juan 3:16',
+        books: {
+            'génesis': 'Ge', 'gén': 'Ge', 'gn': 'Ge',
+            'éxodo': 'Ex', 'exodo': 'Ex', 'éx': 'Ex',
+            'levítico': 'Lv', 'levitico': 'Lv',
+            'números': 'Nu', 'numeros': 'Nu', 'nm': 'Nu',
+            'deuteronomio': 'Dt',
+            'josué': 'Jos', 'josue': 'Jos',
+            'jueces': 'Jdg', 'jue': 'Jdg', 'jc': 'Jdg',
+            'rut': 'Ru', 'rt': 'Ru',
+            '1samuel': '1Sa', '1s': '1Sa',
+            '2samuel': '2Sa', '2s': '2Sa',
+            '1reyes': '1Ki', '1r': '1Ki', '1re': '1Ki',
+            '2reyes': '2Ki', '2r': '2Ki', '2re': '2Ki',
+            '1crónicas': '1Ch', '1cronicas': '1Ch', '1cr': '1Ch', '1cro': '1Ch',
+            '2crónicas': '2Ch', '2cronicas': '2Ch', '2cr': '2Ch', '2cro': '2Ch',
+            'esdras': 'Ezr', 'esd': 'Ezr',
+            'nehemías': 'Ne', 'nehemias': 'Ne',
+            'ester': 'Es',
+            'salmos': 'Ps', 'salmo': 'Ps', 'sal': 'Ps', 'sl': 'Ps',
+            'proverbios': 'Pr', 'prov': 'Pr',
+            'eclesiastés': 'Ec', 'eclesiastes': 'Ec', 'ecl': 'Ec',
+            'cantares': 'So', 'cantardeloscantares': 'So', 'cnt': 'So',
+            'isaías': 'Is', 'isaias': 'Is',
+            'jeremías': 'Je', 'jeremias': 'Je',
+            'lamentaciones': 'La', 'lm': 'La',
+            'ezequiel': 'Eze',
+            'daniel': 'Da',
+            'oseas': 'Ho', 'os': 'Ho',
+            'amós': 'Am',
+            'abdías': 'Ob', 'abdias': 'Ob', 'abd': 'Ob',
+            'jonás': 'Jon', 'jonas': 'Jon',
+            'miqueas': 'Mic', 'miq': 'Mic',
+            'nahúm': 'Na',
+            'habacuc': 'Hab',
+            'sofonías': 'Zep', 'sofonias': 'Zep', 'sof': 'Zep',
+            'hageo': 'Hag',
+            'zacarías': 'Zec', 'zacarias': 'Zec', 'zac': 'Zec',
+            'malaquías': 'Mal', 'malaquias': 'Mal',
+            'mateo': 'Mt',
+            'marcos': 'Mk', 'mc': 'Mk',
+            'lucas': 'Lk', 'lc': 'Lk',
+            'juan': 'Jn',
+            'hechos': 'Ac', 'hch': 'Ac', 'hechosdelosapóstoles': 'Ac',
+            'romanos': 'Ro',
+            '1corintios': '1Co',
+            '2corintios': '2Co',
+            'gálatas': 'Ga', 'galatas': 'Ga', 'gá': 'Ga',
+            'efesios': 'Eph', 'ef': 'Eph',
+            'filipenses': 'Php', 'flp': 'Php', 'fil': 'Php',
+            'colosenses': 'Col',
+            '1tesalonicenses': '1Th', '1ts': '1Th', '1tes': '1Th',
+            '2tesalonicenses': '2Th', '2ts': '2Th', '2tes': '2Th',
+            '1timoteo': '1Ti',
+            '2timoteo': '2Ti',
+            'tito': 'Tt',
+            'filemón': 'Phm', 'filemon': 'Phm', 'flm': 'Phm',
+            'hebreos': 'Heb',
+            'santiago': 'Jas', 'stg': 'Jas', 'sant': 'Jas',
+            '1pedro': '1Pe', '1p': '1Pe',
+            '2pedro': '2Pe', '2p': '2Pe',
+            '1juan': '1Jn',
+            '2juan': '2Jn',
+            '3juan': '3Jn',
+            'judas': 'Jud',
+            'apocalipsis': 'Re', 'ap': 'Re',
+        },
+    },
+    de: {
+        name: 'German',
+        example: '1. Kor 13',
+        books: {
+            '1mose': 'Ge', '1mo': 'Ge', '1mos': 'Ge',
+            '2mose': 'Ex', '2mo': 'Ex', '2mos': 'Ex',
+            '3mose': 'Lv', '3mo': 'Lv', '3mos': 'Lv', 'levitikus': 'Lv',
+            '4mose': 'Nu', '4mo': 'Nu', '4mos': 'Nu', 'numeri': 'Nu',
+            '5mose': 'Dt', '5mo': 'Dt', '5mos': 'Dt', 'deuteronomium': 'Dt', 'dtn': 'Dt',
+            'josua': 'Jos',
+            'richter': 'Jdg', 'ri': 'Jdg',
+            'rut': 'Ru',
+            '1samuel': '1Sa',
+            '2samuel': '2Sa',
+            '1könige': '1Ki', '1kön': '1Ki', '1kö': '1Ki',
+            '2könige': '2Ki', '2kön': '2Ki', '2kö': '2Ki',
+            '1chronik': '1Ch',
+            '2chronik': '2Ch',
+            'esra': 'Ezr', 'esr': 'Ezr',
+            'nehemia': 'Ne',
+            'ester': 'Es',
+            'hiob': 'Job', 'ijob': 'Job',
+            'psalmen': 'Ps',
+            'sprüche': 'Pr', 'sprichwörter': 'Pr', 'spr': 'Pr',
+            'prediger': 'Ec', 'kohelet': 'Ec', 'pred': 'Ec', 'koh': 'Ec',
+            'hoheslied': 'So', 'hld': 'So',
+            'jesaja': 'Is', 'jes': 'Is',
+            'jeremia': 'Je',
+            'klagelieder': 'La', 'klgl': 'La',
+            'hesekiel': 'Eze', 'ezechiel': 'Eze', 'hes': 'Eze',
+            'obadja': 'Ob', 'obd': 'Ob',
+            'jona': 'Jon',
+            'micha': 'Mic',
+            'zefanja': 'Zep', 'zef': 'Zep',
+            'sacharja': 'Zec', 'sach': 'Zec',
+            'maleachi': 'Mal',
+            'matthäus': 'Mt', 'matthaeus': 'Mt',
+            'markus': 'Mk',
+            'lukas': 'Lk',
+            'johannes': 'Jn', 'joh': 'Jn',
+            'apostelgeschichte': 'Ac', 'apg': 'Ac',
+            'römer': 'Ro', 'roemer': 'Ro', 'röm': 'Ro',
+            '1korinther': '1Co', '1kor': '1Co',
+            '2korinther': '2Co', '2kor': '2Co',
+            'galater': 'Ga',
+            'epheser': 'Eph',
+            'philipper': 'Php',
+            'kolosser': 'Col', 'kol': 'Col',
+            '1thessalonicher': '1Th',
+            '2thessalonicher': '2Th',
+            '1timotheus': '1Ti',
+            '2timotheus': '2Ti',
+            'hebräer': 'Heb', 'hebraeer': 'Heb', 'hebr': 'Heb',
+            'jakobus': 'Jas', 'jak': 'Jas',
+            '1petrus': '1Pe', '1petr': '1Pe',
+            '2petrus': '2Pe', '2petr': '2Pe',
+            '1johannes': '1Jn', '1joh': '1Jn',
+            '2johannes': '2Jn', '2joh': '2Jn',
+            '3johannes': '3Jn', '3joh': '3Jn',
+            'judas': 'Jud',
+            'offenbarung': 'Re', 'offb': 'Re',
+        },
+    },
+    pt: {
+        name: 'Portuguese',
+        example: 'Jó 1:1',
+        books: {
+            'gênesis': 'Ge', 'gn': 'Ge',
+            'êxodo': 'Ex', 'êx': 'Ex',
+            'levítico': 'Lv', 'levitico': 'Lv',
+            'números': 'Nu', 'numeros': 'Nu', 'nm': 'Nu',
+            'deuteronômio': 'Dt', 'deuteronomio': 'Dt',
+            'josué': 'Jos', 'josue': 'Jos', 'js': 'Jos',
+            'juízes': 'Jdg', 'juizes': 'Jdg', 'jz': 'Jdg',
+            'rute': 'Ru', 'rt': 'Ru',
+            '1samuel': '1Sa', '1sm': '1Sa',
+            '2samuel': '2Sa', '2sm': '2Sa',
+            '1reis': '1Ki', '1rs': '1Ki',
+            '2reis': '2Ki', '2rs': '2Ki',
+            '1crônicas': '1Ch', '1cronicas': '1Ch', '1cr': '1Ch',
+            '2crônicas': '2Ch', '2cronicas': '2Ch', '2cr': '2Ch',
+            'esdras': 'Ezr',
+            'neemias': 'Ne',
+            'ester': 'Es',
+            'jó': 'Job',
+            'salmos': 'Ps', 'salmo': 'Ps', 'sl': 'Ps',
+            'provérbios': 'Pr', 'proverbios': 'Pr', 'pv': 'Pr',
+            'eclesiastes': 'Ec',
+            'cânticos': 'So', 'canticos': 'So', 'cantares': 'So', 'ct': 'So',
+            'isaías': 'Is', 'isaias': 'Is',
+            'jeremias': 'Je', 'jr': 'Je',
+            'lamentações': 'La', 'lamentacoes': 'La', 'lm': 'La',
+            'ezequiel': 'Eze',
+            'daniel': 'Da',
+            'oséias': 'Ho', 'oseias': 'Ho', 'os': 'Ho',
+            'amós': 'Am',
+            'obadias': 'Ob',
+            'jonas': 'Jon',
+            'miquéias': 'Mic', 'miqueias': 'Mic', 'mq': 'Mic',
+            'naum': 'Na',
+            'habacuque': 'Hab', 'hc': 'Hab',
+            'sofonias': 'Zep', 'sf': 'Zep',
+            'ageu': 'Hag', 'ag': 'Hag',
+            'zacarias': 'Zec', 'zc': 'Zec',
+            'malaquias': 'Mal', 'ml': 'Mal',
+            'mateus': 'Mt',
+            'marcos': 'Mk', 'mc': 'Mk',
+            'lucas': 'Lk', 'lc': 'Lk',
+            'joão': 'Jn', 'joao': 'Jn', 'jo': 'Jn',
+            'atos': 'Ac',
+            'romanos': 'Ro',
+            '1coríntios': '1Co', '1corintios': '1Co',
+            '2coríntios': '2Co', '2corintios': '2Co',
+            'gálatas': 'Ga', 'galatas': 'Ga', 'gl': 'Ga',
+            'efésios': 'Eph', 'efesios': 'Eph', 'ef': 'Eph',
+            'filipenses': 'Php', 'fp': 'Php',
+            'colossenses': 'Col', 'cl': 'Col',
+            '1tessalonicenses': '1Th', '1ts': '1Th',
+            '2tessalonicenses': '2Th', '2ts': '2Th',
+            '1timóteo': '1Ti', '1timoteo': '1Ti', '1tm': '1Ti',
+            '2timóteo': '2Ti', '2timoteo': '2Ti', '2tm': '2Ti',
+            'tito': 'Tt',
+            'filemom': 'Phm', 'fm': 'Phm',
+            'hebreus': 'Heb',
+            'tiago': 'Jas', 'tg': 'Jas',
+            '1pedro': '1Pe',
+            '2pedro': '2Pe',
+            '1joão': '1Jn', '1joao': '1Jn', '1jo': '1Jn',
+            '2joão': '2Jn', '2joao': '2Jn', '2jo': '2Jn',
+            '3joão': '3Jn', '3joao': '3Jn', '3jo': '3Jn',
+            'judas': 'Jud', 'jd': 'Jud',
+            'apocalipse': 'Re', 'ap': 'Re',
+        },
+    },
+};
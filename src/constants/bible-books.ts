@@ -46,7 +46,7 @@ export const BIBLE_BOOKS: Record<string, string> = {
     'matthew': 'Mt', 'matt': 'Mt', 'mt': 'Mt',
     'mark': 'Mk', 'mk': 'Mk', 'mr': 'Mk',
     'luke': 'Lk', 'lk': 'Lk', 'lu': 'Lk',
-    'john': 'Jn', 'jn': 'Jn', 'jhn': 'Jn',
+    'john': 'Jn', 'jn': 'Jn', 'jhn': 'Jn', 'joh': 'Jn',
     'acts': 'Ac', 'ac': 'Ac',
     'romans': 'Ro', 'rom': 'Ro', 'ro': 'Ro', 'rm': 'Ro',
     '1corinthians': '1Co', '1cor': '1Co', '1co': '1Co', 'icorinthians': '1Co', 'icor': '1Co',
@@ -73,12 +73,132 @@ export const BIBLE_BOOKS: Record<string, string> = {
 };
 
 /**
- * Maps translation display names to Logos ref.ly codes
+ * Deuterocanonical and apocryphal books - only recognized when enabled in settings,
+ * since abbreviations like "Sir", "Bar" or "Wis" are ordinary words elsewhere
  */
-export const VERSION_MAPPING: Record<string, string> = {
-    'esv': 'esv',
-    'nasb': 'nasb95',
-    'niv': 'niv2011',
-    'lsb': 'lgcystndrdbblsb',
-    'nlt': 'nlt'
+export const DEUTEROCANONICAL_BOOKS: Record<string, string> = {
+    'tobit': 'Tob', 'tob': 'Tob', 'tb': 'Tob',
+    'judith': 'Jdt', 'jdt': 'Jdt', 'jdth': 'Jdt',
+    'additionstoesther': 'AddEst', 'addesth': 'AddEst', 'addest': 'AddEst', 'greekesther': 'AddEst',
+    'wisdomofsolomon': 'Wis', 'wisdom': 'Wis', 'wis': 'Wis', 'ws': 'Wis',
+    'sirach': 'Sir', 'sir': 'Sir', 'ecclesiasticus': 'Sir', 'ecclus': 'Sir',
+    'baruch': 'Bar', 'bar': 'Bar',
+    'letterofjeremiah': 'LetJer', 'epistleofjeremiah': 'LetJer', 'letjer': 'LetJer', 'epjer': 'LetJer',
+    'prayerofazariah': 'SgThr', 'songofthethree': 'SgThr', 'songofthree': 'SgThr', 'sgthr': 'SgThr', 'prazar': 'SgThr',
+    'susanna': 'Sus', 'sus': 'Sus',
+    'belandthedragon': 'Bel', 'bel': 'Bel',
+    '1maccabees': '1Mac', '1macc': '1Mac', '1mac': '1Mac', '1ma': '1Mac', 'imaccabees': '1Mac', 'imacc': '1Mac',
+    '2maccabees': '2Mac', '2macc': '2Mac', '2mac': '2Mac', '2ma': '2Mac', 'iimaccabees': '2Mac', 'iimacc': '2Mac',
+    '3maccabees': '3Mac', '3macc': '3Mac', '3mac': '3Mac', '3ma': '3Mac', 'iiimaccabees': '3Mac', 'iiimacc': '3Mac',
+    '4maccabees': '4Mac', '4macc': '4Mac', '4mac': '4Mac', '4ma': '4Mac', 'ivmaccabees': '4Mac', 'ivmacc': '4Mac',
+    '1esdras': '1Esd', '1esd': '1Esd', 'iesdras': '1Esd', 'iesd': '1Esd',
+    '2esdras': '2Esd', '2esd': '2Esd', 'iiesdras': '2Esd', 'iiesd': '2Esd',
+    'prayerofmanasseh': 'PrMan', 'prman': 'PrMan', 'manasseh': 'PrMan',
+};
+
+/**
+ * Display name and identifiers other sites use for a book
+ */
+export interface BookDetails {
+    name: string;
+    /** SBL Handbook of Style abbreviation */
+    sbl: string;
+    /** OSIS book ID (used by STEP and OSIS Bibles) */
+    osis: string;
+    /** USFM book ID (used by USFM Bibles) */
+    usfm: string;
+    /** Blue Letter Bible URL abbreviation; the deuterocanon is not on Blue Letter Bible */
+    blb?: string;
+}
+
+/**
+ * Book details keyed by Logos ref code, in canonical order (the deuterocanon between the testaments)
+ */
+export const BOOK_DETAILS: Record<string, BookDetails> = {
+    // Old Testament
+    'Ge': { name: 'Genesis', sbl: 'Gen', osis: 'Gen', usfm: 'GEN', blb: 'gen' },
+    'Ex': { name: 'Exodus', sbl: 'Exod', osis: 'Exod', usfm: 'EXO', blb: 'exo' },
+    'Lv': { name: 'Leviticus', sbl: 'Lev', osis: 'Lev', usfm: 'LEV', blb: 'lev' },
+    'Nu': { name: 'Numbers', sbl: 'Num', osis: 'Num', usfm: 'NUM', blb: 'num' },
+    'Dt': { name: 'Deuteronomy', sbl: 'Deut', osis: 'Deut', usfm: 'DEU', blb: 'deu' },
+    'Jos': { name: 'Joshua', sbl: 'Josh', osis: 'Josh', usfm: 'JOS', blb: 'jos' },
+    'Jdg': { name: 'Judges', sbl: 'Judg', osis: 'Judg', usfm: 'JDG', blb: 'jdg' },
+    'Ru': { name: 'Ruth', sbl: 'Ruth', osis: 'Ruth', usfm: 'RUT', blb: 'rth' },
+    '1Sa': { name: '1 Samuel', sbl: '1 Sam', osis: '1Sam', usfm: '1SA', blb: '1sa' },
+    '2Sa': { name: '2 Samuel', sbl: '2 Sam', osis: '2Sam', usfm: '2SA', blb: '2sa' },
+    '1Ki': { name: '1 Kings', sbl: '1 Kgs', osis: '1Kgs', usfm: '1KI', blb: '1ki' },
+    '2Ki': { name: '2 Kings', sbl: '2 Kgs', osis: '2Kgs', usfm: '2KI', blb: '2ki' },
+    '1Ch': { name: '1 Chronicles', sbl: '1 Chr', osis: '1Chr', usfm: '1CH', blb: '1ch' },
+    '2Ch': { name: '2 Chronicles', sbl: '2 Chr', osis: '2Chr', usfm: '2CH', blb: '2ch' },
+    'Ezr': { name: 'Ezra', sbl: 'Ezra', osis: 'Ezra', usfm: 'EZR', blb: 'ezr' },
+    'Ne': { name: 'Nehemiah', sbl: 'Neh', osis: 'Neh', usfm: 'NEH', blb: 'neh' },
+    'Es': { name: 'Esther', sbl: 'Esth', osis: 'Esth', usfm: 'EST', blb: 'est' },
+    'Job': { name: 'Job', sbl: 'Job', osis: 'Job', usfm: 'JOB', blb: 'job' },
+    'Ps': { name: 'Psalms', sbl: 'Ps', osis: 'Ps', usfm: 'PSA', blb: 'psa' },
+    'Pr': { name: 'Proverbs', sbl: 'Prov', osis: 'Prov', usfm: 'PRO', blb: 'pro' },
+    'Ec': { name: 'Ecclesiastes', sbl: 'Eccl', osis: 'Eccl', usfm: 'ECC', blb: 'ecc' },
+    'So': { name: 'Song of Solomon', sbl: 'Song', osis: 'Song', usfm: 'SNG', blb: 'sng' },
+    'Is': { name: 'Isaiah', sbl: 'Isa', osis: 'Isa', usfm: 'ISA', blb: 'isa' },
+    'Je': { name: 'Jeremiah', sbl: 'Jer', osis: 'Jer', usfm: 'JER', blb: 'jer' },
+    'La': { name: 'Lamentations', sbl: 'Lam', osis: 'Lam', usfm: 'LAM', blb: 'lam' },
+    'Eze': { name: 'Ezekiel', sbl: 'Ezek', osis: 'Ezek', usfm: 'EZK', blb: 'eze' },
+    'Da': { name: 'Daniel', sbl: 'Dan', osis: 'Dan', usfm: 'DAN', blb: 'dan' },
+    'Ho': { name: 'Hosea', sbl: 'Hos', osis: 'Hos', usfm: 'HOS', blb: 'hos' },
+    'Joe': { name: 'Joel', sbl: 'Joel', osis: 'Joel', usfm: 'JOL', blb: 'joe' },
+    'Am': { name: 'Amos', sbl: 'Amos', osis: 'Amos', usfm: 'AMO', blb: 'amo' },
+    'Ob': { name: 'Obadiah', sbl: 'Obad', osis: 'Obad', usfm: 'OBA', blb: 'oba' },
+    'Jon': { name: 'Jonah', sbl: 'Jonah', osis: 'Jonah', usfm: 'JON', blb: 'jon' },
+    'Mic': { name: 'Micah', sbl: 'Mic', osis: 'Mic', usfm: 'MIC', blb: 'mic' },
+    'Na': { name: 'Nahum', sbl: 'Nah', osis: 'Nah', usfm: 'NAM', blb: 'nah' },
+    'Hab': { name: 'Habakkuk', sbl: 'Hab', osis: 'Hab', usfm: 'HAB', blb: 'hab' },
+    'Zep': { name: 'Zephaniah', sbl: 'Zeph', osis: 'Zeph', usfm: 'ZEP', blb: 'zep' },
+    'Hag': { name: 'Haggai', sbl: 'Hag', osis: 'Hag', usfm: 'HAG', blb: 'hag' },
+    'Zec': { name: 'Zechariah', sbl: 'Zech', osis: 'Zech', usfm: 'ZEC', blb: 'zec' },
+    'Mal': { name: 'Malachi', sbl: 'Mal', osis: 'Mal', usfm: 'MAL', blb: 'mal' },
+    // Deuterocanon
+    'Tob': { name: 'Tobit', sbl: 'Tob', osis: 'Tob', usfm: 'TOB' },
+    'Jdt': { name: 'Judith', sbl: 'Jdt', osis: 'Jdt', usfm: 'JDT' },
+    'AddEst': { name: 'Additions to Esther', sbl: 'Add Esth', osis: 'AddEsth', usfm: 'ESG' },
+    'Wis': { name: 'Wisdom of Solomon', sbl: 'Wis', osis: 'Wis', usfm: 'WIS' },
+    'Sir': { name: 'Sirach', sbl: 'Sir', osis: 'Sir', usfm: 'SIR' },
+    'Bar': { name: 'Baruch', sbl: 'Bar', osis: 'Bar', usfm: 'BAR' },
+    'LetJer': { name: 'Letter of Jeremiah', sbl: 'Ep Jer', osis: 'EpJer', usfm: 'LJE' },
+    'SgThr': { name: 'Prayer of Azariah', sbl: 'Pr Azar', osis: 'PrAzar', usfm: 'S3Y' },
+    'Sus': { name: 'Susanna', sbl: 'Sus', osis: 'Sus', usfm: 'SUS' },
+    'Bel': { name: 'Bel and the Dragon', sbl: 'Bel', osis: 'Bel', usfm: 'BEL' },
+    '1Mac': { name: '1 Maccabees', sbl: '1 Macc', osis: '1Macc', usfm: '1MA' },
+    '2Mac': { name: '2 Maccabees', sbl: '2 Macc', osis: '2Macc', usfm: '2MA' },
+    '3Mac': { name: '3 Maccabees', sbl: '3 Macc', osis: '3Macc', usfm: '3MA' },
+    '4Mac': { name: '4 Maccabees', sbl: '4 Macc', osis: '4Macc', usfm: '4MA' },
+    '1Esd': { name: '1 Esdras', sbl: '1 Esd', osis: '1Esd', usfm: '1ES' },
+    '2Esd': { name: '2 Esdras', sbl: '2 Esd', osis: '2Esd', usfm: '2ES' },
+    'PrMan': { name: 'Prayer of Manasseh', sbl: 'Pr Man', osis: 'PrMan', usfm: 'MAN' },
+    // New Testament
+    'Mt': { name: 'Matthew', sbl: 'Matt', osis: 'Matt', usfm: 'MAT', blb: 'mat' },
+    'Mk': { name: 'Mark', sbl: 'Mark', osis: 'Mark', usfm: 'MRK', blb: 'mar' },
+    'Lk': { name: 'Luke', sbl: 'Luke', osis: 'Luke', usfm: 'LUK', blb: 'luk' },
+    'Jn': { name: 'John', sbl: 'John', osis: 'John', usfm: 'JHN', blb: 'jhn' },
+    'Ac': { name: 'Acts', sbl: 'Acts', osis: 'Acts', usfm: 'ACT', blb: 'act' },
+    'Ro': { name: 'Romans', sbl: 'Rom', osis: 'Rom', usfm: 'ROM', blb: 'rom' },
+    '1Co': { name: '1 Corinthians', sbl: '1 Cor', osis: '1Cor', usfm: '1CO', blb: '1co' },
+    '2Co': { name: '2 Corinthians', sbl: '2 Cor', osis: '2Cor', usfm: '2CO', blb: '2co' },
+    'Ga': { name: 'Galatians', sbl: 'Gal', osis: 'Gal', usfm: 'GAL', blb: 'gal' },
+    'Eph': { name: 'Ephesians', sbl: 'Eph', osis: 'Eph', usfm: 'EPH', blb: 'eph' },
+    'Php': { name: 'Philippians', sbl: 'Phil', osis: 'Phil', usfm: 'PHP', blb: 'phl' },
+    'Col': { name: 'Colossians', sbl: 'Col', osis: 'Col', usfm: 'COL', blb: 'col' },
+    '1Th': { name: '1 Thessalonians', sbl: '1 Thess', osis: '1Thess', usfm: '1TH', blb: '1th' },
+    '2Th': { name: '2 Thessalonians', sbl: '2 Thess', osis: '2Thess', usfm: '2TH', blb: '2th' },
+    '1Ti': { name: '1 Timothy', sbl: '1 Tim', osis: '1Tim', usfm: '1TI', blb: '1ti' },
+    '2Ti': { name: '2 Timothy', sbl: '2 Tim', osis: '2Tim', usfm: '2TI', blb: '2ti' },
+    'Tt': { name: 'Titus', sbl: 'Titus', osis: 'Titus', usfm: 'TIT', blb: 'tit' },
+    'Phm': { name: 'Philemon', sbl: 'Phlm', osis: 'Phlm', usfm: 'PHM', blb: 'phm' },
+    'Heb': { name: 'Hebrews', sbl: 'Heb', osis: 'Heb', usfm: 'HEB', blb: 'heb' },
+    'Jas': { name: 'James', sbl: 'Jas', osis: 'Jas', usfm: 'JAS', blb: 'jas' },
+    '1Pe': { name: '1 Peter', sbl: '1 Pet', osis: '1Pet', usfm: '1PE', blb: '1pe' },
+    '2Pe': { name: '2 Peter', sbl: '2 Pet', osis: '2Pet', usfm: '2PE', blb: '2pe' },
+    '1Jn': { name: '1 John', sbl: '1 John', osis: '1John', usfm: '1JN', blb: '1jo' },
+    '2Jn': { name: '2 John', sbl: '2 John', osis: '2John', usfm: '2JN', blb: '2jo' },
+    '3Jn': { name: '3 John', sbl: '3 John', osis: '3John', usfm: '3JN', blb: '3jo' },
+    'Jud': { name: 'Jude', sbl: 'Jude', osis: 'Jude', usfm: 'JUD', blb: 'jde' },
+    'Re': { name: 'Revelation', sbl: 'Rev', osis: 'Rev', usfm: 'REV', blb: 'rev' },
 };
@@ -0,0 +1,43 @@
+/**
+ * Bible translations the linker knows, with the codes Logos uses for them
+ */
+
+/** Which books a translation contains */
+export type TranslationCanon = 'protestant' | 'catholic' | 'ot' | 'nt';
+
+/**
+ * A Bible translation or original-language edition
+ */
+export interface BibleTranslation {
+    /** Settings key, the lowercased abbreviation */
+    id: string;
+    /** Abbreviation used in text ("John 3:16 (KJV)") and by Bible websites */
+    abbreviation: string;
+    name: string;
+    /** Logos resource code used in ref.ly links */
+    logosCode: string;
+    /** ISO 639 code: en, grc (Koine Greek), hbo (Biblical Hebrew) */
+    language: string;
+    canon: TranslationCanon;
+}
+
+/**
+ * Built-in translations, in the order they are offered in settings
+ */
+export const BIBLE_TRANSLATIONS: BibleTranslation[] = [
+    { id: 'esv', abbreviation: 'ESV', name: 'English Standard Version', logosCode: 'esv', language: 'en', canon: 'protestant' },
+    { id: 'niv', abbreviation: 'NIV', name: 'New International Version', logosCode: 'niv2011', language: 'en', canon: 'protestant' },
+    { id: 'nasb', abbreviation: 'NASB', name: 'New American Standard Bible', logosCode: 'nasb95', language: 'en', canon: 'protestant' },
+    { id: 'lsb', abbreviation: 'LSB', name: 'Legacy Standard Bible', logosCode: 'lgcystndrdbblsb', language: 'en', canon: 'protestant' },
+    { id: 'nlt', abbreviation: 'NLT', name: 'New Living Translation', logosCode: 'nlt', language: 'en', canon: 'protestant' },
+    { id: 'kjv', abbreviation: 'KJV', name: 'King James Version', logosCode: 'kjv1900', language: 'en', canon: 'protestant' },
+    { id: 'nkjv', abbreviation: 'NKJV', name: 'New King James Version', logosCode: 'nkjv', language: 'en', canon: 'protestant' },
+    { id: 'csb', abbreviation: 'CSB', name: 'Christian Standard Bible', logosCode: 'csb', language: 'en', canon: 'protestant' },
+    { id: 'nrsv', abbreviation: 'NRSV', name: 'New Revised Standard Version', logosCode: 'nrsv', language: 'en', canon: 'catholic' },
+    { id: 'rsv', abbreviation: 'RSV', name: 'Revised Standard Version', logosCode: 'rsv', language: 'en', canon: 'catholic' },
+    { id: 'net', abbreviation: 'NET', name: 'New English Translation', logosCode: 'net', language: 'en', canon: 'protestant' },
+    { id: 'leb', abbreviation: 'LEB', name: 'Lexham English Bible', logosCode: 'leb', language: 'en', canon: 'protestant' },
+    { id: 'na28', abbreviation: 'NA28', name: 'Nestle-Aland Novum Testamentum Graece, 28th ed.', logosCode: 'na28', language: 'grc', canon: 'nt' },
+    { id: 'sblgnt', abbreviation: 'SBLGNT', name: 'SBL Greek New Testament', logosCode: 'sblgnt', language: 'grc', canon: 'nt' },
+    { id: 'bhs', abbreviation: 'BHS', name: 'Biblia Hebraica Stuttgartensia', logosCode: 'bhs', language: 'hbo', canon: 'ot' },
+];
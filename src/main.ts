@@ -4,18 +4,46 @@
  * A refined plugin for managing citations from various sources in Obsidian.
  */
 
-import { Editor, MarkdownView, Notice, Plugin, TAbstractFile, TFile, TFolder, htmlToMarkdown } from 'obsidian';
-import { LogosPluginSettings, DEFAULT_SETTINGS, ParsedCitation } from './types';
+import { Editor, HoverParent, HoverPopover, MarkdownView, Notice, Plugin, TAbstractFile, TFile, TFolder, htmlToMarkdown, normalizePath } from 'obsidian';
+import { EditorView } from '@codemirror/view';
+import { LogosPluginSettings, DEFAULT_SETTINGS, BibleLinkOptions, BibleLinkTargetId, BibleReference, BibleReferenceStyle, BibleTextSource, Locator, ParsedCitation } from './types';
 import { CitationPluginSettingTab } from './settings';
-import { parseLogosClipboard, cleanFormattedText } from './utils/clipboard-parser';
-import { linkBibleVerses } from './utils/bible-linker';
-import { sanitizeNoteName, generateCitationFrontmatter, toTitleCase } from './utils/file-utils';
+import { parseLogosClipboardEntries, cleanFormattedText, ParsedClipboard } from './utils/clipboard-parser';
+import { countLinkedReferences, linkBibleVerses, normalizeBibleReferences, parseBibleReferences, renderBibleReferences } from './utils/bible-linker';
+import { sanitizeNoteName, generateCitationFrontmatter, toTitleCase, referenceNoteName, articleNoteName, citationArticle, workCitation, addArticleLink } from './utils/file-utils';
 import { fetchCoverImage } from './utils/cover-fetcher';
+import { findShortNoteMatch, ReferenceCandidate } from './utils/reference-matcher';
 import { LibraryLinkModal } from './ui/library-link-modal';
+import { reviewCitation } from './ui/citation-review-modal';
+import { BibleLinkTargetModal } from './ui/bible-link-target-modal';
+import { confirmBibleLinking } from './ui/bible-link-preview-modal';
+import { FolderPickerModal } from './ui/folder-picker-modal';
+import { ScriptureSearchModal } from './ui/scripture-search-modal';
+import { VersePreviewPopover, PreviewVerse } from './ui/verse-preview-popover';
+import { ScriptureReference, findScriptureReferences, parseBibleLink, renderScriptureIndex } from './utils/scripture-index';
+import { BibleText, VerseNumber, listPassageVerses, parseBibleText, readNoteVerse, verseKey } from './utils/bible-text';
+import { formatPassage, localBibleLinkTarget } from './utils/bible-link-targets';
+import { resolveTranslation } from './utils/bible-translations';
+import { LOW_CONFIDENCE_THRESHOLD } from './utils/citation-confidence';
+import { formatLocator, parseLocator } from './utils/locator-parser';
+import { linkAt } from './utils/markdown-ranges';
 
-export default class CitationReferencePlugin extends Plugin {
+/**
+ * A note as it was before and after Bible references were linked, to undo the run
+ */
+interface BibleLinkSnapshotEntry {
+    path: string;
+    before: string;
+    after: string;
+}
+
+export default class CitationReferencePlugin extends Plugin implements HoverParent {
     settings: LogosPluginSettings;
+    hoverPopover: HoverPopover | null = null;
     private ribbonIconEl: HTMLElement | null = null;
+    private bibleLinkSnapshot: BibleLinkSnapshotEntry[] | null = null;
+    /** Parsed Bible text files, with the modification time they were read at */
+    private bibleTextCache = new Map<string, { mtime: number; text: BibleText }>();
 
     async onload() {
         await this.loadSettings();
@@ -29,6 +57,83 @@ export default class CitationReferencePlugin extends Plugin {
             }
         });
 
+        this.addCommand({
+            id: 'paste-citation-reference-with-bible-link-target',
+            name: 'Paste citation reference with bible links to...',
+            editorCallback: (editor: Editor, view: MarkdownView) => {
+                new BibleLinkTargetModal(this.app, (target) => {
+                    void this.handlePasteCitationReference(editor, view, target.id);
+                }).open();
+            }
+        });
+
+        this.addCommand({
+            id: 'link-bible-references-in-selection',
+            name: 'Link bible references in selection',
+            editorCallback: (editor: Editor, view: MarkdownView) => {
+                this.linkBibleReferencesInSelection(editor, view);
+            }
+        });
+
+        this.addCommand({
+            id: 'link-bible-references-in-note',
+            name: 'Link bible references in current note',
+            callback: () => {
+                const activeFile = this.app.workspace.getActiveFile();
+                if (!activeFile || activeFile.extension !== 'md') {
+                    new Notice('No active note');
+                    return;
+                }
+                void this.linkBibleReferencesInFiles([activeFile]);
+            }
+        });
+
+        this.addCommand({
+            id: 'link-bible-references-in-folder',
+            name: 'Link bible references in folder...',
+            callback: () => {
+                new FolderPickerModal(this.app, (folder) => {
+                    const prefix = folder.isRoot() ? '' : `${folder.path}/`;
+                    const files = this.app.vault.getMarkdownFiles().filter(file => file.path.startsWith(prefix));
+                    void this.linkBibleReferencesInFiles(files);
+                }).open();
+            }
+        });
+
+        this.addCommand({
+            id: 'undo-bible-reference-linking',
+            name: 'Undo last bible reference linking in this session',
+            callback: () => {
+                void this.undoBibleLinking();
+            }
+        });
+
+        this.addCommand({
+            id: 'normalize-bible-references',
+            name: 'Normalize bible references',
+            editorCallback: (editor: Editor, view: MarkdownView) => {
+                this.normalizeBibleReferences(editor, view);
+            }
+        });
+
+        this.addCommand({
+            id: 'build-scripture-index',
+            name: 'Build scripture index',
+            callback: () => {
+                void this.buildScriptureIndex();
+            }
+        });
+
+        this.addCommand({
+            id: 'find-scripture-references',
+            name: 'Find notes referencing a bible passage',
+            callback: () => {
+                void this.collectScriptureReferences().then((references) => {
+                    new ScriptureSearchModal(this.app, references, this.getBibleLinkOptions('', new Set())).open();
+                });
+            }
+        });
+
         this.addCommand({
             id: 'list-all-citations',
             name: 'List all citations',
@@ -50,24 +155,27 @@ export default class CitationReferencePlugin extends Plugin {
             }
         });
 
+        this.registerDomEvent(document, 'mouseover', (event: MouseEvent) => {
+            void this.previewBibleLink(event);
+        });
+
         this.addSettingTab(new CitationPluginSettingTab(this.app, this));
     }
 
     /**
-     * Handles the "Paste citation reference" command
+     * Handles the "Paste citation reference" command. A Bible link target chosen for
+     * the command links verses even when auto-detection is off.
      */
-    private async handlePasteCitationReference(editor: Editor, view: MarkdownView): Promise<void> {
+    private async handlePasteCitationReference(editor: Editor, view: MarkdownView, bibleLinkTarget?: BibleLinkTargetId): Promise<void> {
         const file = view.file;
         if (!file) {
             new Notice("No active editor");
             return;
         }
 
-        const notePath = file.name;
-
         // 1. Read plain text version first (most reliable for BibTeX)
         const plainClipboard = await navigator.clipboard.readText();
-        let { mainText, citation, page, reflyLink } = parseLogosClipboard(plainClipboard, this.settings.citationFormat);
+        const entries = parseLogosClipboardEntries(plainClipboard, this.settings.citationFormat);
 
         // 2. Try to read HTML version to get formatted text (always enabled now)
         try {
@@ -78,25 +186,31 @@ export default class CitationReferencePlugin extends Plugin {
                     const html = await blob.text();
                     const markdown = htmlToMarkdown(html);
 
-                    // Parse the markdown version as well
-                    const parsedMarkdown = parseLogosClipboard(markdown, this.settings.citationFormat);
-
-                    // Use formatted main text
-                    mainText = parsedMarkdown.mainText;
-
-                    // If citation was missing in plain text but present in HTML, use it
-                    if (!citation && parsedMarkdown.citation) {
-                        citation = parsedMarkdown.citation;
-                    }
-                    if (!page && parsedMarkdown.page) {
-                        page = parsedMarkdown.page;
-                    }
-                    if (!reflyLink && parsedMarkdown.reflyLink) {
-                        reflyLink = parsedMarkdown.reflyLink;
-                    }
-                    if (reflyLink) {
-                        reflyLink = reflyLink.replace(/[\\.,;]+$/, '');
-                    }
+                    // Parse the markdown version as well; its copies only line up when both split the same way
+                    const markdownEntries = parseLogosClipboardEntries(markdown, this.settings.citationFormat);
+                    if (markdownEntries.length !== entries.length) break;
+
+                    entries.forEach((entry, index) => {
+                        const parsedMarkdown = markdownEntries[index];
+
+                        // Use formatted main text
+                        entry.mainText = parsedMarkdown.mainText;
+
+                        // If citation was missing in plain text but present in HTML, use it
+                        if (!entry.citation && parsedMarkdown.citation) {
+                            entry.citation = parsedMarkdown.citation;
+                        }
+                        if (!entry.page && parsedMarkdown.page) {
+                            entry.page = parsedMarkdown.page;
+                            entry.locator = parsedMarkdown.locator;
+                        }
+                        if (!entry.reflyLink && parsedMarkdown.reflyLink) {
+                            entry.reflyLink = parsedMarkdown.reflyLink;
+                        }
+                        if (entry.reflyLink) {
+                            entry.reflyLink = entry.reflyLink.replace(/[\\.,;]+$/, '');
+                        }
+                    });
                     break;
 
                 }
@@ -105,33 +219,101 @@ export default class CitationReferencePlugin extends Plugin {
             console.error("Failed to read HTML from clipboard", e);
         }
 
-        if (!citation) {
+        if (!entries.some(entry => entry.citation)) {
             new Notice("Could not find citation in clipboard. Please ensure you copied a valid citation.");
             return;
         }
 
+        // One callout per copied text and citation
+        const callouts: string[] = [];
+        for (const entry of entries) {
+            const callout = await this.createCitationCallout(file, entry, bibleLinkTarget);
+            if (callout) {
+                callouts.push(callout);
+            }
+        }
+
+        // Always add extra newline after callout (was a toggle, now default)
+        const newlineAfter = '\n\n';
+        if (callouts.length > 0) {
+            editor.replaceSelection(callouts.map(callout => `${callout}${newlineAfter}`).join(''));
+        }
+    }
+
+    /**
+     * Builds the callout for one copied text and citation and adds its back-link to the
+     * reference note. Returns null if there is no citation or the review was cancelled.
+     */
+    private async createCitationCallout(file: TFile, parsed: ParsedClipboard, bibleLinkTarget?: BibleLinkTargetId): Promise<string | null> {
+        let { mainText, citation, locator } = parsed;
+        const { reflyLink } = parsed;
+        if (!citation) return null;
+
+        const notePath = file.name;
+
         // Apply formatting cleanup (always enabled now)
         mainText = cleanFormattedText(mainText);
 
         const folder = this.settings.citationFolder.trim() || '';
 
-        // Determine the note name - always use book title (cleaned) with "References" suffix
-        let noteName = citation.citeKey;
-        if (citation.cleanedTitle || citation.title) {
-            noteName = `${toTitleCase(citation.cleanedTitle || citation.title || "")} - References`;
+        // The work is the container of an article or chapter, otherwise the cited title
+        const workTitle = citation.containerTitle || citation.cleanedTitle || citation.title;
+
+        // In article mode, articles get their own note listed in a note for the containing work
+        const findArticle = (cited: ParsedCitation) => {
+            const found = this.settings.referenceNoteMode === 'article' ? citationArticle(cited) : null;
+            return found ? { ...found, workNoteName: referenceNoteName(found.workTitle) } : null;
+        };
+        let article = findArticle(citation);
+
+        // Determine the note name - the work's (or article's) title with "References" suffix
+        let noteName = sanitizeNoteName(citation.citeKey);
+        if (article) {
+            noteName = articleNoteName(article.title, article.workTitle);
+        } else if (workTitle) {
+            noteName = referenceNoteName(workTitle);
         }
-        noteName = sanitizeNoteName(noteName);
 
-        const filePath = folder ? `${folder}/${noteName}.md` : `${noteName}.md`;
+        let filePath = folder ? `${folder}/${noteName}.md` : `${noteName}.md`;
+
+        // Shortened notes attach to the reference note of the work they abbreviate
+        if (citation.citationForm === 'short-note') {
+            const match = findShortNoteMatch(citation, this.getReferenceCandidates(folder));
+            if (match) {
+                filePath = match.path;
+                noteName = match.path.replace(/^.*\//, '').replace(/\.md$/, '');
+                citation = { ...citation, title: match.title, cleanedTitle: match.title };
+            }
+            if (!locator) {
+                locator = parseLocator(citation.pages);
+            }
+        }
+
+        // Uncertain parses are reviewed (and can be corrected) before anything is written
+        if (this.settings.reviewUncertainCitations && citation.confidence !== undefined && citation.confidence < LOW_CONFIDENCE_THRESHOLD) {
+            const reviewed = await reviewCitation(this.app, citation, noteName);
+            if (!reviewed) {
+                new Notice("Citation not inserted");
+                return null;
+            }
+            if (reviewed.citation.pages !== citation.pages) {
+                locator = parseLocator(reviewed.citation.pages);
+            }
+            citation = reviewed.citation;
+            // Edited article and container titles change the article and its work note
+            article = findArticle(citation);
+            noteName = sanitizeNoteName(reviewed.noteName);
+            filePath = folder ? `${folder}/${noteName}.md` : `${noteName}.md`;
+        }
 
         // Auto-detect Bible verses and link them to Logos if enabled
-        if (this.settings.autoDetectBibleVerses) {
-            mainText = linkBibleVerses(mainText, this.settings.bibleTranslation);
+        if (this.settings.autoDetectBibleVerses || bibleLinkTarget) {
+            const missingBibleNotes = new Set<string>();
+            mainText = linkBibleVerses(mainText, this.settings.bibleTranslation, this.getBibleLinkOptions(file.path, missingBibleNotes, bibleLinkTarget));
+            this.reportMissingBibleNotes(missingBibleNotes);
         }
 
-        const pageLabel = page
-            ? `, ${page.includes('-') || page.includes('–') ? 'pp.' : 'p.'} ${page}`
-            : "";
+        const pageLabel = locator ? `, ${formatLocator(locator)}` : "";
 
         // Generate block ID using a persistent counter
         const counters = this.settings.citationCounters;
@@ -144,7 +326,7 @@ export default class CitationReferencePlugin extends Plugin {
         await this.saveSettings();
 
         // Build the callout block
-        const bookTitle = citation.cleanedTitle || citation.title || citation.citeKey;
+        const bookTitle = article ? article.title : citation.containerTitle || citation.cleanedTitle || citation.title || citation.citeKey;
         const calloutTitle = this.settings.customCalloutTitle || toTitleCase(bookTitle);
         const quotedTextParts = [
             `> [!cite] ${calloutTitle}`,
@@ -185,13 +367,374 @@ export default class CitationReferencePlugin extends Plugin {
         quotedTextParts.push(`> [[${filePath}|${linkAlias}]] ^${blockId}`);
         const quotedText = quotedTextParts.join('\n');
 
+        // Create or update the reference file
+        if (article) {
+            const articleCitation = { ...citation, title: article.title, cleanedTitle: article.title };
+            await this.createOrUpdateReferenceFile(filePath, folder, articleCitation, file.basename, blockId, locator, article.workNoteName);
+            await this.addArticleToWorkNote(citation, folder, article.workNoteName, `[[${noteName}|${article.title}]]`);
+        } else {
+            await this.createOrUpdateReferenceFile(filePath, folder, citation, file.basename, blockId, locator);
+        }
 
-        // Always add extra newline after callout (was a toggle, now default)
-        const newlineAfter = '\n\n';
-        editor.replaceSelection(`${quotedText}${newlineAfter}`);
+        return quotedText;
+    }
 
-        // Create or update the reference file
-        await this.createOrUpdateReferenceFile(filePath, folder, citation, file.basename, blockId, page);
+    /**
+     * Lists an article note in the note of its containing work, creating the work note if needed
+     */
+    private async addArticleToWorkNote(citation: ParsedCitation, folder: string, workNoteName: string, articleLink: string): Promise<void> {
+        const workPath = folder ? `${folder}/${workNoteName}.md` : `${workNoteName}.md`;
+        const workFile = this.app.vault.getAbstractFileByPath(workPath);
+
+        if (workFile instanceof TFile) {
+            const content = await this.app.vault.read(workFile);
+            const updatedContent = addArticleLink(content, articleLink);
+            if (updatedContent !== content) {
+                await this.app.vault.modify(workFile, updatedContent);
+            }
+        } else if (!workFile) {
+            const customFields = this.settings.useCustomMetadata ? this.settings.customMetadataFields : [];
+            const metadata = generateCitationFrontmatter(workCitation(citation), customFields);
+            await this.app.vault.create(workPath, addArticleLink(metadata, articleLink));
+            new Notice(`Created ${workPath}`);
+        }
+    }
+
+    /**
+     * Bible linking options from the current settings, optionally with another link target.
+     * Vault Bible notes are resolved from the note being linked; missing ones are collected.
+     */
+    private getBibleLinkOptions(sourcePath: string, missingNotes: Set<string>, target?: BibleLinkTargetId): BibleLinkOptions {
+        return {
+            includeDeuterocanon: this.settings.includeDeuterocanon,
+            languages: this.settings.bibleBookLanguages,
+            customTranslations: this.settings.customBibleTranslations,
+            versification: this.settings.bibleVersification,
+            flagInvalidReferences: this.settings.flagInvalidBibleReferences,
+            target: target || this.settings.bibleLinkTarget,
+            localBibleFolder: this.settings.localBibleFolder,
+            localBibleLinkTemplate: this.settings.localBibleLinkTemplate,
+            embedLocalVerses: this.settings.embedLocalBibleVerses,
+            localNoteExists: (path) => {
+                const exists = this.app.metadataCache.getFirstLinkpathDest(path, sourcePath) !== null;
+                if (!exists) {
+                    missingNotes.add(path);
+                }
+                return exists;
+            },
+        };
+    }
+
+    /**
+     * Links Bible references in the selected text; the editor's own undo reverts it
+     */
+    private linkBibleReferencesInSelection(editor: Editor, view: MarkdownView): void {
+        const selection = editor.getSelection();
+        if (!selection) {
+            new Notice('Select the text to link bible references in');
+            return;
+        }
+
+        const missingBibleNotes = new Set<string>();
+        const linked = linkBibleVerses(selection, this.settings.bibleTranslation, this.getBibleLinkOptions(view.file?.path || '', missingBibleNotes));
+        const count = countLinkedReferences(selection, linked);
+        if (linked !== selection) {
+            editor.replaceSelection(linked);
+        }
+
+        new Notice(count > 0 ? `Linked ${count} bible references` : 'No bible references to link');
+        this.reportMissingBibleNotes(missingBibleNotes);
+    }
+
+    /**
+     * Links Bible references in whole notes. Shows how many references each note
+     * would get first, and keeps the notes' previous content so the run can be undone.
+     */
+    private async linkBibleReferencesInFiles(files: TFile[]): Promise<void> {
+        const missingBibleNotes = new Set<string>();
+        const changes: (BibleLinkSnapshotEntry & { file: TFile; count: number })[] = [];
+
+        for (const file of files) {
+            const before = await this.app.vault.cachedRead(file);
+            const after = linkBibleVerses(before, this.settings.bibleTranslation, this.getBibleLinkOptions(file.path, missingBibleNotes));
+            if (after !== before) {
+                changes.push({ file, path: file.path, before, after, count: countLinkedReferences(before, after) });
+            }
+        }
+
+        this.reportMissingBibleNotes(missingBibleNotes);
+        if (changes.length === 0) {
+            new Notice('No bible references to link');
+            return;
+        }
+
+        if (!await confirmBibleLinking(this.app, changes.map(({ path, count }) => ({ path, count })))) {
+            return;
+        }
+
+        const snapshot: BibleLinkSnapshotEntry[] = [];
+        let count = 0;
+        for (const change of changes) {
+            // A note edited since the preview is left alone rather than linked from stale content
+            await this.app.vault.process(change.file, (content) => {
+                if (content !== change.before) return content;
+                snapshot.push({ path: change.path, before: change.before, after: change.after });
+                count += change.count;
+                return change.after;
+            });
+        }
+
+        this.bibleLinkSnapshot = snapshot;
+        const skipped = changes.length - snapshot.length;
+        new Notice(`Linked ${count} bible references in ${snapshot.length} notes${skipped > 0 ? `; ${skipped} notes changed meanwhile and were skipped` : ''}. This can be undone until Obsidian restarts.`);
+    }
+
+    /**
+     * Restores the notes changed by the last linking run. Notes edited since then are left as they are.
+     * The run is only kept in memory, so it cannot be undone after Obsidian restarts or the plugin reloads.
+     */
+    private async undoBibleLinking(): Promise<void> {
+        const snapshot = this.bibleLinkSnapshot;
+        if (!snapshot) {
+            new Notice('No bible reference linking to undo in this session');
+            return;
+        }
+        this.bibleLinkSnapshot = null;
+
+        let restored = 0;
+        const edited: string[] = [];
+        for (const entry of snapshot) {
+            const file = this.app.vault.getAbstractFileByPath(entry.path);
+            let reverted = false;
+            if (file instanceof TFile) {
+                await this.app.vault.process(file, (content) => {
+                    if (content !== entry.after) return content;
+                    reverted = true;
+                    return entry.before;
+                });
+            }
+            if (reverted) {
+                restored++;
+            } else {
+                edited.push(entry.path);
+            }
+        }
+
+        const kept = edited.length > 0 ? `; changed since linking, left as they are: ${edited.slice(0, 3).join(', ')}${edited.length > 3 ? ` and ${edited.length - 3} more` : ''}` : '';
+        new Notice(`Restored ${restored} notes${kept}`);
+    }
+
+    /**
+     * Rewrites the Bible references in the selection, or in the whole note, in the style chosen in settings
+     */
+    private normalizeBibleReferences(editor: Editor, view: MarkdownView): void {
+        const selection = editor.getSelection();
+        const text = selection || editor.getValue();
+        const style: BibleReferenceStyle = {
+            book: this.settings.bibleReferenceBookStyle,
+            separator: this.settings.bibleReferenceSeparator,
+            link: this.settings.linkNormalizedBibleReferences,
+        };
+
+        const missingBibleNotes = new Set<string>();
+        const normalized = normalizeBibleReferences(text, style, this.settings.bibleTranslation, this.getBibleLinkOptions(view.file?.path || '', missingBibleNotes));
+        if (normalized === text) {
+            new Notice('No bible references to normalize');
+            return;
+        }
+
+        if (selection) {
+            editor.replaceSelection(normalized);
+        } else {
+            const cursor = editor.getCursor();
+            editor.setValue(normalized);
+            editor.setCursor(cursor);
+        }
+        new Notice('Bible references normalized');
+        this.reportMissingBibleNotes(missingBibleNotes);
+    }
+
+    /**
+     * Returns the external link an element belongs to, with its target and text:
+     * a link in reading view, or a link in Live Preview or source mode, whose
+     * target is read from the line in the editor
+     */
+    private findHoveredLink(target: HTMLElement): { el: HTMLElement; href: string; text: string } | null {
+        const anchor = target.closest<HTMLAnchorElement>('a.external-link');
+        if (anchor) {
+            return { el: anchor, href: anchor.getAttribute('href') || '', text: anchor.textContent || '' };
+        }
+
+        const el = target.closest<HTMLElement>('.cm-link, .cm-url');
+        const editorEl = el?.closest<HTMLElement>('.cm-editor');
+        const view = editorEl ? EditorView.findFromDOM(editorEl) : null;
+        if (!el || !view) return null;
+
+        const offset = view.posAtDOM(el);
+        const line = view.state.doc.lineAt(offset);
+        const link = linkAt(line.text, offset - line.from);
+        return link ? { el, ...link } : null;
+    }
+
+    /**
+     * Shows the text of a hovered Bible link, read from the local Bible of the
+     * translation chosen in settings. Links without a local Bible get no preview.
+     */
+    private async previewBibleLink(event: MouseEvent): Promise<void> {
+        if (!this.settings.showBibleVersePreview || !(event.target instanceof HTMLElement)) return;
+        const hovered = this.findHoveredLink(event.target);
+        // Moving between the parts of a link is not a new hover
+        if (!hovered || (event.relatedTarget instanceof Node && hovered.el.contains(event.relatedTarget))) return;
+
+        const translation = resolveTranslation(this.settings.bibleTranslation, this.settings.customBibleTranslations);
+        const source = this.settings.bibleTextSources.find(candidate => candidate.abbreviation.toLowerCase() === translation.id);
+        if (!source) return;
+
+        const passage = parseBibleLink(hovered.href, hovered.text, this.getBibleLinkOptions('', new Set()));
+        if (!passage) return;
+
+        const { verses, truncated } = listPassageVerses(passage, this.settings.bibleVersification);
+        const texts = await this.readBibleVerses(source, passage.bookCode, verses);
+        // The text is read asynchronously, so the pointer may have moved on
+        if (texts.length === 0 || !hovered.el.matches(':hover')) return;
+
+        new VersePreviewPopover(this, hovered.el, `${formatPassage(passage)} (${source.abbreviation})`, texts, truncated);
+    }
+
+    /**
+     * Reads verses of a book from a local Bible: a Bible text file, or the chapter
+     * notes of a vault Bible folder found through the Bible link template.
+     * Verses the Bible does not have are left out.
+     */
+    private async readBibleVerses(source: BibleTextSource, bookCode: string, verses: VerseNumber[]): Promise<PreviewVerse[]> {
+        const sourceFile = this.app.vault.getAbstractFileByPath(normalizePath(source.path));
+        const texts: PreviewVerse[] = [];
+
+        if (sourceFile instanceof TFile) {
+            const bible = await this.loadBibleText(sourceFile);
+            for (const { chapter, verse } of verses) {
+                const text = bible.get(verseKey(bookCode, chapter, verse));
+                if (text) texts.push({ chapter, verse, text });
+            }
+        } else if (sourceFile instanceof TFolder) {
+            const notes = new Map<string, string | null>();
+            const options = { localBibleFolder: sourceFile.path, localBibleLinkTemplate: this.settings.localBibleLinkTemplate };
+            for (const { chapter, verse } of verses) {
+                const [linkpath, subpath = ''] = localBibleLinkTarget({ bookCode, chapter, verse, endChapter: null, endVerse: null }, options).split('#');
+                if (!notes.has(linkpath)) {
+                    const note = this.app.metadataCache.getFirstLinkpathDest(linkpath, '');
+                    notes.set(linkpath, note ? await this.app.vault.cachedRead(note) : null);
+                }
+                const content = notes.get(linkpath);
+                const text = content ? readNoteVerse(content, subpath, verse) : null;
+                if (text) texts.push({ chapter, verse, text });
+            }
+        }
+
+        return texts;
+    }
+
+    /**
+     * Parses a Bible text file, reusing the last parse until the file changes
+     */
+    private async loadBibleText(file: TFile): Promise<BibleText> {
+        const cached = this.bibleTextCache.get(file.path);
+        if (cached && cached.mtime === file.stat.mtime) return cached.text;
+
+        let text: BibleText = new Map();
+        try {
+            text = parseBibleText(await this.app.vault.cachedRead(file), file.extension) ?? text;
+        } catch (e) {
+            console.error(`Failed to read bible text from ${file.path}`, e);
+            new Notice(`Could not read bible text from ${file.path}`);
+        }
+        this.bibleTextCache.set(file.path, { mtime: file.stat.mtime, text });
+        return text;
+    }
+
+    /**
+     * Path of the scripture index note
+     */
+    private getScriptureIndexPath(): string {
+        return normalizePath(`${this.settings.scriptureIndexNote || DEFAULT_SETTINGS.scriptureIndexNote}.md`);
+    }
+
+    /**
+     * Collects the Bible references of every note except the scripture index itself
+     */
+    private async collectScriptureReferences(): Promise<ScriptureReference[]> {
+        const indexPath = this.getScriptureIndexPath();
+        const references: ScriptureReference[] = [];
+
+        for (const file of this.app.vault.getMarkdownFiles()) {
+            if (file.path === indexPath) continue;
+            const content = await this.app.vault.cachedRead(file);
+            references.push(...findScriptureReferences(content, file.path, this.getBibleLinkOptions(file.path, new Set())));
+        }
+
+        return references;
+    }
+
+    /**
+     * Writes the scripture index note, listing every referenced passage in canonical order, and opens it
+     */
+    private async buildScriptureIndex(): Promise<void> {
+        const references = await this.collectScriptureReferences();
+        const indexPath = this.getScriptureIndexPath();
+        const content = `%% Built by the "Build scripture index" command; changes are overwritten %%\n\n${renderScriptureIndex(references)}`;
+
+        let file = this.app.vault.getAbstractFileByPath(indexPath);
+        if (file instanceof TFile) {
+            await this.app.vault.modify(file, content);
+        } else {
+            const folder = indexPath.includes('/') ? indexPath.replace(/\/[^/]*$/, '') : '';
+            if (folder && !(this.app.vault.getAbstractFileByPath(folder) instanceof TFolder)) {
+                await this.app.vault.createFolder(folder);
+            }
+            file = await this.app.vault.create(indexPath, content);
+        }
+
+        new Notice(`Scripture index updated with ${references.length} references`);
+        if (file instanceof TFile) {
+            await this.app.workspace.getLeaf().openFile(file);
+        }
+    }
+
+    /**
+     * Tells the user which vault Bible notes were missing, so the references left unlinked can be fixed
+     */
+    private reportMissingBibleNotes(missingNotes: Set<string>): void {
+        if (missingNotes.size === 0) return;
+
+        const names = [...missingNotes];
+        const shown = names.slice(0, 3).join(', ');
+        const more = names.length > 3 ? ` and ${names.length - 3} more` : '';
+        new Notice(`Bible notes not found, references left unlinked: ${shown}${more}`);
+    }
+
+    /**
+     * Collects the reference notes in the citation folder with their frontmatter title and authors
+     */
+    private getReferenceCandidates(folder: string): ReferenceCandidate[] {
+        const prefix = folder ? `${folder}/` : '';
+        const candidates: ReferenceCandidate[] = [];
+
+        for (const file of this.app.vault.getMarkdownFiles()) {
+            if (prefix && !file.path.startsWith(prefix)) continue;
+
+            const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter as Record<string, unknown> | undefined;
+            if (!frontmatter || typeof frontmatter.title !== 'string') continue;
+
+            const authors: string[] = [];
+            if (typeof frontmatter.author === 'string') authors.push(frontmatter.author);
+            if (Array.isArray(frontmatter.authors)) {
+                authors.push(...frontmatter.authors.filter((a): a is string => typeof a === 'string'));
+            }
+
+            candidates.push({ path: file.path, title: frontmatter.title, authors });
+        }
+
+        return candidates;
     }
 
     /**
@@ -203,12 +746,13 @@ export default class CitationReferencePlugin extends Plugin {
         citation: ParsedCitation,
         sourceBasename: string,
         blockId: string,
-        page: string | null
+        locator: Locator | null,
+        parentNote?: string
     ): Promise<void> {
         const abstractFile = this.app.vault.getAbstractFileByPath(filePath);
         const abstractFileFolder = this.app.vault.getAbstractFileByPath(folder);
         // Link format: [[SourceNote#^id]]![[SourceNote#^id]]
-        const linkBack = `[[${sourceBasename}#^${blockId}]]![[${sourceBasename}#^${blockId}]]${page ? ` → p. ${page}` : ''}`;
+        const linkBack = `[[${sourceBasename}#^${blockId}]]![[${sourceBasename}#^${blockId}]]${locator ? ` → ${formatLocator(locator)}` : ''}`;
 
         if (!abstractFile) {
             // Create folder if needed
@@ -234,6 +778,7 @@ export default class CitationReferencePlugin extends Plugin {
             const metadata = generateCitationFrontmatter(citation, customFields, {
                 fetchLogosMetadata: this.settings.fetchLogosMetadata,
                 coverImagePath: coverImagePath || undefined,
+                parentNote,
             });
 
             const content = metadata + [
@@ -379,6 +924,23 @@ export default class CitationReferencePlugin extends Plugin {
         await this.saveData(this.settings);
     }
 
+    /**
+     * Finds the Bible references in text with the book names, versification and
+     * translations from settings. Public for other plugins and scripts:
+     * `app.plugins.plugins['citation-references'].parseBibleReferences(text)`.
+     */
+    parseBibleReferences(text: string): BibleReference[] {
+        return parseBibleReferences(text, this.getBibleLinkOptions('', new Set()));
+    }
+
+    /**
+     * Links references parsed from text (all of them by default) as set in settings,
+     * or to another link target. Public for other plugins and scripts.
+     */
+    renderBibleReferences(text: string, references: BibleReference[] = this.parseBibleReferences(text), target?: BibleLinkTargetId): string {
+        return renderBibleReferences(text, references, this.settings.bibleTranslation, this.getBibleLinkOptions('', new Set(), target));
+    }
+
     /**
      * Creates or removes the ribbon icon based on settings
      */
@@ -2,9 +2,12 @@
  * Settings tab UI for the Citation References Plugin
  */
 
-import { App, Plugin, PluginSettingTab, Setting } from 'obsidian';
-import { FolderSuggest } from './ui/folder-suggest';
-import { LogosPluginSettings, CitationFormat } from './types';
+import { App, Plugin, PluginSettingTab, Setting, TFolder } from 'obsidian';
+import { BibleTextSuggest, FolderSuggest } from './ui/folder-suggest';
+import { BOOK_NAME_PACKS, BookNamePack } from './constants/bible-book-names';
+import { LogosPluginSettings, DEFAULT_SETTINGS, BibleLinkTargetId, BookNameLanguage, BookNameStyle, CitationFormat, ReferenceNoteMode, Versification } from './types';
+import { BIBLE_LINK_TARGETS } from './utils/bible-link-targets';
+import { getBibleTranslations } from './utils/bible-translations';
 import { findCatalogDbPath } from './utils/catalog-reader';
 
 interface PluginWithSettings extends Plugin {
@@ -53,7 +56,10 @@ export class CitationPluginSettingTab extends PluginSettingTab {
                         bibtex: "BibTeX",
                         mla: "MLA",
                         apa: "APA",
-                        chicago: "Chicago",
+                        chicago: "Chicago / Turabian",
+                        sbl: "SBL",
+                        ris: "RIS",
+                        'csl-json': "CSL-JSON",
                     })
                     .setValue(this.plugin.settings.citationFormat)
                     .onChange((value) => {
@@ -62,6 +68,34 @@ export class CitationPluginSettingTab extends PluginSettingTab {
                     })
             );
 
+        new Setting(this.containerEl)
+            .setName("Reference notes for articles")
+            .setDesc("Dictionary and encyclopedia articles, chapters and journal articles can share the note of the work that contains them, or get their own note listed in the work's note")
+            .addDropdown((dropdown) =>
+                dropdown
+                    .addOptions({
+                        work: "One note per work",
+                        article: "One note per article, linked to the work",
+                    })
+                    .setValue(this.plugin.settings.referenceNoteMode)
+                    .onChange((value) => {
+                        this.plugin.settings.referenceNoteMode = value as ReferenceNoteMode;
+                        void this.plugin.saveSettings();
+                    })
+            );
+
+        new Setting(this.containerEl)
+            .setName("Review uncertain citations")
+            .setDesc("When a citation cannot be parsed confidently, show the parsed fields and note name for correction before anything is written")
+            .addToggle((toggle) =>
+                toggle
+                    .setValue(this.plugin.settings.reviewUncertainCitations)
+                    .onChange((value) => {
+                        this.plugin.settings.reviewUncertainCitations = value;
+                        void this.plugin.saveSettings();
+                    })
+            );
+
         new Setting(this.containerEl)
             .setName("Callout title")
             .setDesc("The title for the callout block (defaults to book title if left blank)")
@@ -284,39 +318,311 @@ export class CitationPluginSettingTab extends PluginSettingTab {
                 );
         }
 
+        new Setting(logosSectionContent)
+            .setName("Scripture index note")
+            .setDesc("Note the build scripture index command writes, listing where each bible passage is referenced")
+            .addText((text) =>
+                text
+                    .setPlaceholder(DEFAULT_SETTINGS.scriptureIndexNote)
+                    .setValue(this.plugin.settings.scriptureIndexNote)
+                    .onChange((value) => {
+                        this.plugin.settings.scriptureIndexNote = value.trim().replace(/\.md$/, '');
+                        void this.plugin.saveSettings();
+                    })
+            );
+
+        new Setting(logosSectionContent)
+            .setName("Normalized book names")
+            .setDesc("How the normalize bible references command writes book names")
+            .addDropdown((dropdown) =>
+                dropdown
+                    .addOptions({
+                        full: "Full name (1 Corinthians 13:4)",
+                        sbl: "SBL abbreviation (1 Cor 13:4)",
+                        logos: "Logos code (1Co 13:4)",
+                    })
+                    .setValue(this.plugin.settings.bibleReferenceBookStyle)
+                    .onChange((value) => {
+                        this.plugin.settings.bibleReferenceBookStyle = value as BookNameStyle;
+                        void this.plugin.saveSettings();
+                    })
+            );
+
+        new Setting(logosSectionContent)
+            .setName("Normalized chapter and verse separator")
+            .setDesc("Ranges always use an en dash")
+            .addDropdown((dropdown) =>
+                dropdown
+                    .addOptions({
+                        ':': "Colon (13:4)",
+                        '.': "Period (13.4)",
+                    })
+                    .setValue(this.plugin.settings.bibleReferenceSeparator)
+                    .onChange((value) => {
+                        this.plugin.settings.bibleReferenceSeparator = value as ':' | '.';
+                        void this.plugin.saveSettings();
+                    })
+            );
+
+        new Setting(logosSectionContent)
+            .setName("Link normalized references")
+            .setDesc("Also link the references the normalize command rewrites")
+            .addToggle((toggle) =>
+                toggle
+                    .setValue(this.plugin.settings.linkNormalizedBibleReferences)
+                    .onChange((value) => {
+                        this.plugin.settings.linkNormalizedBibleReferences = value;
+                        void this.plugin.saveSettings();
+                    })
+            );
+
         new Setting(logosSectionContent)
             .setName("Auto-detect bible verses")
-            .setDesc("Automatically detects bible verse references and links them")
+            .setDesc("Automatically detects bible verse references in pasted citations and links them")
             .addToggle((toggle) =>
                 toggle
                     .setValue(this.plugin.settings.autoDetectBibleVerses)
                     .onChange((value) => {
                         this.plugin.settings.autoDetectBibleVerses = value;
-                        void this.plugin.saveSettings().then(() => {
+                        void this.plugin.saveSettings();
+                    })
+            );
+
+        new Setting(logosSectionContent)
+            .setName("Preferred bible translation")
+            .setDesc("The translation bible links open in")
+            .addDropdown((dropdown) => {
+                for (const translation of getBibleTranslations(this.plugin.settings.customBibleTranslations)) {
+                    dropdown.addOption(translation.id, translation.abbreviation);
+                }
+                dropdown
+                    .setValue(this.plugin.settings.bibleTranslation)
+                    .onChange((value) => {
+                        this.plugin.settings.bibleTranslation = value;
+                        void this.plugin.saveSettings();
+                    });
+            });
+
+        let abbreviationInput: HTMLInputElement;
+        let logosCodeInput: HTMLInputElement;
+        new Setting(logosSectionContent)
+            .setName("Add bible translation")
+            .setDesc("An abbreviation and its logos resource code. Reusing a built-in abbreviation replaces its code.")
+            .addText((text) => {
+                text.setPlaceholder("Abbreviation");
+                abbreviationInput = text.inputEl;
+            })
+            .addText((text) => {
+                text.setPlaceholder("Logos code");
+                logosCodeInput = text.inputEl;
+            })
+            .addButton((button) => {
+                button.setButtonText("Add")
+                    .setCta()
+                    .onClick(async () => {
+                        const abbreviation = abbreviationInput.value.trim();
+                        const logosCode = logosCodeInput.value.trim();
+                        if (!abbreviation || !logosCode) return;
+
+                        const custom = this.plugin.settings.customBibleTranslations
+                            .filter(translation => translation.abbreviation.toLowerCase() !== abbreviation.toLowerCase());
+                        custom.push({ abbreviation, logosCode });
+                        this.plugin.settings.customBibleTranslations = custom;
+                        await this.plugin.saveSettings();
+                        this.display();
+                    });
+            });
+
+        this.plugin.settings.customBibleTranslations.forEach((translation, index) => {
+            new Setting(logosSectionContent)
+                .setName(translation.abbreviation)
+                .setDesc(`Logos code: ${translation.logosCode}`)
+                .addButton((button) => {
+                    button.setButtonText("Remove")
+                        .setWarning()
+                        .onClick(async () => {
+                            this.plugin.settings.customBibleTranslations.splice(index, 1);
+                            await this.plugin.saveSettings();
                             this.display();
                         });
+                });
+        });
+
+        new Setting(logosSectionContent)
+            .setName("Show verse text on hover")
+            .setDesc("Hovering a bible link in reading view, live preview or source mode shows the passage from the local bible of the preferred translation")
+            .addToggle((toggle) =>
+                toggle
+                    .setValue(this.plugin.settings.showBibleVersePreview)
+                    .onChange((value) => {
+                        this.plugin.settings.showBibleVersePreview = value;
+                        void this.plugin.saveSettings();
                     })
             );
 
-        if (this.plugin.settings.autoDetectBibleVerses) {
+        let sourceAbbreviationInput: HTMLInputElement;
+        let sourcePathInput: HTMLInputElement;
+        new Setting(logosSectionContent)
+            .setName("Add local bible")
+            .setDesc("A translation abbreviation and its bible folder in this vault, read through the bible link template, or its bible text file")
+            .addText((text) => {
+                text.setPlaceholder("Abbreviation");
+                sourceAbbreviationInput = text.inputEl;
+            })
+            .addSearch((search) => {
+                new BibleTextSuggest(this.app, search.inputEl);
+                search.setPlaceholder("Folder or file");
+                sourcePathInput = search.inputEl;
+            })
+            .addButton((button) => {
+                button.setButtonText("Add")
+                    .setCta()
+                    .onClick(async () => {
+                        const abbreviation = sourceAbbreviationInput.value.trim();
+                        const path = sourcePathInput.value.trim().replace(/\/$/, "");
+                        if (!abbreviation || !path) return;
+
+                        const sources = this.plugin.settings.bibleTextSources
+                            .filter(source => source.abbreviation.toLowerCase() !== abbreviation.toLowerCase());
+                        sources.push({ abbreviation, path });
+                        this.plugin.settings.bibleTextSources = sources;
+                        await this.plugin.saveSettings();
+                        this.display();
+                    });
+            });
+
+        this.plugin.settings.bibleTextSources.forEach((source, index) => {
+            new Setting(logosSectionContent)
+                .setName(source.abbreviation)
+                .setDesc(`Local bible: ${source.path}`)
+                .addButton((button) => {
+                    button.setButtonText("Remove")
+                        .setWarning()
+                        .onClick(async () => {
+                            this.plugin.settings.bibleTextSources.splice(index, 1);
+                            await this.plugin.saveSettings();
+                            this.display();
+                        });
+                });
+        });
+
+        new Setting(logosSectionContent)
+            .setName("Bible link target")
+            .setDesc("Where bible references link to")
+            .addDropdown((dropdown) => {
+                for (const target of BIBLE_LINK_TARGETS) {
+                    dropdown.addOption(target.id, target.name);
+                }
+                dropdown
+                    .setValue(this.plugin.settings.bibleLinkTarget)
+                    .onChange((value) => {
+                        this.plugin.settings.bibleLinkTarget = value as BibleLinkTargetId;
+                        void this.plugin.saveSettings().then(() => {
+                            this.display();
+                        });
+                    });
+            });
+
+        if (this.plugin.settings.bibleLinkTarget === 'wikilink') {
+            new Setting(logosSectionContent)
+                .setName("Bible folder")
+                .setDesc("Folder of the bible kept in this vault")
+                .addSearch((text) => {
+                    new FolderSuggest(this.app, text.inputEl);
+                    text.setPlaceholder("Example: bible")
+                        .setValue(this.plugin.settings.localBibleFolder)
+                        .onChange((value) => {
+                            this.plugin.settings.localBibleFolder = value.trim().replace(/\/$/, "");
+                            void this.plugin.saveSettings();
+                        });
+                });
+        }
+
+        // Local bible folders are read through the link template as well
+        const readsBibleFolder = this.plugin.settings.bibleTextSources
+            .some(source => this.app.vault.getAbstractFileByPath(source.path) instanceof TFolder);
+        if (this.plugin.settings.bibleLinkTarget === 'wikilink' || readsBibleFolder) {
+            new Setting(logosSectionContent)
+                .setName("Bible link template")
+                .setDesc("Link target within the bible folder, e.g. a chapter note with verse block IDs. Placeholders: {book}, {osis}, {code}, {chapter}, {verse}")
+                .addText((text) =>
+                    text
+                        .setPlaceholder("{book} {chapter}#^{verse}")
+                        .setValue(this.plugin.settings.localBibleLinkTemplate)
+                        .onChange((value) => {
+                            this.plugin.settings.localBibleLinkTemplate = value.trim() || DEFAULT_SETTINGS.localBibleLinkTemplate;
+                            void this.plugin.saveSettings();
+                        })
+                );
+        }
+
+        if (this.plugin.settings.bibleLinkTarget === 'wikilink') {
             new Setting(logosSectionContent)
-                .setName("Preferred bible translation")
-                .setDesc("The translation to use for ref.ly links")
-                .addDropdown((dropdown) =>
-                    dropdown
-                        .addOptions({
-                            niv: "NIV",
-                            esv: "ESV",
-                            nasb: "NASB",
-                            lsb: "LSB",
-                            nlt: "NLT",
+                .setName("Embed quoted verses")
+                .setDesc("Embed a reference that stands on a line of its own or in a block quote instead of linking it")
+                .addToggle((toggle) =>
+                    toggle
+                        .setValue(this.plugin.settings.embedLocalBibleVerses)
+                        .onChange((value) => {
+                            this.plugin.settings.embedLocalBibleVerses = value;
+                            void this.plugin.saveSettings();
                         })
-                        .setValue(this.plugin.settings.bibleTranslation)
+                );
+        }
+
+        new Setting(logosSectionContent)
+            .setName("Include deuterocanonical books")
+            .setDesc("Also link references to the deuterocanonical and apocryphal books")
+            .addToggle((toggle) =>
+                toggle
+                    .setValue(this.plugin.settings.includeDeuterocanon)
+                    .onChange((value) => {
+                        this.plugin.settings.includeDeuterocanon = value;
+                        void this.plugin.saveSettings();
+                    })
+            );
+
+        for (const [language, pack] of Object.entries(BOOK_NAME_PACKS) as [BookNameLanguage, BookNamePack][]) {
+            new Setting(logosSectionContent)
+                .setName(`${pack.name} book names`)
+                .setDesc(`Also link references such as "${pack.example}"`)
+                .addToggle((toggle) =>
+                    toggle
+                        .setValue(this.plugin.settings.bibleBookLanguages.includes(language))
                         .onChange((value) => {
-                            this.plugin.settings.bibleTranslation = value;
+                            const languages = this.plugin.settings.bibleBookLanguages.filter(enabled => enabled !== language);
+                            this.plugin.settings.bibleBookLanguages = value ? [...languages, language] : languages;
                             void this.plugin.saveSettings();
                         })
                 );
         }
+
+        new Setting(logosSectionContent)
+            .setName("Verse numbering")
+            .setDesc("Bible references to chapters or verses that do not exist in this numbering are not linked")
+            .addDropdown((dropdown) =>
+                dropdown
+                    .addOptions({
+                        english: "English",
+                        hebrew: "Hebrew (psalm titles as verses)",
+                    })
+                    .setValue(this.plugin.settings.bibleVersification)
+                    .onChange((value) => {
+                        this.plugin.settings.bibleVersification = value as Versification;
+                        void this.plugin.saveSettings();
+                    })
+            );
+
+        new Setting(logosSectionContent)
+            .setName("Highlight invalid references")
+            .setDesc("Highlight references to chapters or verses that do not exist instead of leaving them as plain text")
+            .addToggle((toggle) =>
+                toggle
+                    .setValue(this.plugin.settings.flagInvalidBibleReferences)
+                    .onChange((value) => {
+                        this.plugin.settings.flagInvalidBibleReferences = value;
+                        void this.plugin.saveSettings();
+                    })
+            );
     }
 }
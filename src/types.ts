@@ -3,7 +3,22 @@
  */
 
 /** Supported citation formats */
-export type CitationFormat = 'auto' | 'bibtex' | 'mla' | 'apa' | 'chicago';
+export type CitationFormat = 'auto' | 'bibtex' | 'mla' | 'apa' | 'chicago' | 'sbl' | 'ris' | 'csl-json';
+
+/** Verse numbering used to validate Bible references */
+export type Versification = 'english' | 'hebrew';
+
+/** Where Bible references are linked to */
+export type BibleLinkTargetId = 'refly' | 'logos' | 'biblegateway' | 'blueletterbible' | 'step' | 'wikilink';
+
+/** Languages whose Bible book names can be recognized besides English */
+export type BookNameLanguage = 'es' | 'de' | 'pt';
+
+/** How book names are written when Bible references are normalized */
+export type BookNameStyle = 'full' | 'sbl' | 'logos';
+
+/** Whether articles get a reference note of their own or share the note of the containing work */
+export type ReferenceNoteMode = 'work' | 'article';
 
 export interface LogosPluginSettings {
     citationFolder: string;
@@ -11,12 +26,31 @@ export interface LogosPluginSettings {
     customCalloutTitle: string;
     autoDetectBibleVerses: boolean;
     bibleTranslation: string;
+    customBibleTranslations: CustomBibleTranslation[];
+    includeDeuterocanon: boolean;
+    bibleVersification: Versification;
+    bibleBookLanguages: BookNameLanguage[];
+    flagInvalidBibleReferences: boolean;
+    bibleLinkTarget: BibleLinkTargetId;
+    localBibleFolder: string;
+    localBibleLinkTemplate: string;
+    embedLocalBibleVerses: boolean;
+    /** Local Bibles verse previews read from, one per translation */
+    bibleTextSources: BibleTextSource[];
+    showBibleVersePreview: boolean;
+    /** Path of the scripture index note, without ".md" */
+    scriptureIndexNote: string;
+    bibleReferenceBookStyle: BookNameStyle;
+    bibleReferenceSeparator: ':' | '.';
+    linkNormalizedBibleReferences: boolean;
     useCustomMetadata: boolean;
     customMetadataFields: string[];
     showRibbonIcon: boolean;
     showFullCitationInCallout: boolean;
     includeReflyLink: boolean;
     citationFormat: CitationFormat;
+    referenceNoteMode: ReferenceNoteMode;
+    reviewUncertainCitations: boolean;
     fetchLogosMetadata: boolean;
     coverImageSubfolder: string;
     logosDataPath: string;
@@ -28,24 +62,77 @@ export const DEFAULT_SETTINGS: LogosPluginSettings = {
     customCalloutTitle: '',
     autoDetectBibleVerses: false,
     bibleTranslation: 'esv',
+    customBibleTranslations: [],
+    includeDeuterocanon: false,
+    bibleVersification: 'english',
+    bibleBookLanguages: [],
+    flagInvalidBibleReferences: false,
+    bibleLinkTarget: 'refly',
+    localBibleFolder: '',
+    localBibleLinkTemplate: '{book} {chapter}#^{verse}',
+    embedLocalBibleVerses: false,
+    bibleTextSources: [],
+    showBibleVersePreview: true,
+    scriptureIndexNote: 'Scripture index',
+    bibleReferenceBookStyle: 'full',
+    bibleReferenceSeparator: ':',
+    linkNormalizedBibleReferences: false,
     useCustomMetadata: false,
     customMetadataFields: [],
     showRibbonIcon: true,
     showFullCitationInCallout: true,
     includeReflyLink: false,
     citationFormat: 'auto',
+    referenceNoteMode: 'work',
+    reviewUncertainCitations: true,
     fetchLogosMetadata: false,
     coverImageSubfolder: 'covers',
     logosDataPath: '',
 };
 
+/** Note, bibliography or shortened-note form of a notes-bibliography citation (Chicago, Turabian, SBL) */
+export type CitationForm = 'note' | 'bibliography' | 'short-note';
+
+/** Kind of work a citation describes */
+export type EntryType = 'book' | 'chapter' | 'article' | 'dictionary-entry' | 'thesis' | 'report' | 'webpage' | 'misc';
+
+/** What a locator points at within a work */
+export type LocatorKind = 'page' | 'footnote' | 'section' | 'column' | 'locus';
+
+/**
+ * A pinpoint within a work, e.g. pages "12, 15–17", footnote "45 n. 3",
+ * section "4.2", column "12" or a classical locus "Inst. 1.3.1"
+ */
+export interface Locator {
+    kind: LocatorKind;
+    /** The locator without its label ("p.", "§", "col."), e.g. "xiv" or "45 n. 3" */
+    value: string;
+}
+
+/** Roles a contributor can hold on a work */
+export type ContributorRole = 'author' | 'editor' | 'translator' | 'compiler';
+
+/**
+ * A single person (or corporate body) credited on a work
+ */
+export interface Contributor {
+    family: string;
+    given: string | null;
+    suffix: string | null;
+    /** Lowercase family-name particle such as "van", "de" or "von" */
+    particle: string | null;
+    role: ContributorRole;
+}
+
 /**
  * Parsed citation data structure - common fields across all formats
  */
 export interface ParsedCitation {
     format: CitationFormat;
+    citationForm?: CitationForm;
     citeKey: string;
     author: string | null;
+    /** The work the reference note is named after (the container for articles and chapters) */
     title: string | null;
     cleanedTitle: string | null;
     year: string | null;
@@ -57,4 +144,127 @@ export interface ParsedCitation {
     abstract: string | null;
     keywords: string[] | null;
     series: string | null;
+    entryType?: EntryType;
+    /** Journal, book or reference work that contains the cited article, chapter or entry */
+    containerTitle?: string | null;
+    /** Title of the article, chapter or dictionary entry within its container */
+    articleTitle?: string | null;
+    volume?: string | null;
+    issue?: string | null;
+    edition?: string | null;
+    /** Place of publication */
+    place?: string | null;
+    doi?: string | null;
+    /** Editor display names */
+    editors?: string[];
+    /** How complete and plausible the parse is, from 0 to 1 */
+    confidence?: number;
+    /** Expected fields the parser could not find */
+    missingFields?: string[];
+    /** Structured authors, editors, translators and compilers */
+    contributors?: Contributor[];
+    /** Every field of the source entry keyed by lowercased BibTeX name (RIS and CSL-JSON are mapped onto BibTeX names) */
+    fields?: Record<string, string>;
+}
+
+/**
+ * A translation code added by the user, or a corrected code for a built-in translation
+ */
+export interface CustomBibleTranslation {
+    abbreviation: string;
+    /** Logos resource code used in ref.ly links */
+    logosCode: string;
+}
+
+/**
+ * A local copy of a translation that verse text is read from: a vault Bible folder
+ * (read through the Bible link template) or an OSIS, USFM or JSON file in the vault
+ */
+export interface BibleTextSource {
+    /** Abbreviation of the translation, e.g. "KJV" */
+    abbreviation: string;
+    /** Vault path of the folder or file */
+    path: string;
+}
+
+/**
+ * Options for Bible verse linking
+ */
+export interface BibleLinkOptions {
+    /** Recognize deuterocanonical and apocryphal books (Sirach, Tobit, 1–4 Maccabees, ...) */
+    includeDeuterocanon?: boolean;
+    /** Also recognize book names in these languages ("Juan 3:16", "1. Kor 13", "Jó 1:1") */
+    languages?: BookNameLanguage[];
+    /** Verse numbering references are checked against (defaults to English) */
+    versification?: Versification;
+    /** Highlight references to chapters or verses that do not exist instead of leaving them plain */
+    flagInvalidReferences?: boolean;
+    /** User-defined translations, recognized in settings and inline markers */
+    customTranslations?: CustomBibleTranslation[];
+    /** Where references link to (defaults to ref.ly) */
+    target?: BibleLinkTargetId;
+    /** Folder of the vault Bible that wikilinks point into */
+    localBibleFolder?: string;
+    /**
+     * Wikilink target within the vault Bible, e.g. "{book} {chapter}#^{verse}" for
+     * chapter notes with verse block IDs.
+     * Placeholders: {book}, {osis}, {code}, {chapter}, {verse}; the part from the
+     * first "#" is dropped for whole chapters.
+     */
+    localBibleLinkTemplate?: string;
+    /** Embed a vault Bible reference that stands on a line of its own (or a block quote line) */
+    embedLocalVerses?: boolean;
+    /**
+     * Checks that a vault Bible note exists; references to missing notes are left
+     * unlinked rather than creating broken links
+     */
+    localNoteExists?: (path: string) => boolean;
+    /** Rewrite references in this style instead of keeping their original text */
+    style?: BibleReferenceStyle;
+}
+
+/**
+ * A Bible reference found in text
+ */
+export interface BibleReference {
+    /** Offset of the reference in the text; the separator of a continuing reference ("; ", "(") is not included */
+    start: number;
+    /** Offset just after the reference */
+    end: number;
+    /** The reference as written, e.g. "Jn 3:16", "4:2" or "vv. 6–8" */
+    text: string;
+    passage: BiblePassage;
+    /** True if the reference names its book, false for forms that continue an earlier one ("; 4:2", "v. 5") */
+    full: boolean;
+    /** False for chapters or verses the book does not have */
+    valid: boolean;
+    /** Abbreviation of a known translation named right after the reference ("John 3:16 (KJV)"), or null */
+    translation: string | null;
+    /** True for a full reference alone on its line (or block quote line) */
+    standalone: boolean;
+}
+
+/**
+ * A canonical way of writing Bible references, e.g. "1 Corinthians 13:4–7" or "1 Cor 13.4–7"
+ */
+export interface BibleReferenceStyle {
+    /** Full name ("1 Corinthians"), SBL abbreviation ("1 Cor") or Logos code ("1Co") */
+    book: BookNameStyle;
+    /** Between chapter and verse */
+    separator: ':' | '.';
+    /** Link the rewritten references as well */
+    link: boolean;
+}
+
+/**
+ * A Bible passage: a start chapter (and verse) and an optional end.
+ * A missing verse means whole chapters.
+ */
+export interface BiblePassage {
+    /** Logos ref code of the book, e.g. "Jn" */
+    bookCode: string;
+    chapter: number;
+    verse: number | null;
+    endChapter: number | null;
+    endVerse: number | null;
 }
@@ -0,0 +1,82 @@
+/**
+ * Modal summarizing what linking Bible references would change, note by note,
+ * before any note is modified
+ */
+
+import { App, Modal } from 'obsidian';
+
+/**
+ * A note that linking would change and how many references it would link
+ */
+export interface BibleLinkFileChange {
+    path: string;
+    count: number;
+}
+
+export class BibleLinkPreviewModal extends Modal {
+    private changes: BibleLinkFileChange[];
+    private onSubmit: (confirmed: boolean) => void;
+    private submitted = false;
+
+    constructor(app: App, changes: BibleLinkFileChange[], onSubmit: (confirmed: boolean) => void) {
+        super(app);
+        this.changes = changes;
+        this.onSubmit = onSubmit;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.addClass('bible-link-preview-modal');
+
+        contentEl.createEl('h2', { text: 'Link bible references' });
+
+        const total = this.changes.reduce((sum, change) => sum + change.count, 0);
+        contentEl.createEl('p', {
+            text: `${total} references in ${this.changes.length} notes would be linked. The last run can be undone with the "Undo last bible reference linking in this session" command until Obsidian restarts.`,
+            cls: 'bible-link-preview-description'
+        });
+
+        const list = contentEl.createEl('ul', { cls: 'bible-link-preview-list' });
+        for (const change of this.changes) {
+            list.createEl('li', { text: `${change.path}: ${change.count}` });
+        }
+
+        // Action buttons
+        const buttonContainer = contentEl.createDiv({ cls: 'bible-link-preview-buttons' });
+
+        const linkButton = buttonContainer.createEl('button', {
+            text: 'Link references',
+            cls: 'mod-cta'
+        });
+        linkButton.addEventListener('click', () => {
+            this.submitted = true;
+            this.onSubmit(true);
+            this.close();
+        });
+
+        const cancelButton = buttonContainer.createEl('button', {
+            text: 'Cancel'
+        });
+        cancelButton.addEventListener('click', () => {
+            this.close();
+        });
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+        if (!this.submitted) {
+            this.onSubmit(false);
+        }
+    }
+}
+
+/**
+ * Opens the preview and resolves with true if the user confirmed the changes
+ */
+export function confirmBibleLinking(app: App, changes: BibleLinkFileChange[]): Promise<boolean> {
+    return new Promise(resolve => {
+        new BibleLinkPreviewModal(app, changes, resolve).open();
+    });
+}
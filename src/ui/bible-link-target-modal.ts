@@ -0,0 +1,29 @@
+/**
+ * Picker for the place Bible references are linked to, for commands that
+ * override the link target from settings
+ */
+
+import { App, FuzzySuggestModal } from 'obsidian';
+import { BIBLE_LINK_TARGETS, BibleLinkTarget } from '../utils/bible-link-targets';
+
+export class BibleLinkTargetModal extends FuzzySuggestModal<BibleLinkTarget> {
+    private onChoose: (target: BibleLinkTarget) => void;
+
+    constructor(app: App, onChoose: (target: BibleLinkTarget) => void) {
+        super(app);
+        this.onChoose = onChoose;
+        this.setPlaceholder('Link bible references to...');
+    }
+
+    getItems(): BibleLinkTarget[] {
+        return BIBLE_LINK_TARGETS;
+    }
+
+    getItemText(target: BibleLinkTarget): string {
+        return target.name;
+    }
+
+    onChooseItem(target: BibleLinkTarget): void {
+        this.onChoose(target);
+    }
+}
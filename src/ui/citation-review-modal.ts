@@ -0,0 +1,149 @@
+/**
+ * Modal for reviewing an uncertain citation parse before any note is written.
+ * Shows the detected format, confidence and missing fields, and lets the user
+ * correct the parsed fields and the target note name.
+ */
+
+import { App, Modal, Setting } from 'obsidian';
+import { ParsedCitation } from '../types';
+import { formatContributorName, replaceAuthorContributors } from '../utils/name-parser';
+
+/**
+ * The reviewed citation and the note it should be written to
+ */
+export interface CitationReviewResult {
+    citation: ParsedCitation;
+    noteName: string;
+}
+
+/**
+ * Editable citation fields and their labels
+ */
+const EDITABLE_FIELDS: [keyof ParsedCitation & ('title' | 'articleTitle' | 'containerTitle' | 'author' | 'year' | 'publisher' | 'pages' | 'citeKey'), string][] = [
+    ['title', 'Title'],
+    ['articleTitle', 'Article title'],
+    ['containerTitle', 'Containing work'],
+    ['author', 'Author'],
+    ['year', 'Year'],
+    ['publisher', 'Publisher'],
+    ['pages', 'Pages'],
+    ['citeKey', 'Cite key'],
+];
+
+export class CitationReviewModal extends Modal {
+    private citation: ParsedCitation;
+    private noteName: string;
+    private onSubmit: (result: CitationReviewResult | null) => void;
+    private submitted = false;
+
+    constructor(app: App, citation: ParsedCitation, noteName: string, onSubmit: (result: CitationReviewResult | null) => void) {
+        super(app);
+        this.citation = { ...citation };
+        this.noteName = noteName;
+        this.onSubmit = onSubmit;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.addClass('citation-review-modal');
+
+        contentEl.createEl('h2', { text: 'Review citation' });
+
+        const confidence = Math.round((this.citation.confidence ?? 0) * 100);
+        contentEl.createEl('p', {
+            text: `Detected format: ${this.citation.format}. Confidence: ${confidence}%.`,
+            cls: 'citation-review-description'
+        });
+
+        if (this.citation.missingFields && this.citation.missingFields.length > 0) {
+            contentEl.createEl('p', {
+                text: `Missing: ${this.citation.missingFields.join(', ')}`,
+                cls: 'citation-review-missing'
+            });
+        }
+
+        for (const [field, label] of EDITABLE_FIELDS) {
+            new Setting(contentEl)
+                .setName(label)
+                .addText((text) =>
+                    text
+                        .setValue(this.citation[field] || '')
+                        .onChange((value) => {
+                            this.updateField(field, value.trim());
+                        })
+                );
+        }
+
+        new Setting(contentEl)
+            .setName('Note name')
+            .setDesc('The reference note the citation is added to')
+            .addText((text) =>
+                text
+                    .setValue(this.noteName)
+                    .onChange((value) => {
+                        this.noteName = value.trim();
+                    })
+            );
+
+        // Action buttons
+        const buttonContainer = contentEl.createDiv({ cls: 'citation-review-buttons' });
+
+        const createButton = buttonContainer.createEl('button', {
+            text: 'Insert citation',
+            cls: 'mod-cta'
+        });
+        createButton.addEventListener('click', () => {
+            if (!this.noteName) return;
+            this.submitted = true;
+            this.onSubmit({ citation: this.citation, noteName: this.noteName });
+            this.close();
+        });
+
+        const cancelButton = buttonContainer.createEl('button', {
+            text: 'Cancel'
+        });
+        cancelButton.addEventListener('click', () => {
+            this.close();
+        });
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+        if (!this.submitted) {
+            this.onSubmit(null);
+        }
+    }
+
+    /**
+     * Applies an edit to the citation. The title also replaces the cleaned title
+     * used in callouts, and the author the contributors written to frontmatter.
+     */
+    private updateField(field: typeof EDITABLE_FIELDS[number][0], value: string): void {
+        if (field === 'citeKey') {
+            this.citation.citeKey = value || 'unknown';
+            return;
+        }
+
+        if (field === 'author') {
+            const contributors = replaceAuthorContributors(this.citation.contributors || [], this.citation.author, value || null);
+            this.citation.contributors = contributors;
+            this.citation.editors = contributors.filter(c => c.role === 'editor').map(c => formatContributorName(c));
+        }
+
+        this.citation[field] = value || null;
+        if (field === 'title') {
+            this.citation.cleanedTitle = value ? value.replace(/\[([^\]]+)\]\([^)]+\)/g, '$1').replace(/[[\]]/g, '') : null;
+        }
+    }
+}
+
+/**
+ * Opens the review modal and resolves with the reviewed citation, or null if cancelled
+ */
+export function reviewCitation(app: App, citation: ParsedCitation, noteName: string): Promise<CitationReviewResult | null> {
+    return new Promise(resolve => {
+        new CitationReviewModal(app, citation, noteName, resolve).open();
+    });
+}
@@ -0,0 +1,27 @@
+/**
+ * Picker for a vault folder, for commands that work on every note in a folder
+ */
+
+import { App, FuzzySuggestModal, TFolder } from 'obsidian';
+
+export class FolderPickerModal extends FuzzySuggestModal<TFolder> {
+    private onChoose: (folder: TFolder) => void;
+
+    constructor(app: App, onChoose: (folder: TFolder) => void) {
+        super(app);
+        this.onChoose = onChoose;
+        this.setPlaceholder('Choose a folder...');
+    }
+
+    getItems(): TFolder[] {
+        return this.app.vault.getAllLoadedFiles().filter((f): f is TFolder => f instanceof TFolder);
+    }
+
+    getItemText(folder: TFolder): string {
+        return folder.isRoot() ? '/' : folder.path;
+    }
+
+    onChooseItem(folder: TFolder): void {
+        this.onChoose(folder);
+    }
+}
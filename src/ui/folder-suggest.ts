@@ -2,7 +2,8 @@
  * Custom auto-completion and suggestion engine for Logos References
  */
 
-import { AbstractInputSuggest, App, TFolder } from "obsidian";
+import { AbstractInputSuggest, App, TAbstractFile, TFile, TFolder } from "obsidian";
+import { BIBLE_TEXT_EXTENSIONS } from "../utils/bible-text";
 
 /**
  * Enhanced suggestion engine tailored for folder selection
@@ -28,3 +29,29 @@ export class FolderSuggest extends AbstractInputSuggest<TFolder> {
         this.close();
     }
 }
+
+/**
+ * Suggests local Bibles: folders and OSIS, USFM or JSON files
+ */
+export class BibleTextSuggest extends AbstractInputSuggest<TAbstractFile> {
+    constructor(app: App, inputEl: HTMLInputElement) {
+        super(app, inputEl);
+    }
+
+    getSuggestions(query: string): TAbstractFile[] {
+        const lowerCaseQuery = query.toLowerCase();
+        return this.app.vault.getAllLoadedFiles()
+            .filter(f => (f instanceof TFolder || (f instanceof TFile && BIBLE_TEXT_EXTENSIONS.includes(f.extension.toLowerCase())))
+                && f.path.toLowerCase().includes(lowerCaseQuery))
+            .slice(0, 100);
+    }
+
+    renderSuggestion(file: TAbstractFile, el: HTMLElement): void {
+        el.setText(file.path);
+    }
+
+    selectSuggestion(file: TAbstractFile): void {
+        this.setValue(file.path);
+        this.close();
+    }
+}
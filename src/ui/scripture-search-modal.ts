@@ -0,0 +1,36 @@
+/**
+ * Search for the notes that reference a passage, e.g. "Romans 8" finds notes
+ * discussing Romans 8:28 or Romans 7-8
+ */
+
+import { App, SuggestModal } from 'obsidian';
+import { BibleLinkOptions } from '../types';
+import { formatPassage } from '../utils/bible-link-targets';
+import { parseBibleReferences } from '../utils/bible-linker';
+import { ScriptureReference, findOverlappingReferences } from '../utils/scripture-index';
+
+export class ScriptureSearchModal extends SuggestModal<ScriptureReference> {
+    private references: ScriptureReference[];
+    private options: BibleLinkOptions;
+
+    constructor(app: App, references: ScriptureReference[], options: BibleLinkOptions) {
+        super(app);
+        this.references = references;
+        this.options = options;
+        this.setPlaceholder('Type a bible reference...');
+    }
+
+    getSuggestions(query: string): ScriptureReference[] {
+        const passage = parseBibleReferences(query, this.options).find(reference => reference.valid)?.passage;
+        return passage ? findOverlappingReferences(this.references, passage) : [];
+    }
+
+    renderSuggestion(reference: ScriptureReference, el: HTMLElement): void {
+        el.createDiv({ text: formatPassage(reference.passage) });
+        el.createEl('small', { text: `${reference.path}${reference.subpath}` });
+    }
+
+    onChooseSuggestion(reference: ScriptureReference): void {
+        void this.app.workspace.openLinkText(`${reference.path}${reference.subpath}`, '');
+    }
+}
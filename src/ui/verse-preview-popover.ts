@@ -0,0 +1,46 @@
+/**
+ * Hover popover showing the text of a linked Bible passage
+ */
+
+import { HoverParent, HoverPopover } from 'obsidian';
+
+/**
+ * A verse of the previewed passage and its text
+ */
+export interface PreviewVerse {
+    chapter: number;
+    verse: number;
+    text: string;
+}
+
+/**
+ * Delay before the popover opens, in milliseconds
+ */
+const PREVIEW_WAIT_TIME = 300;
+
+export class VersePreviewPopover extends HoverPopover {
+    /**
+     * @param title The passage and translation, e.g. "John 3:16 (KJV)"
+     * @param truncated Whether the passage goes on past the verses shown
+     */
+    constructor(parent: HoverParent, targetEl: HTMLElement, title: string, verses: PreviewVerse[], truncated: boolean) {
+        super(parent, targetEl, PREVIEW_WAIT_TIME);
+        this.hoverEl.addClass('bible-verse-preview');
+
+        this.hoverEl.createDiv({ cls: 'bible-verse-preview-title', text: title });
+        const textEl = this.hoverEl.createDiv({ cls: 'bible-verse-preview-text' });
+
+        // Verse numbers name the chapter where a passage crosses into the next one
+        let chapter = verses[0]?.chapter;
+        for (const verse of verses) {
+            const number = verse.chapter !== chapter ? `${verse.chapter}:${verse.verse}` : String(verse.verse);
+            chapter = verse.chapter;
+            textEl.createEl('sup', { cls: 'bible-verse-preview-number', text: number });
+            textEl.appendText(` ${verse.text} `);
+        }
+
+        if (truncated) {
+            textEl.createSpan({ cls: 'bible-verse-preview-more', text: '…' });
+        }
+    }
+}
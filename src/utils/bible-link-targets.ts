@@ -0,0 +1,170 @@
+/**
+ * Link targets for Bible references: Logos (ref.ly or the app), Bible websites
+ * and wikilinks into a Bible kept in the vault
+ */
+
+import { BOOK_DETAILS } from '../constants/bible-books';
+import { BibleTranslation } from '../constants/bible-translations';
+import { BibleLinkOptions, BibleLinkTargetId, BiblePassage, DEFAULT_SETTINGS } from '../types';
+
+/**
+ * A place Bible references can link to
+ */
+export interface BibleLinkTarget {
+    id: BibleLinkTargetId;
+    /** Name shown in settings and the target picker */
+    name: string;
+    /** Renders the display text as a link to the passage in a translation */
+    render(display: string, passage: BiblePassage, translation: BibleTranslation, options: BibleLinkOptions): string;
+    /** Embeds the passage's text, or returns null if it cannot be embedded */
+    embed?(passage: BiblePassage, options: BibleLinkOptions): string | null;
+}
+
+/**
+ * Returns the Logos reference for a passage, e.g. "Jn3.16", "Ge1.1-2.3" or "Ps1-2"
+ */
+export function logosReference(passage: BiblePassage): string {
+    const { bookCode, chapter, verse, endChapter, endVerse } = passage;
+    let ref = verse !== null ? `${bookCode}${chapter}.${verse}` : `${bookCode}${chapter}`;
+    if (endChapter !== null && endVerse !== null) {
+        ref += `-${endChapter}.${endVerse}`;
+    } else if (endChapter !== null || endVerse !== null) {
+        ref += `-${endChapter ?? endVerse}`;
+    }
+    return ref;
+}
+
+/**
+ * Returns the OSIS reference for a passage, e.g. "John.3.16" or "Gen.1.1-Gen.2.3"
+ */
+export function osisReference(passage: BiblePassage): string {
+    const book = BOOK_DETAILS[passage.bookCode]?.osis || passage.bookCode;
+    const start = passage.verse !== null ? `${book}.${passage.chapter}.${passage.verse}` : `${book}.${passage.chapter}`;
+    if (passage.endChapter === null && passage.endVerse === null) return start;
+
+    const endChapter = passage.endChapter ?? passage.chapter;
+    const end = passage.endVerse !== null ? `${book}.${endChapter}.${passage.endVerse}` : `${book}.${endChapter}`;
+    return `${start}-${end}`;
+}
+
+/**
+ * Returns a passage as plain text with the full book name, e.g. "John 3:16-4:2"
+ */
+export function formatPassage(passage: BiblePassage): string {
+    const book = BOOK_DETAILS[passage.bookCode]?.name || passage.bookCode;
+    let text = passage.verse !== null ? `${book} ${passage.chapter}:${passage.verse}` : `${book} ${passage.chapter}`;
+    if (passage.endChapter !== null && passage.endVerse !== null) {
+        text += `-${passage.endChapter}:${passage.endVerse}`;
+    } else if (passage.endChapter !== null || passage.endVerse !== null) {
+        text += `-${passage.endChapter ?? passage.endVerse}`;
+    }
+    return text;
+}
+
+/**
+ * Returns the vault path (and heading) a wikilink to the passage points at,
+ * built from the local Bible folder and link template
+ */
+export function localBibleLinkTarget(passage: BiblePassage, options: BibleLinkOptions): string {
+    const details = BOOK_DETAILS[passage.bookCode];
+    const values: Record<string, string> = {
+        book: details?.name || passage.bookCode,
+        osis: details?.osis || passage.bookCode,
+        code: passage.bookCode,
+        chapter: String(passage.chapter),
+        verse: passage.verse !== null ? String(passage.verse) : '',
+    };
+
+    let template = options.localBibleLinkTemplate || DEFAULT_SETTINGS.localBibleLinkTemplate;
+    if (passage.verse === null) {
+        template = template.replace(/#.*$/, '');
+    }
+
+    const target = template.replace(/\{(\w+)\}/g, (placeholder: string, key: string) => values[key] ?? placeholder);
+    const folder = (options.localBibleFolder || '').replace(/\/+$/, '');
+    return folder ? `${folder}/${target}` : target;
+}
+
+/**
+ * Returns true if the vault Bible note a link target points at exists, or if
+ * there is no way to check
+ */
+function localNoteExists(linkTarget: string, options: BibleLinkOptions): boolean {
+    return !options.localNoteExists || options.localNoteExists(linkTarget.replace(/#.*$/, ''));
+}
+
+/**
+ * Embeds a vault Bible passage: a whole chapter note, or each verse of a range
+ * within one chapter. Cross-chapter ranges and missing notes are not embedded.
+ */
+export function embedLocalPassage(passage: BiblePassage, options: BibleLinkOptions): string | null {
+    if (passage.endChapter !== null && passage.endChapter !== passage.chapter) return null;
+    if (!localNoteExists(localBibleLinkTarget(passage, options), options)) return null;
+
+    if (passage.verse === null) {
+        return `![[${localBibleLinkTarget(passage, options)}]]`;
+    }
+
+    const embeds: string[] = [];
+    for (let verse = passage.verse; verse <= (passage.endVerse ?? passage.verse); verse++) {
+        embeds.push(`![[${localBibleLinkTarget({ ...passage, verse, endChapter: null, endVerse: null }, options)}]]`);
+    }
+    return embeds.join(' ');
+}
+
+const refly: BibleLinkTarget = {
+    id: 'refly',
+    name: 'Logos (ref.ly)',
+    render: (display, passage, translation) =>
+        `[${display}](https://ref.ly/${logosReference(passage)};${translation.logosCode})`,
+};
+
+/**
+ * Available link targets, in the order they are offered
+ */
+export const BIBLE_LINK_TARGETS: BibleLinkTarget[] = [
+    refly,
+    {
+        id: 'logos',
+        name: 'Logos app (logosref:)',
+        render: (display, passage) => `[${display}](logosref:Bible.${logosReference(passage)})`,
+    },
+    {
+        id: 'biblegateway',
+        name: 'Bible Gateway',
+        render: (display, passage, translation) =>
+            `[${display}](https://www.biblegateway.com/passage/?search=${encodeURIComponent(formatPassage(passage))}&version=${translation.abbreviation})`,
+    },
+    {
+        id: 'blueletterbible',
+        name: 'Blue Letter Bible',
+        render: (display, passage, translation, options) => {
+            const book = BOOK_DETAILS[passage.bookCode]?.blb;
+            // Blue Letter Bible has no deuterocanon, so those books stay on ref.ly
+            if (!book) return refly.render(display, passage, translation, options);
+            return `[${display}](https://www.blueletterbible.org/${translation.abbreviation.toLowerCase()}/${book}/${passage.chapter}/${passage.verse ?? 1}/)`;
+        },
+    },
+    {
+        id: 'step',
+        name: 'STEP Bible',
+        render: (display, passage, translation) =>
+            `[${display}](https://www.stepbible.org/?q=${encodeURIComponent(`version=${translation.abbreviation}|reference=${osisReference(passage)}`)})`,
+    },
+    {
+        id: 'wikilink',
+        name: 'Bible in this vault (wikilinks)',
+        render: (display, passage, _translation, options) => {
+            const linkTarget = localBibleLinkTarget(passage, options);
+            return localNoteExists(linkTarget, options) ? `[[${linkTarget}|${display}]]` : display;
+        },
+        embed: embedLocalPassage,
+    },
+];
+
+/**
+ * Returns the link target with the given ID, falling back to ref.ly
+ */
+export function getBibleLinkTarget(id: BibleLinkTargetId | undefined): BibleLinkTarget {
+    return BIBLE_LINK_TARGETS.find(target => target.id === id) || refly;
+}
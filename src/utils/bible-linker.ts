@@ -2,91 +2,365 @@
  * Utility functions for Bible verse detection and Logos linking
  */
 
-import { BIBLE_BOOKS, VERSION_MAPPING } from '../constants/bible-books';
+import { BOOK_NAME_PACKS } from '../constants/bible-book-names';
+import { BIBLE_BOOKS, DEUTEROCANONICAL_BOOKS } from '../constants/bible-books';
+import { BibleTranslation } from '../constants/bible-translations';
+import { BibleLinkOptions, BiblePassage, BibleReference, BibleReferenceStyle } from '../types';
+import { getBibleLinkTarget } from './bible-link-targets';
+import { restyleReference, romanToNumber } from './bible-reference-style';
+import { findTranslationByAbbreviation, resolveTranslation, translationIncludesBook } from './bible-translations';
+import { findNonProseRanges, firstRangeWithin, rangeAt } from './markdown-ranges';
+import { getChapterVerses, isValidReference } from './versification';
 
 /**
- * Detects Bible verse references in text and converts them to Logos links
- * Supports formats like "John 3:16", "Jn 3:16", "Genesis 1:1-5", "1 John 1:9"
+ * Words that are also book abbreviations; a bare "Is 5" or "Am 3" in prose is far
+ * more likely English than Isaiah or Amos, and so is a lowercase "am 5:15"
  */
-export function linkBibleVerses(text: string, version: string = 'esv'): string {
-    const logosVersion = VERSION_MAPPING[version.toLowerCase()] || version;
+const CHAPTER_ONLY_EXCLUDED = new Set(['am', 'is', 'so', 'ex', 're', 'la', 'ho', 'na', 'mi', 'de', 'es', 'ob']);
+
+/**
+ * Builds a passage from matched numbers. A range either stays within the chapter
+ * (Ge 1:1-5), crosses chapters (Ge 1:1-2:3) or spans whole chapters (Ps 1-2).
+ */
+function buildPassage(bookCode: string, chapter: string, verse?: string, endChapter?: string, endVerse?: string): BiblePassage {
+    return {
+        bookCode,
+        chapter: Number(chapter),
+        verse: verse ? Number(verse) : null,
+        endChapter: endChapter ? Number(endChapter) : null,
+        endVerse: endVerse ? Number(endVerse) : null,
+    };
+}
+
+/**
+ * Collects the book names of the enabled language packs
+ */
+function languageBooks(options: BibleLinkOptions): Record<string, string> {
+    const books: Record<string, string> = {};
+    for (const language of options.languages || []) {
+        Object.assign(books, BOOK_NAME_PACKS[language]?.books);
+    }
+    return books;
+}
+
+/**
+ * Looks up the ref.ly code for a book name such as "1 John", "II Kings", "Wisdom of Solomon" or "1. Kor"
+ */
+function resolveBookCode(name: string, books: Record<string, string>): string | undefined {
+    const normalized = name.normalize('NFC').toLowerCase().replace(/[\s.]+/g, '');
+    if (books[normalized]) return books[normalized];
+    return books[normalized.replace(/^iv/, '4').replace(/^iii/, '3').replace(/^ii/, '2').replace(/^i/, '1')];
+}
+
+/**
+ * Returns true if the text starts with a numbered book such as "1 John" or "2 Macc"
+ */
+function startsNumberedBook(text: string, books: Record<string, string>): boolean {
+    const match = text.match(/^\s*([1-4]\s*\p{L}+)/u);
+    return match !== null && resolveBookCode(match[1], books) !== undefined;
+}
+
+/**
+ * Returns true if the span is all there is on its line, apart from block quote markers
+ */
+function isStandalone(text: string, start: number, end: number): boolean {
+    const lineStart = text.lastIndexOf('\n', start - 1) + 1;
+    const lineEnd = text.indexOf('\n', end);
+    const before = text.substring(lineStart, start);
+    const after = text.substring(end, lineEnd === -1 ? text.length : lineEnd);
+    return /^\s*(?:>\s*)*$/.test(before) && !after.trim();
+}
+
+/**
+ * Reads a translation marker right after a reference: "John 3:16 (KJV)" or "John 3:16 NASB".
+ * Only registered abbreviations count, so ordinary words are never taken for one.
+ */
+function readTranslationMarker(text: string, offset: number, options: BibleLinkOptions): BibleTranslation | null {
+    const marker = text.substring(offset).match(/^\s*\(([A-Za-z0-9]+)\)|^[ \t]+([A-Z][A-Z0-9]+)\b/);
+    if (!marker) return null;
+    return findTranslationByAbbreviation(marker[1] || marker[2], options.customTranslations);
+}
+
+/**
+ * Resolves the end verse of a range. "f" adds the following verse; "ff" has no
+ * known end, so only the first verse is linked.
+ */
+function rangeEnd(verse: string, following?: string, endVerse?: string): string | undefined {
+    if (endVerse) return endVerse;
+    return following === 'f' ? String(Number(verse) + 1) : undefined;
+}
+
+/**
+ * Finds the Bible references in text, in order.
+ * Supports formats like "John 3:16", "Jn 3:16", "Genesis 1:1-5", "1 John 1:9",
+ * cross-chapter ranges ("John 3:16–4:2"), whole chapters ("Romans 8") and
+ * chapter ranges ("Psalms 1–2").
+ * After a full reference, commentary forms such as "v. 4", "vv. 6–8", "ch. 5",
+ * "cf. 12:1" and "; 4:2" reuse its book (and chapter); the separator is not part
+ * of the reference. Partial verses ("3:16a") and following verses ("12:1ff.")
+ * keep their suffix in the text and refer to the whole verse.
+ * Deuterocanonical books are only recognized when `includeDeuterocanon` is set,
+ * and Spanish, German or Portuguese book names ("Juan 3:16", "1. Kor 13") when
+ * their language is in `languages`.
+ * References to chapters or verses a book does not have ("John 33:99", "Jude 2:1")
+ * are returned as invalid. A bare number after a one-chapter book ("Jude 5") is a verse.
+ * Only prose is read: frontmatter, code, math, HTML, existing links, wikilinks
+ * and URLs are skipped.
+ */
+export function parseBibleReferences(text: string, options: BibleLinkOptions = {}): BibleReference[] {
+    // English names win over language packs, which only add names
+    const translatedBooks = languageBooks(options);
+    const books = options.includeDeuterocanon
+        ? { ...translatedBooks, ...BIBLE_BOOKS, ...DEUTEROCANONICAL_BOOKS }
+        : { ...translatedBooks, ...BIBLE_BOOKS };
+    const versification = options.versification || 'english';
+
+    const references: BibleReference[] = [];
+    // Called right after a match, so the regex's lastIndex is where the reference ends
+    // and a translation marker would start
+    const add = (start: number, passage: BiblePassage, valid: boolean, full = false): void => {
+        const end = combinedRegex.lastIndex;
+        references.push({
+            start,
+            end,
+            text: text.substring(start, end),
+            passage,
+            full,
+            valid,
+            translation: valid ? readTranslationMarker(text, end, options)?.abbreviation ?? null : null,
+            standalone: full && isStandalone(text, start, end),
+        });
+    };
+    // A continuing reference starts after its separator: "; 4:2", "(4:38"
+    const afterSeparator = (match: RegExpExecArray, separator: string): number =>
+        match.index + match[0].length - match[0].substring(separator.length).trimStart().length;
 
     let lastBookCode: string | null = null;
     let lastChapter: string | null = null;
-    let finalResult = "";
-    let lastIndex = 0;
+    // True after a whole-chapter reference, where ", 9" is another chapter rather than a verse
+    let chapterOnly = false;
 
     // Combining regexes to process the string chronologically
-    // Pattern 1: Book Chapter:Verse
-    // Pattern 2: separator Chapter:Verse
-    // Pattern 3: separator Verse (only if Book and Chapter are already known)
-    const combinedRegex = /\b((?:[123]|I{1,3})\s*)?([A-Za-z]+)\.?\s+(\d+):(\d+)(?:\s*[-–]\s*(\d+))?\b|([;,(])\s*(\d+):(\d+)(?:\s*[-–]\s*(\d+))?\b|([,])\s*(\d+)(?:\s*[-–]\s*(\d+))?\b/g;
+    // Pattern 1: v./vv. Verse (only if Book and Chapter are already known)
+    // Pattern 2: ch./chs. Chapter (only if Book is already known)
+    // Pattern 3: separator Chapter:Verse, optionally followed by a verse or cross-chapter range
+    //            Chapter and verse may also be separated by a period ("3.16") or a colon and a space
+    // Pattern 4: Book Chapter(:Verse) (book names may span words: "Song of Songs", "Bel and the Dragon"), optionally followed by a verse, chapter or cross-chapter range
+    //            Book names may contain any letter ("Éxodo", "Römer") and German ordinals carry a period ("1. Mose")
+    //            Older works give chapters in lowercase roman numerals ("John iii. 16")
+    // Pattern 5: separator Verse (only if Book and Chapter are already known)
+    // Verses may carry a partial-verse suffix (a-d) or "f"/"ff"
+    const combinedRegex = /\b(vv?\.)\s*(\d+)(?:[a-d]|(ff?))?(?:\s*[-–]\s*(\d+)[a-d]?)?\b|\b(chs?\.)\s*(\d+)(?:\s*[-–]\s*(\d+))?\b|([;,(]|\bcf\.)\s*(\d+)(?::\s?|\.)(\d+)(?:[a-d]|(ff?))?(?:\s*[-–]\s*(\d+)(?::(\d+))?[a-d]?)?\b|(?<![\p{L}\p{N}])((?:[1-4]\.?|IV|I{1,3})\s*)?(\p{L}+(?:\s+(?:of|to|and|de)\s+(?:the\s+|los\s+)?\p{L}+)*)\.?\s+(\d+|[ivxl]+(?=\.\s*\d))(?:(?::\s?|(?<=[ivxl])\.\s*|\.)(\d+)(?:[a-d]|(ff?))?)?(?:\s*[-–]\s*(\d+)(?:[:.](\d+))?[a-d]?)?\b(?![.:]\d)|([,])\s*(\d+)(?:[a-d]|(ff?))?(?:\s*[-–]\s*(\d+)[a-d]?)?\b/gu;
+
+    const nonProse = findNonProseRanges(text);
 
     let match;
     while ((match = combinedRegex.exec(text)) !== null) {
-        // Add text before the match
-        finalResult += text.substring(lastIndex, match.index);
-
-        if (match[2]) {
-            // Full reference match (Book Chapter:Verse)
-            const prefix = match[1];
-            const book = match[2];
-            const chapter = match[3];
-            const verse = match[4];
-            const endVerse = match[5];
-
-            let normalizedBook = ((prefix || '') + book).toLowerCase().replace(/\s+/g, '');
-            if (!BIBLE_BOOKS[normalizedBook]) {
-                normalizedBook = normalizedBook.replace(/^iii/, '3').replace(/^ii/, '2').replace(/^i/, '1');
+        const skipped = rangeAt(nonProse, match.index);
+        if (skipped) {
+            // Inside code, a link or a URL: carry on after it
+            combinedRegex.lastIndex = skipped.end;
+            continue;
+        }
+        if (firstRangeWithin(nonProse, match.index, combinedRegex.lastIndex)) {
+            // Runs into code or a link ("John 3:`16`"): rescan from the next character
+            combinedRegex.lastIndex = match.index + 1;
+            continue;
+        }
+
+        if (match[1]) {
+            // Verse match (v. Verse / vv. Verse-Verse)
+            if (lastBookCode && lastChapter) {
+                const endVerse = rangeEnd(match[2], match[3], match[4]);
+                const passage = buildPassage(lastBookCode, lastChapter, match[2], undefined, endVerse);
+                add(match.index, passage, isValidReference(lastBookCode, lastChapter, match[2], undefined, endVerse, versification));
+            }
+        } else if (match[5]) {
+            // Chapter match (ch. Chapter / chs. Chapter-Chapter)
+            if (lastBookCode) {
+                const valid = isValidReference(lastBookCode, match[6], undefined, match[7], undefined, versification);
+                if (valid) {
+                    lastChapter = match[7] || match[6];
+                    chapterOnly = !match[7];
+                }
+                add(match.index, buildPassage(lastBookCode, match[6], undefined, match[7]), valid);
+            }
+        } else if (match[8] && lastBookCode) {
+            // Sequential match (separator Chapter:Verse[-range])
+            const chapter = match[9];
+            const verse = match[10];
+            const endChapter = match[13] ? match[12] : undefined;
+            const endVerse = match[13] || rangeEnd(verse, match[11], match[12]);
+
+            const valid = isValidReference(lastBookCode, chapter, verse, endChapter, endVerse, versification);
+            if (valid) {
+                lastChapter = endChapter || chapter;
+                chapterOnly = false;
+            }
+            add(afterSeparator(match, match[8]), buildPassage(lastBookCode, chapter, verse, endChapter, endVerse), valid);
+        } else if (match[15]) {
+            // Full reference match (Book Chapter[:Verse][-range])
+            const prefix = match[14];
+            const book = match[15];
+            let chapter = match[16];
+            let verse = match[17];
+            // "3:16-18" ends on a verse, "3:16-4:2" on a chapter and verse, "1-2" on a chapter
+            let endChapter = match[20] || !verse ? match[19] : undefined;
+            let endVerse = match[20] || (verse ? rangeEnd(verse, match[18], match[19]) : undefined);
+
+            // "1. John" is a sentence ending in 1 followed by John; only German names take an ordinal period
+            const bookCode = resolveBookCode((prefix || '') + book, prefix?.includes('.') ? translatedBooks : books);
+
+            // A chapter without a verse, or in roman numerals, is only a reference after a capitalized, unambiguous book name.
+            // Lowercase words that are also book abbreviations ("I am 5:15 late") are never references.
+            const capitalized = /^[\p{Lu}1-4]/u.test((prefix || '') + book);
+            const ambiguous = CHAPTER_ONLY_EXCLUDED.has(book.toLowerCase());
+            const unambiguous = capitalized && !ambiguous;
+            const romanChapter = /^[ivxl]+$/.test(chapter);
+            const chapterOnlyAllowed = ambiguous && !capitalized
+                ? false
+                : romanChapter ? unambiguous && verse !== undefined : verse !== undefined || unambiguous;
+            if (romanChapter) {
+                chapter = String(romanToNumber(chapter));
+            }
+
+            if (bookCode && !verse && getChapterVerses(bookCode, versification)?.length === 1) {
+                // "Jude 5" and "Phlm 8–10" name verses of the only chapter
+                verse = chapter;
+                endVerse = endChapter;
+                chapter = '1';
+                endChapter = undefined;
             }
-            const bookCode = BIBLE_BOOKS[normalizedBook];
 
-            if (bookCode) {
-                lastBookCode = bookCode;
-                lastChapter = chapter;
-                const ref = endVerse ? `${bookCode}${chapter}.${verse}-${endVerse}` : `${bookCode}${chapter}.${verse}`;
-                finalResult += `[${match[0]}](https://ref.ly/${ref};${logosVersion})`;
+            if (bookCode && chapterOnlyAllowed) {
+                const valid = isValidReference(bookCode, chapter, verse, endChapter, endVerse, versification);
+                lastBookCode = valid ? bookCode : null;
+                lastChapter = valid ? endChapter || chapter : null;
+                chapterOnly = !verse;
+                add(match.index, buildPassage(bookCode, chapter, verse, endChapter, endVerse), valid, true);
             } else {
-                lastBookCode = null;
-                lastChapter = null;
-                finalResult += match[0];
+                // "and vv. 6" only looked like a roman chapter, so the context stays
+                if (verse && !romanChapter) {
+                    lastBookCode = null;
+                    lastChapter = null;
+                }
+                // Rescan from the next word so a number swallowed here ("see 1 John 1:9")
+                // can still start a reference
+                combinedRegex.lastIndex = match.index + 1;
             }
-        } else if (match[6] && lastBookCode) {
-            // Sequential match (separator Chapter:Verse)
-            const separator = match[6];
-            const chapter = match[7];
-            const verse = match[8];
-            const endVerse = match[9];
-
-            lastChapter = chapter;
-            const ref = endVerse ? `${lastBookCode}${chapter}.${verse}-${endVerse}` : `${lastBookCode}${chapter}.${verse}`;
-            const contentToLink = match[0].substring(separator.length).trim();
-            const spacing = separator === '(' ? '' : ' ';
-            finalResult += `${separator}${spacing}[${contentToLink}](https://ref.ly/${ref};${logosVersion})`;
-        } else if (match[10] && lastBookCode && lastChapter) {
+        } else if (match[21] && startsNumberedBook(text.substring(match.index + 1), books)) {
+            // ", 2 Macc 7:28" starts a new reference rather than listing verse 2
+            combinedRegex.lastIndex = match.index + 1;
+        } else if (match[21] && lastBookCode && lastChapter && !chapterOnly) {
             // Sequential match (separator Verse only)
-            const separator = match[10];
-            const verse = match[11];
-            const endVerse = match[12];
-
-            const ref = endVerse ? `${lastBookCode}${lastChapter}.${verse}-${endVerse}` : `${lastBookCode}${lastChapter}.${verse}`;
-            const contentToLink = match[0].substring(separator.length).trim();
-            const spacing = separator === '(' ? '' : ' ';
-            finalResult += `${separator}${spacing}[${contentToLink}](https://ref.ly/${ref};${logosVersion})`;
-        } else {
-            finalResult += match[0];
+            const verse = match[22];
+            const endVerse = rangeEnd(verse, match[23], match[24]);
+
+            const valid = isValidReference(lastBookCode, lastChapter, verse, undefined, endVerse, versification);
+            add(afterSeparator(match, match[21]), buildPassage(lastBookCode, lastChapter, verse, undefined, endVerse), valid);
+        }
+    }
+
+    return references;
+}
+
+/**
+ * Renders parsed references back into the text they were parsed from, as links to
+ * Logos ref.ly by default or to the link target named in `options.target`.
+ * `version` is a translation key or abbreviation; a reference followed by a
+ * translation marker ("John 3:16 (KJV)", "John 3:16 NASB") links to the named
+ * translation, unless the translation lacks the book.
+ * Invalid references are left as they are, or highlighted when `flagInvalidReferences` is set.
+ * With `embedLocalVerses`, a vault Bible reference on a line of its own is
+ * embedded instead of linked.
+ * With `style`, references are rewritten in that style and only linked if it says so.
+ */
+export function renderBibleReferences(text: string, references: BibleReference[], version: string = 'esv', options: BibleLinkOptions = {}): string {
+    const target = getBibleLinkTarget(options.target);
+    const defaultTranslation = resolveTranslation(version, options.customTranslations);
+
+    const render = (reference: BibleReference): string => {
+        if (!reference.valid) {
+            // A reference followed by "==" was highlighted by an earlier run
+            return options.flagInvalidReferences && !text.startsWith('==', reference.end)
+                ? `==${reference.text}==`
+                : reference.text;
+        }
+
+        const { passage } = reference;
+        if (reference.standalone && options.embedLocalVerses && target.embed) {
+            const embed = target.embed(passage, options);
+            if (embed !== null) return embed;
         }
 
-        lastIndex = combinedRegex.lastIndex;
+        const marked = reference.translation ? findTranslationByAbbreviation(reference.translation, options.customTranslations) : null;
+        const translation = marked && translationIncludesBook(marked, passage.bookCode) ? marked : defaultTranslation;
+        let display = reference.text;
+        if (options.style) {
+            display = restyleReference(display, passage, options.style, reference.full);
+            if (!options.style.link) return display;
+        }
+        return target.render(display, passage, translation, options);
+    };
+
+    let result = '';
+    let lastIndex = 0;
+    for (const reference of references) {
+        result += text.substring(lastIndex, reference.start) + render(reference);
+        lastIndex = reference.end;
     }
+    return result + text.substring(lastIndex);
+}
+
+/**
+ * Detects Bible verse references in text and converts them to links; see
+ * parseBibleReferences for what is recognized and renderBibleReferences for how
+ * it is linked. Linking already linked text changes nothing.
+ */
+export function linkBibleVerses(text: string, version: string = 'esv', options: BibleLinkOptions = {}): string {
+    return renderBibleReferences(text, parseBibleReferences(text, options), version, options);
+}
 
-    finalResult += text.substring(lastIndex);
-    return finalResult;
+/**
+ * Returns true if a full reference names its book the way prose never does:
+ * capitalized, and not a word such as "Am" or "Is"
+ */
+function isUnambiguousReference(reference: BibleReference): boolean {
+    const book = reference.text.match(/^(?:[1-4]\.?\s*|(?:IV|I{1,3})\s+)?(\p{L}+)/u);
+    return book !== null && /^[\p{Lu}1-4]/u.test(reference.text) && !CHAPTER_ONLY_EXCLUDED.has(book[1].toLowerCase());
+}
+
+/**
+ * Rewrites the references in text in one style, e.g. "Jn 3.16", "John iii. 16" and
+ * "John 3: 16" all become "John 3:16". Only prose is rewritten.
+ * Since nothing is previewed, only valid references after a capitalized, unambiguous
+ * book name (and the references continuing them) are rewritten; "Am 5:15" could be
+ * English, and invalid references are never highlighted.
+ */
+export function normalizeBibleReferences(text: string, style: BibleReferenceStyle, version: string = 'esv', options: BibleLinkOptions = {}): string {
+    const normalizeOptions: BibleLinkOptions = { ...options, style, embedLocalVerses: false, flagInvalidReferences: false };
+    let unambiguous = false;
+    const references = parseBibleReferences(text, normalizeOptions).filter(reference => {
+        if (reference.full) {
+            unambiguous = isUnambiguousReference(reference);
+        }
+        return unambiguous && reference.valid;
+    });
+    return renderBibleReferences(text, references, version, normalizeOptions);
+}
+
+/**
+ * Counts the references linking changed: links and embeds added, and references highlighted
+ */
+export function countLinkedReferences(before: string, after: string): number {
+    const highlights = (text: string) => (text.match(/==[^=\n]+==/g) || []).length;
+    return findNonProseRanges(after).length - findNonProseRanges(before).length
+        + highlights(after) - highlights(before);
 }
 
 /**
  * Returns the Logos version code for a given translation
  */
 export function getLogosVersionCode(version: string): string {
-    return VERSION_MAPPING[version.toLowerCase()] || version;
+    return resolveTranslation(version).logosCode;
 }
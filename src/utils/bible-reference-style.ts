@@ -0,0 +1,55 @@
+/**
+ * Rewrites Bible references in a canonical style: book names as full names, SBL
+ * abbreviations or Logos codes, one chapter-verse separator and en-dash ranges
+ */
+
+import { BOOK_DETAILS } from '../constants/bible-books';
+import { BiblePassage, BibleReferenceStyle, BookNameStyle } from '../types';
+
+/**
+ * Converts a lowercase roman numeral such as "xiv" to a number
+ */
+export function romanToNumber(roman: string): number {
+    const values: Record<string, number> = { i: 1, v: 5, x: 10, l: 50 };
+    let total = 0;
+    for (let i = 0; i < roman.length; i++) {
+        const value = values[roman[i]];
+        total += i + 1 < roman.length && value < values[roman[i + 1]] ? -value : value;
+    }
+    return total;
+}
+
+/**
+ * Returns the book name of a passage in a style. A single psalm is "Psalm" ("Ps"
+ * in SBL style), several are "Psalms" ("Pss").
+ */
+export function styleBookName(passage: BiblePassage, style: BookNameStyle): string {
+    const details = BOOK_DETAILS[passage.bookCode];
+    if (!details || style === 'logos') return passage.bookCode;
+
+    const singlePsalm = passage.bookCode === 'Ps' && passage.endChapter === null;
+    if (style === 'sbl') {
+        return passage.bookCode === 'Ps' && !singlePsalm ? 'Pss' : details.sbl;
+    }
+    return singlePsalm ? 'Psalm' : details.name;
+}
+
+/**
+ * Rewrites one reference as matched by the linker. A full reference gets the
+ * book name of the style; references that continue an earlier one ("; 4:2",
+ * "vv. 6-8") keep their form. Roman chapters become numbers, the separator
+ * becomes the style's, and ranges use an en dash. Verse suffixes ("16a", "1ff.") are kept.
+ */
+export function restyleReference(text: string, passage: BiblePassage, style: BibleReferenceStyle, full: boolean): string {
+    // Everything before the chapter: "John ", "1. Kor ", "Song of Songs "
+    const numbers = full ? text.replace(/^.*?\p{L}\.?\s+(?=\d|[ivxl]+\.)/u, '') : text;
+    const book = full ? `${styleBookName(passage, style.book)} ` : '';
+
+    const chapter = full
+        ? numbers.replace(/^([ivxl]+)\.\s*(?=\d)/, (_match, roman: string) => `${romanToNumber(roman)}${style.separator}`)
+        : numbers;
+
+    return book + chapter
+        .replace(/(\d)(?::\s?|\.)(?=\d)/g, `$1${style.separator}`)
+        .replace(/\s*[-–]\s*/g, '–');
+}
@@ -0,0 +1,361 @@
+/**
+ * Verse text from a Bible kept locally: an OSIS, USFM or plain JSON file, or the
+ * chapter notes of a Bible in the vault. Used to preview the text of Bible links.
+ */
+
+import { BIBLE_BOOKS, BOOK_DETAILS, DEUTEROCANONICAL_BOOKS } from '../constants/bible-books';
+import { BiblePassage, Versification } from '../types';
+import { getChapterVerses } from './versification';
+
+/**
+ * Verse text keyed by Logos book code, chapter and verse (see verseKey)
+ */
+export type BibleText = Map<string, string>;
+
+/**
+ * A verse of a passage
+ */
+export interface VerseNumber {
+    chapter: number;
+    verse: number;
+}
+
+/**
+ * Most verses listed for one passage; a whole psalm or a long range is cut off
+ */
+export const PASSAGE_VERSE_LIMIT = 30;
+
+const DEUTEROCANON = new Set(Object.values(DEUTEROCANONICAL_BOOKS));
+
+/**
+ * Protestant books in canonical order, for Bibles that number their books 1–66
+ */
+const NUMBERED_BOOKS = Object.keys(BOOK_DETAILS).filter(code => !DEUTEROCANON.has(code));
+
+const OSIS_BOOKS = new Map(Object.entries(BOOK_DETAILS).map(([code, details]) => [details.osis, code]));
+const USFM_BOOKS = new Map(Object.entries(BOOK_DETAILS).map(([code, details]) => [details.usfm, code]));
+
+/**
+ * Book names and abbreviations a JSON Bible may use, lowercased without spaces or
+ * periods. Full names, OSIS and USFM IDs win over the abbreviations the linker knows.
+ */
+const JSON_BOOKS: Record<string, string> = { ...BIBLE_BOOKS, ...DEUTEROCANONICAL_BOOKS };
+for (const [code, details] of Object.entries(BOOK_DETAILS)) {
+    for (const name of [code, details.osis, details.usfm, details.name]) {
+        JSON_BOOKS[name.toLowerCase().replace(/[\s.]+/g, '')] = code;
+    }
+}
+
+/**
+ * Returns the key a verse is stored under, e.g. "Jn.3.16"
+ */
+export function verseKey(bookCode: string, chapter: number, verse: number): string {
+    return `${bookCode}.${chapter}.${verse}`;
+}
+
+/**
+ * Decodes the XML entities OSIS files use
+ */
+function decodeXmlEntities(text: string): string {
+    const named: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+    return text.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (entity: string, name: string) => {
+        if (name.startsWith('#x') || name.startsWith('#X')) return String.fromCodePoint(parseInt(name.substring(2), 16));
+        if (name.startsWith('#')) return String.fromCodePoint(Number(name.substring(1)));
+        return named[name.toLowerCase()] ?? entity;
+    });
+}
+
+/**
+ * Stores a verse's text; verses that are empty after cleanup are left out
+ */
+function addVerse(bible: BibleText, bookCode: string, chapter: number, verse: number, text: string): void {
+    const cleaned = text.replace(/\s+/g, ' ').trim();
+    if (cleaned) {
+        bible.set(verseKey(bookCode, chapter, verse), cleaned);
+    }
+}
+
+/**
+ * Reads an OSIS XML Bible. Verses may be containers (`<verse osisID="John.3.16">…</verse>`)
+ * or milestones (`<verse sID="…" osisID="…"/>…<verse eID="…"/>`); notes, titles and
+ * variant readings are left out. A verse naming several IDs is stored under each.
+ */
+export function parseOsisBible(xml: string): BibleText {
+    const bible: BibleText = new Map();
+    const body = xml.replace(/<(note|title|rdg)\b[^>]*\/>|<(note|title|rdg)\b[^>]*>[\s\S]*?<\/\2>/g, '');
+    const verseStart = /<verse\b([^>]*?)\/?>/g;
+    const verseEnd = /<\/?(?:verse|chapter|div)\b/g;
+
+    let match: RegExpExecArray | null;
+    while ((match = verseStart.exec(body)) !== null) {
+        const ids = match[1].match(/\bosisID\s*=\s*["']([^"']+)["']/);
+        if (!ids || /\beID\s*=/.test(match[1])) continue;
+
+        verseEnd.lastIndex = verseStart.lastIndex;
+        const end = verseEnd.exec(body);
+        const text = decodeXmlEntities(body.substring(verseStart.lastIndex, end ? end.index : body.length).replace(/<[^>]*>/g, ''));
+
+        for (const id of ids[1].trim().split(/\s+/)) {
+            const parts = id.replace(/^[^:]*:/, '').split('.');
+            const bookCode = OSIS_BOOKS.get(parts[0]);
+            if (bookCode && parts.length === 3) {
+                addVerse(bible, bookCode, Number(parts[1]), Number(parts[2]), text);
+            }
+        }
+    }
+
+    return bible;
+}
+
+/**
+ * USFM markers whose content is not verse text: identification, titles, headings,
+ * introductions, remarks and alternate or published numbering
+ */
+const USFM_SKIPPED_MARKERS = new Set([
+    'id', 'ide', 'h', 'toc', 'toca', 'mt', 'mte', 'imt', 'is', 'ip', 'ipi', 'im', 'iot', 'io', 'ili',
+    'ms', 'mr', 's', 'sr', 'r', 'd', 'sp', 'rem', 'cl', 'cp', 'ca', 'va', 'vp', 'sts', 'usfm', 'fig',
+]);
+
+/**
+ * Reads a USFM Bible: one or more books, each starting with `\id`. Footnotes,
+ * cross references and word attributes (`\w grace|strong="G5485"\w*`) are left out.
+ * A verse range (`\v 1-2`) is stored under each of its verses.
+ */
+export function parseUsfmBible(usfm: string): BibleText {
+    const bible: BibleText = new Map();
+    const cleaned = usfm
+        .replace(/\\(f|fe|x|ef|ex)\s[\s\S]*?\\\1\*/g, '')
+        .replace(/\|[^\\|]*(?=\\\+?[a-z0-9]+\*)/g, '');
+
+    let bookCode: string | undefined;
+    let chapter = 0;
+    let verses: number[] = [];
+    let text = '';
+
+    const flush = () => {
+        if (bookCode) {
+            for (const verse of verses) addVerse(bible, bookCode, chapter, verse, text);
+        }
+        verses = [];
+        text = '';
+    };
+
+    for (const piece of cleaned.split(/(?=\\)/)) {
+        const match = piece.match(/^\\\+?([a-z]+)(\d*)(\*?)\s?([\s\S]*)$/);
+        if (!match) continue;
+        const [, marker, , closing, content] = match;
+
+        if (marker === 'id' && !closing) {
+            flush();
+            bookCode = USFM_BOOKS.get(content.trim().substring(0, 3).toUpperCase());
+            chapter = 0;
+        } else if (marker === 'c' && !closing) {
+            flush();
+            chapter = parseInt(content, 10);
+        } else if (marker === 'v' && !closing) {
+            flush();
+            const verse = content.match(/^(\d+)[a-z]?(?:-(\d+)[a-z]?)?\s*([\s\S]*)$/);
+            if (!verse) continue;
+            for (let number = Number(verse[1]); number <= Number(verse[2] || verse[1]); number++) verses.push(number);
+            text = verse[3];
+        } else if (closing || !USFM_SKIPPED_MARKERS.has(marker)) {
+            text += ` ${content}`;
+        }
+    }
+    flush();
+
+    return bible;
+}
+
+/**
+ * Returns the verse text of a JSON value: a string, or an object with a "text" field
+ */
+function jsonVerseText(value: unknown): string | null {
+    if (typeof value === 'string') return value;
+    if (value && typeof value === 'object' && typeof (value as Record<string, unknown>).text === 'string') {
+        return (value as Record<string, string>).text;
+    }
+    return null;
+}
+
+/**
+ * Returns the numbered entries of a JSON array (numbered from 1) or object (keyed by number)
+ */
+function numberedEntries(value: unknown): [number, unknown][] {
+    if (Array.isArray(value)) return value.map((item, index): [number, unknown] => [index + 1, item]);
+    if (!value || typeof value !== 'object') return [];
+    return Object.entries(value as Record<string, unknown>)
+        .filter(([key]) => /^\d+$/.test(key))
+        .map(([key, item]): [number, unknown] => [Number(key), item]);
+}
+
+/**
+ * Looks up a JSON Bible's book by name, abbreviation, OSIS or USFM ID, or number (1–66)
+ */
+function jsonBookCode(book: unknown): string | undefined {
+    if (typeof book === 'number') return NUMBERED_BOOKS[book - 1];
+    if (typeof book !== 'string') return undefined;
+    if (/^\d+$/.test(book)) return NUMBERED_BOOKS[Number(book) - 1];
+    return JSON_BOOKS[book.toLowerCase().replace(/[\s.]+/g, '')];
+}
+
+/**
+ * Reads a plain JSON Bible in any of the common shapes:
+ * books keyed by name with chapters and verses keyed by number or listed in order
+ * (`{"John": {"3": {"16": "…"}}}`, `{"John": [["…", …], …]}`), a list of books
+ * (`[{"name": "John", "chapters": [[…]]}]`), or a list of verses
+ * (`[{"book": "John", "chapter": 3, "verse": 16, "text": "…"}]`), optionally
+ * under a "books" or "verses" field
+ */
+export function parseJsonBible(json: string): BibleText {
+    const bible: BibleText = new Map();
+    let root = JSON.parse(json) as unknown;
+    if (root && typeof root === 'object' && !Array.isArray(root)) {
+        const fields = root as Record<string, unknown>;
+        root = fields.verses ?? fields.books ?? root;
+    }
+
+    const addChapters = (bookCode: string | undefined, chapters: unknown) => {
+        if (!bookCode) return;
+        for (const [chapter, verses] of numberedEntries(chapters)) {
+            for (const [verse, value] of numberedEntries(verses)) {
+                const text = jsonVerseText(value);
+                if (text !== null) addVerse(bible, bookCode, chapter, verse, text);
+            }
+        }
+    };
+
+    if (!Array.isArray(root)) {
+        for (const [book, chapters] of Object.entries(root as Record<string, unknown>)) {
+            addChapters(jsonBookCode(book), chapters);
+        }
+        return bible;
+    }
+
+    for (const item of root) {
+        if (!item || typeof item !== 'object') continue;
+        const fields = item as Record<string, unknown>;
+        const book = jsonBookCode(fields.book_name ?? fields.bookName ?? fields.book ?? fields.name ?? fields.abbrev);
+
+        if (fields.chapters !== undefined) {
+            addChapters(book, fields.chapters);
+        } else if (book && fields.chapter !== undefined && fields.verse !== undefined && typeof fields.text === 'string') {
+            addVerse(bible, book, Number(fields.chapter), Number(fields.verse), fields.text);
+        }
+    }
+
+    return bible;
+}
+
+/**
+ * Extensions of the Bible files parseBibleText reads
+ */
+export const BIBLE_TEXT_EXTENSIONS = ['xml', 'osis', 'usfm', 'sfm', 'json'];
+
+/**
+ * Reads a Bible file by its extension: OSIS (.xml, .osis), USFM (.usfm, .sfm) or
+ * JSON (.json). Returns null for other files.
+ */
+export function parseBibleText(content: string, extension: string): BibleText | null {
+    switch (extension.toLowerCase()) {
+        case 'xml':
+        case 'osis':
+            return parseOsisBible(content);
+        case 'usfm':
+        case 'sfm':
+            return parseUsfmBible(content);
+        case 'json':
+            return parseJsonBible(content);
+        default:
+            return null;
+    }
+}
+
+/**
+ * Strips the Markdown around a verse in a vault Bible note: list and quote markers,
+ * a leading verse number, links (keeping their text), emphasis and highlights
+ */
+function cleanNoteVerse(line: string, verse: number): string {
+    return line
+        .replace(/\s\^[A-Za-z0-9-]+\s*$/, '')
+        .replace(/^\s*(?:>\s*)*(?:[-*+]\s+)?/, '')
+        .replace(new RegExp(`^(?:\\*\\*|<sup>)?${verse}(?:\\*\\*|</sup>)?\\s+`), '')
+        .replace(/!?\[\[(?:[^\]|]*\|)?([^\]]*)\]\]/g, '$1')
+        .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+        .replace(/\*\*|__|==|\*/g, '')
+        .trim();
+}
+
+/**
+ * Returns the text of a verse in a vault Bible chapter note, found by the subpath
+ * of its link: a block ID ("^16") or a heading ("16", "Verse 16"). A heading's
+ * verse runs to the next heading. Returns null if the note has no such verse.
+ */
+export function readNoteVerse(content: string, subpath: string, verse: number): string | null {
+    const lines = content.split('\n');
+
+    if (subpath.startsWith('^')) {
+        const id = subpath.substring(1).replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        const index = lines.findIndex(line => new RegExp(`(?:^|\\s)\\^${id}\\s*$`).test(line));
+        if (index === -1) return null;
+
+        // A block ID on a line of its own belongs to the paragraph above it
+        let start = index;
+        let end = index;
+        if (/^\s*\^/.test(lines[index])) {
+            end = index - 1;
+            start = end;
+            while (start > 0 && lines[start - 1].trim() && !/^#{1,6}\s/.test(lines[start - 1])) start--;
+        }
+        const text = lines.slice(start, end + 1).map(line => cleanNoteVerse(line, verse)).join(' ').trim();
+        return text || null;
+    }
+
+    const heading = subpath.replace(/\s+/g, ' ').trim().toLowerCase();
+    const index = lines.findIndex(line => {
+        const match = line.match(/^#{1,6}\s+(.+?)(?:\s+#+)?\s*$/);
+        return match !== null && match[1].replace(/\s+/g, ' ').toLowerCase() === heading;
+    });
+    if (!heading || index === -1) return null;
+
+    const section: string[] = [];
+    for (const line of lines.slice(index + 1)) {
+        if (/^#{1,6}\s/.test(line)) break;
+        if (line.trim()) section.push(cleanNoteVerse(line, verse));
+    }
+    return section.join(' ').trim() || null;
+}
+
+/**
+ * Lists the verses a passage covers, using the verse counts of the versification for
+ * whole chapters and cross-chapter ranges (so chapters of books without a table,
+ * such as the deuterocanon, are not listed). At most `limit` verses are listed;
+ * `truncated` tells whether the passage has more.
+ */
+export function listPassageVerses(
+    passage: BiblePassage,
+    versification: Versification = 'english',
+    limit: number = PASSAGE_VERSE_LIMIT
+): { verses: VerseNumber[]; truncated: boolean } {
+    const chapterVerses = getChapterVerses(passage.bookCode, versification) || [];
+    const lastChapter = passage.endChapter ?? passage.chapter;
+    const verses: VerseNumber[] = [];
+
+    for (let chapter = passage.chapter; chapter <= lastChapter; chapter++) {
+        const chapterLength = chapterVerses[chapter - 1] ?? 0;
+        const first = chapter === passage.chapter ? passage.verse ?? 1 : 1;
+        let last = chapterLength;
+        if (chapter === lastChapter && passage.endVerse !== null) {
+            last = passage.endVerse;
+        } else if (passage.endChapter === null && passage.verse !== null) {
+            last = passage.verse;
+        }
+
+        for (let verse = first; verse <= last; verse++) {
+            if (verses.length === limit) return { verses, truncated: true };
+            verses.push({ chapter, verse });
+        }
+    }
+
+    return { verses, truncated: false };
+}
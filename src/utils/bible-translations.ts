@@ -0,0 +1,62 @@
+/**
+ * Lookup of Bible translations: the built-in registry plus user-defined codes
+ */
+
+import { BOOK_DETAILS, DEUTEROCANONICAL_BOOKS } from '../constants/bible-books';
+import { BIBLE_TRANSLATIONS, BibleTranslation } from '../constants/bible-translations';
+import { CustomBibleTranslation } from '../types';
+
+const BOOK_CODES = Object.keys(BOOK_DETAILS);
+const NEW_TESTAMENT = new Set(BOOK_CODES.slice(BOOK_CODES.indexOf('Mt')));
+const DEUTEROCANON = new Set(Object.values(DEUTEROCANONICAL_BOOKS));
+
+/**
+ * Returns the built-in translations with the user's own added; a custom
+ * translation with a built-in abbreviation replaces it
+ */
+export function getBibleTranslations(custom: CustomBibleTranslation[] = []): BibleTranslation[] {
+    const translations = new Map(BIBLE_TRANSLATIONS.map(translation => [translation.id, translation]));
+    for (const { abbreviation, logosCode } of custom) {
+        const id = abbreviation.toLowerCase();
+        const builtIn = translations.get(id);
+        // Nothing is known about the contents of a custom translation, so it is assumed to have every book
+        translations.set(id, builtIn
+            ? { ...builtIn, logosCode }
+            : { id, abbreviation, name: abbreviation, logosCode, language: 'en', canon: 'catholic' });
+    }
+    return [...translations.values()];
+}
+
+/**
+ * Returns the translation for a settings key or abbreviation. Unknown keys are
+ * passed through as Logos codes, so any Logos resource can still be targeted.
+ */
+export function resolveTranslation(key: string, custom: CustomBibleTranslation[] = []): BibleTranslation {
+    const id = key.toLowerCase();
+    return getBibleTranslations(custom).find(translation => translation.id === id)
+        || { id, abbreviation: key.toUpperCase(), name: key, logosCode: key, language: 'en', canon: 'catholic' };
+}
+
+/**
+ * Returns the registered translation with this exact abbreviation (case-insensitive), if any
+ */
+export function findTranslationByAbbreviation(abbreviation: string, custom: CustomBibleTranslation[] = []): BibleTranslation | null {
+    const id = abbreviation.toLowerCase();
+    return getBibleTranslations(custom).find(translation => translation.id === id) || null;
+}
+
+/**
+ * Returns true if the translation contains the book
+ */
+export function translationIncludesBook(translation: BibleTranslation, bookCode: string): boolean {
+    switch (translation.canon) {
+        case 'nt':
+            return NEW_TESTAMENT.has(bookCode);
+        case 'ot':
+            return !NEW_TESTAMENT.has(bookCode) && !DEUTEROCANON.has(bookCode);
+        case 'protestant':
+            return !DEUTEROCANON.has(bookCode);
+        default:
+            return true;
+    }
+}
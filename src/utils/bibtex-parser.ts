@@ -0,0 +1,289 @@
+/**
+ * Tokenizer and parser for BibTeX / BibLaTeX databases
+ *
+ * Handles braced and quoted values (with nested braces), bare numbers,
+ * `@string` macros, `#` concatenation, `@preamble` and `@comment` blocks.
+ */
+
+/**
+ * Location of a field value within the source text
+ */
+export interface BibtexSpan {
+    start: number;
+    end: number;
+}
+
+/**
+ * A single bibliographic entry such as `@book{key, ...}`
+ */
+export interface BibtexEntry {
+    /** Entry type, lowercased (book, article, misc, ...) */
+    type: string;
+    /** Cite key exactly as written */
+    key: string;
+    /** All fields keyed by lowercased field name, with macros expanded */
+    fields: Record<string, string>;
+    /** Source spans of each field value (including delimiters) */
+    spans: Record<string, BibtexSpan>;
+    /** Offset of the leading `@` in the source */
+    start: number;
+    /** Offset just after the closing delimiter */
+    end: number;
+}
+
+/**
+ * Result of parsing a BibTeX source
+ */
+export interface BibtexDatabase {
+    entries: BibtexEntry[];
+    strings: Record<string, string>;
+    preambles: string[];
+}
+
+/**
+ * Month macros predefined by every BibTeX style
+ */
+const MONTH_MACROS: Record<string, string> = {
+    jan: 'January', feb: 'February', mar: 'March', apr: 'April',
+    may: 'May', jun: 'June', jul: 'July', aug: 'August',
+    sep: 'September', oct: 'October', nov: 'November', dec: 'December',
+};
+
+/**
+ * Cursor-based reader over a BibTeX source. Malformed input never throws;
+ * the reader consumes what it can and stops at the end of the text.
+ */
+class BibtexReader {
+    private pos = 0;
+
+    constructor(private readonly text: string, private readonly strings: Record<string, string>) { }
+
+    get position(): number {
+        return this.pos;
+    }
+
+    atEnd(): boolean {
+        return this.pos >= this.text.length;
+    }
+
+    peek(): string {
+        return this.text.charAt(this.pos);
+    }
+
+    skipWhitespace(): void {
+        while (!this.atEnd() && /\s/.test(this.peek())) this.pos++;
+    }
+
+    /**
+     * Advances to the next `@` and returns false if none remain
+     */
+    seekEntry(): boolean {
+        const next = this.text.indexOf('@', this.pos);
+        if (next === -1) {
+            this.pos = this.text.length;
+            return false;
+        }
+        this.pos = next;
+        return true;
+    }
+
+    consume(expected: string): boolean {
+        this.skipWhitespace();
+        if (this.peek() === expected) {
+            this.pos++;
+            return true;
+        }
+        return false;
+    }
+
+    /**
+     * Reads an identifier (entry type, field name, macro name)
+     */
+    readIdentifier(): string {
+        this.skipWhitespace();
+        const start = this.pos;
+        while (!this.atEnd() && /[^\s"#%'(),={}@]/.test(this.peek())) this.pos++;
+        return this.text.substring(start, this.pos);
+    }
+
+    /**
+     * Reads up to (not including) the given stop characters
+     */
+    readUntil(stops: string): string {
+        const start = this.pos;
+        while (!this.atEnd() && !stops.includes(this.peek())) this.pos++;
+        return this.text.substring(start, this.pos);
+    }
+
+    /**
+     * Reads a brace-delimited group and returns its inner text.
+     * Nested braces are balanced and kept in the result.
+     */
+    readBraced(): string {
+        // Opening brace already verified by caller
+        this.pos++;
+        const start = this.pos;
+        let depth = 1;
+        while (!this.atEnd()) {
+            const ch = this.peek();
+            if (ch === '\\') {
+                this.pos += 2;
+                continue;
+            }
+            if (ch === '{') depth++;
+            if (ch === '}') {
+                depth--;
+                if (depth === 0) {
+                    const inner = this.text.substring(start, this.pos);
+                    this.pos++;
+                    return inner;
+                }
+            }
+            this.pos++;
+        }
+        return this.text.substring(start);
+    }
+
+    /**
+     * Reads a quote-delimited value. Quotes inside braces do not terminate it.
+     */
+    readQuoted(): string {
+        this.pos++;
+        const start = this.pos;
+        let depth = 0;
+        while (!this.atEnd()) {
+            const ch = this.peek();
+            if (ch === '\\') {
+                this.pos += 2;
+                continue;
+            }
+            if (ch === '{') depth++;
+            if (ch === '}') depth = Math.max(0, depth - 1);
+            if (ch === '"' && depth === 0) {
+                const inner = this.text.substring(start, this.pos);
+                this.pos++;
+                return inner;
+            }
+            this.pos++;
+        }
+        return this.text.substring(start);
+    }
+
+    /**
+     * Reads a full value expression: one or more parts joined by `#`
+     */
+    readValue(): { value: string; span: BibtexSpan } {
+        this.skipWhitespace();
+        const start = this.pos;
+        let value = '';
+
+        for (; ;) {
+            this.skipWhitespace();
+            const ch = this.peek();
+            if (ch === '{') {
+                value += this.readBraced();
+            } else if (ch === '"') {
+                value += this.readQuoted();
+            } else if (/\d/.test(ch)) {
+                value += this.readUntil(' \t\r\n,#})');
+            } else {
+                const name = this.readIdentifier();
+                if (!name) break;
+                const lower = name.toLowerCase();
+                value += this.strings[lower] ?? MONTH_MACROS[lower] ?? name;
+            }
+
+            const partEnd = this.pos;
+            this.skipWhitespace();
+            if (this.peek() === '#') {
+                this.pos++;
+                continue;
+            }
+            return { value, span: { start, end: partEnd } };
+        }
+
+        return { value, span: { start, end: this.pos } };
+    }
+}
+
+/**
+ * Parses BibTeX source into entries, string macros and preambles
+ */
+export function parseBibtexDatabase(text: string): BibtexDatabase {
+    const strings: Record<string, string> = {};
+    const preambles: string[] = [];
+    const entries: BibtexEntry[] = [];
+    const reader = new BibtexReader(text, strings);
+
+    while (reader.seekEntry()) {
+        const start = reader.position;
+        reader.consume('@');
+        const type = reader.readIdentifier().toLowerCase();
+        reader.skipWhitespace();
+
+        const open = reader.peek();
+        if (!type || (open !== '{' && open !== '(')) continue;
+        const close = open === '{' ? '}' : ')';
+
+        if (type === 'comment') {
+            if (open === '{') {
+                reader.readBraced();
+            } else {
+                reader.consume('(');
+                reader.readUntil(')');
+                reader.consume(')');
+            }
+            continue;
+        }
+
+        reader.consume(open);
+
+        if (type === 'preamble') {
+            preambles.push(reader.readValue().value);
+            reader.consume(close);
+            continue;
+        }
+
+        if (type === 'string') {
+            const name = reader.readIdentifier().toLowerCase();
+            if (reader.consume('=')) {
+                strings[name] = reader.readValue().value;
+            }
+            reader.consume(close);
+            continue;
+        }
+
+        reader.skipWhitespace();
+        const key = reader.readUntil(`,${close}`).trim();
+        const fields: Record<string, string> = {};
+        const spans: Record<string, BibtexSpan> = {};
+
+        while (!reader.atEnd()) {
+            if (reader.consume(close)) break;
+            if (reader.consume(',')) continue;
+
+            const name = reader.readIdentifier().toLowerCase();
+            if (!name || !reader.consume('=')) {
+                // Skip junk up to the next field separator
+                reader.readUntil(`,${close}`);
+                continue;
+            }
+
+            const { value, span } = reader.readValue();
+            fields[name] = value.trim();
+            spans[name] = span;
+        }
+
+        entries.push({ type, key, fields, spans, start, end: reader.position });
+    }
+
+    return { entries, strings, preambles };
+}
+
+/**
+ * Returns the first bibliographic entry in the source, or null if none exists
+ */
+export function parseFirstBibtexEntry(text: string): BibtexEntry | null {
+    const { entries } = parseBibtexDatabase(text);
+    return entries.length > 0 ? entries[0] : null;
+}
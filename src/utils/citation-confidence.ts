@@ -0,0 +1,79 @@
+/**
+ * Scores how complete and plausible a parsed citation is, so uncertain parses
+ * can be reviewed before a reference note is named after them
+ */
+
+import { ParsedCitation } from '../types';
+
+/**
+ * Citations scoring below this are shown for review before anything is written
+ */
+export const LOW_CONFIDENCE_THRESHOLD = 0.7;
+
+type ScoredField = 'title' | 'author' | 'year' | 'publisher' | 'pages';
+
+/**
+ * Weight of each expected field; books are expected to name a publisher
+ */
+const BOOK_WEIGHTS: Partial<Record<ScoredField, number>> = { title: 0.4, author: 0.25, year: 0.2, publisher: 0.15 };
+
+/**
+ * Journal articles and web pages rarely carry a publisher
+ */
+const ARTICLE_WEIGHTS: Partial<Record<ScoredField, number>> = { title: 0.45, author: 0.3, year: 0.25 };
+
+/**
+ * Shortened notes only carry an author, a short title and a locator
+ */
+const SHORT_NOTE_WEIGHTS: Partial<Record<ScoredField, number>> = { title: 0.5, author: 0.3, pages: 0.2 };
+
+/**
+ * Returns true if a field value looks like a parser grabbed the wrong span,
+ * e.g. an author that runs into the title or a title carrying publication data
+ */
+function isSuspicious(field: ScoredField, value: string): boolean {
+    switch (field) {
+        case 'title':
+            return value.length > 200 || /\([^()]*:\s*[^()]*,\s*\d{4}\)/.test(value) || /^@\w+/.test(value);
+        case 'author':
+            // Quote marks or a sentence after a full name mean the author ran into an entry title
+            return value.split(/\s+/).length > 12 || /\d{4}|https?:|[“”"]|\p{Ll}{2,}\.\s+\S/u.test(value);
+        case 'year':
+            return !/^\d{4}$/.test(value);
+        case 'publisher':
+            return value.length > 100 || /\d{4}/.test(value);
+        default:
+            return false;
+    }
+}
+
+/**
+ * Scores a parsed citation from 0 to 1 and lists the expected fields it lacks.
+ * Fields that are present but implausible count for half their weight.
+ */
+export function assessCitation(citation: ParsedCitation): { confidence: number; missingFields: string[] } {
+    const weights = citation.citationForm === 'short-note'
+        ? SHORT_NOTE_WEIGHTS
+        : citation.entryType === 'article' || citation.entryType === 'webpage' ? ARTICLE_WEIGHTS : BOOK_WEIGHTS;
+
+    let confidence = 0;
+    const missingFields: string[] = [];
+
+    for (const [field, weight] of Object.entries(weights) as [ScoredField, number][]) {
+        const value = citation[field];
+        if (!value || !value.trim()) {
+            missingFields.push(field);
+            continue;
+        }
+        confidence += isSuspicious(field, value.trim()) ? weight / 2 : weight;
+    }
+
+    return { confidence: Math.round(confidence * 100) / 100, missingFields };
+}
+
+/**
+ * Attaches the confidence score and missing fields to a parsed citation
+ */
+export function withConfidence(citation: ParsedCitation): ParsedCitation {
+    return { ...citation, ...assessCitation(citation) };
+}
@@ -2,12 +2,21 @@
  * Utility functions for parsing clipboard content and citation data
  */
 
-import { CitationFormat, ParsedCitation } from '../types';
+import { CitationFormat, Contributor, EntryType, Locator, ParsedCitation } from '../types';
+import { parseBibtexDatabase, parseFirstBibtexEntry } from './bibtex-parser';
+import { decodeLatex } from './latex-decoder';
+import { citeKeyName, extractRoleContributors, formatContributorName, formatInvertedName, mergeContributors, parseBibtexNames, parseContributorString, parseRisName } from './name-parser';
+import { containsRis, parseRisRecords } from './ris-parser';
+import { cslContributors, cslYear, extractCslJson } from './csl-json-parser';
+import { LOW_CONFIDENCE_THRESHOLD, withConfidence } from './citation-confidence';
+import { parseLocator, TRAILING_LOCATOR_REGEX } from './locator-parser';
 
 export interface ParsedClipboard {
     mainText: string;
     citation: ParsedCitation | null;
     page: string | null;
+    /** Structured form of the page, or of the citation's own locator */
+    locator: Locator | null;
     reflyLink?: string | null;
 }
 
@@ -17,11 +26,38 @@ export interface ParsedClipboard {
 export function detectCitationFormat(text: string): CitationFormat {
     const trimmed = text.trim();
 
+    // RIS: tagged lines opened by "TY  - BOOK", as exported by Zotero and library catalogs
+    if (containsRis(trimmed)) {
+        return 'ris';
+    }
+
+    // CSL-JSON: a single item or an array of items
+    if (extractCslJson(trimmed)) {
+        return 'csl-json';
+    }
+
     // BibTeX: starts with @ or contains @type{
     if (/^@\w+\{/.test(trimmed) || /\s@\w+\{/.test(trimmed)) {
         return 'bibtex';
     }
 
+    // Shortened notes (Wright, *Resurrection*, 45.) share Chicago's note conventions
+    if (matchShortNote(trimmed)) {
+        return 'chicago';
+    }
+
+    // SBL: series abbreviation, with or without a volume, before the publication data, e.g.
+    // "Title, WBC 34A (Dallas: ...", "Title, PNTC (Grand Rapids: ...", "Title (WBC 34A; Dallas: ..."
+    // or "Title. WBC 34A. Dallas: ...", or a journal abbreviation: “Title,” JBL 99 (1980): 107–15.
+    const withoutLinkTargets = trimmed.replace(/\]\([^)]*\)/g, ']');
+    if (/(?:,\s+|\(|\.\s+)[A-Z][A-Za-z]*[A-Z][A-Za-z]*\s+\d+[A-Z]?(?:[–-]\d+[A-Z]?)?(?:\s*\(|;|\.\s)/.test(withoutLinkTargets) ||
+        /,\s+[A-Z][A-Za-z]*[A-Z][A-Za-z]*\s*\([^()]*:\s*[^()]+,\s*\d{4}\)/.test(withoutLinkTargets) ||
+        /\.\s+[A-Z][A-Za-z]*[A-Z][A-Za-z]*\.\s+[^.:]+:\s*[^.:]+,\s*\d{4}/.test(withoutLinkTargets) ||
+        /\([^()]*;\s*[^();]+:\s*[^();]+,\s*\d{4}[^()]*\)/.test(withoutLinkTargets) ||
+        SBL_JOURNAL_REGEX.test(withoutLinkTargets)) {
+        return 'sbl';
+    }
+
     // Check for Logos-style markdown links in titles: [_Title_](url) or [*Title*](url)
     const hasMarkdownLink = /\[[*_][^\]]+[*_]\]\([^)]+\)/.test(trimmed);
 
@@ -46,6 +82,16 @@ export function detectCitationFormat(text: string): CitationFormat {
 
     // Standard format detection (no markdown links)
 
+    // Chicago/Turabian full note: Author, Title (Place: Publisher, Year), page.
+    if (/^[^()]+,\s+[^()]+\([^()]*:\s*[^()]+,\s*\d{4}\)/.test(withoutLinkTargets)) {
+        return 'chicago';
+    }
+
+    // Chicago/Turabian journal article: “Title,” _Journal_ 49, no. 2 (2003): 150–70.
+    if (/[”"]\]?\s+[_*][^_*]+[_*]\s+\d+(?:,\s*no\.\s*\d+)?\s*\((?:[^()]*\s)?\d{4}\)/.test(withoutLinkTargets)) {
+        return 'chicago';
+    }
+
     // APA: Author, A. A. (Year). Title. Publisher. OR Author (Year)
     // Look for pattern: Name, Initial. (YYYY)
     if (/[A-Z][a-z]+,\s+[A-Z]\.\s*[A-Z]?\.\s*\(\d{4}\)/.test(trimmed)) {
@@ -70,52 +116,223 @@ export function detectCitationFormat(text: string): CitationFormat {
 
 
 /**
- * Parses a BibTeX entry into a ParsedCitation
+ * Logos sometimes wraps entire field lines in markdown links,
+ * e.g. [journal={Title}](url) or [title={Title}](url).
+ * Normalizes these to field={[Title](url)} so the field parses as a plain value.
  */
-export function parseBibtex(bibtex: string): ParsedCitation {
-    // Pre-process: Logos sometimes wraps entire field lines in markdown links,
-    // e.g. [journal={Title}](url) or [title={Title}](url)
-    // Normalize these to field={[Title](url)} so standard regexes work correctly
-    bibtex = bibtex.replace(
-        /\[((?:title|journal|booktitle|series)\s*=\s*\{)([^}]+)(\})\]\(([^)]+)\)/gi,
-        (_, fieldPrefix, fieldValue, closingBrace, linkUrl) => {
-            return `${fieldPrefix}[${fieldValue}](${linkUrl})${closingBrace}`;
+function unwrapLinkedBibtexFields(bibtex: string): string {
+    const linkedFieldRegex = /\[((?:title|journal|booktitle|series)\s*=\s*)\{/gi;
+    let result = '';
+    let lastIndex = 0;
+    let match;
+
+    while ((match = linkedFieldRegex.exec(bibtex)) !== null) {
+        // Find the brace that closes the field value, honoring nesting
+        const valueStart = match.index + match[0].length;
+        let depth = 1;
+        let i = valueStart;
+        while (i < bibtex.length && depth > 0) {
+            if (bibtex[i] === '{') depth++;
+            if (bibtex[i] === '}') depth--;
+            i++;
         }
+
+        const linkMatch = bibtex.substring(i).match(/^\]\(([^)]+)\)/);
+        if (depth !== 0 || !linkMatch) continue;
+
+        const fieldValue = bibtex.substring(valueStart, i - 1);
+        result += bibtex.substring(lastIndex, match.index);
+        result += `${match[1]}{[${fieldValue}](${linkMatch[1]})}`;
+        lastIndex = i + linkMatch[0].length;
+        linkedFieldRegex.lastIndex = lastIndex;
+    }
+
+    return result + bibtex.substring(lastIndex);
+}
+
+/**
+ * Builds contributors for a formatted citation from its author string plus any
+ * "edited by"/"trans." credits elsewhere in the citation
+ */
+function buildContributors(author: string | null, citation: string): Contributor[] {
+    return mergeContributors(
+        author ? parseContributorString(author) : [],
+        extractRoleContributors(citation)
     );
+}
 
-    const citeKeyMatch = bibtex.match(/^@\w+\{([^,]+),/);
-    let citeKey = citeKeyMatch ? citeKeyMatch[1] : 'unknown';
-    citeKey = citeKey.replace(/[_\W]+/g, '-').replace(/-+/g, '-').replace(/^-|-$/g, '');
+/**
+ * Generates a cite key from the first author's family name and year
+ */
+function buildCiteKey(contributors: Contributor[], year: string | null): string {
+    const name = citeKeyName(contributors);
+    return name && year ? `${name}-${year}` : 'unknown';
+}
+
+/**
+ * Bibliographic details beyond author, title and publisher
+ */
+type WorkDetails = Pick<ParsedCitation, 'entryType' | 'containerTitle' | 'articleTitle' | 'volume' | 'issue' | 'edition' | 'place' | 'doi' | 'editors'>;
+
+/**
+ * Container titles that mark a reference work, whose articles are dictionary entries
+ */
+const REFERENCE_WORK_REGEX = /\b(?:Dictionary|Encyclop\w*dia|Lexicon|Handbook|Companion)\b/i;
+
+/**
+ * Removes markdown link syntax, keeping the link text
+ */
+function stripMarkdownLinks(text: string): string {
+    return text.replace(/\[([^\]]+)\]\([^)]+\)/g, '$1').replace(/[[\]]/g, '');
+}
+
+/**
+ * Returns the author from the text before a title: a quoted entry title (and "In")
+ * ahead of the container title and the terminal punctuation are dropped
+ */
+function authorBeforeTitle(text: string): string | null {
+    return text.replace(/\s*“[^”]*”\s*(?:[Ii]n\s*)?$/, '').replace(/[,.]?\s*$/, '').trim() || null;
+}
+
+/**
+ * Returns the display names of the editors among the contributors
+ */
+function editorNames(contributors: Contributor[]): string[] {
+    return contributors.filter(c => c.role === 'editor').map(c => formatContributorName(c));
+}
+
+/**
+ * Reads entry type, container, volume, issue, edition, place and DOI from a
+ * formatted (MLA, APA, Chicago or SBL) citation. `title` is the title the
+ * format parser found; APA leaves article titles unquoted, so it stands in for
+ * the article title when an APA journal or "In ... (Eds.)" container is found.
+ */
+function extractWorkDetails(citation: string, title: string | null, contributors: Contributor[]): WorkDetails {
+    // Link targets carry colons and digits that would be mistaken for publication data
+    const text = citation.replace(/\]\([^)]*\)/g, ']');
+
+    let articleTitle: string | null = null;
+    let containerTitle: string | null = null;
+    let afterContainer = '';
+
+    // Quoted article, entry or chapter title followed by the italic container
+    const quotedMatch = text.match(/[“"]([^”"]+?)[.,]?[”"]/);
+    if (quotedMatch && quotedMatch.index !== undefined) {
+        articleTitle = quotedMatch[1].replace(/^[[_*\s]+|[\]_*\s]+$/g, '');
+        const rest = text.substring(quotedMatch.index + quotedMatch[0].length);
+        const containerMatch = rest.match(/([_*]+)([^_*]+)\1/);
+        if (containerMatch && containerMatch.index !== undefined) {
+            containerTitle = containerMatch[2].trim();
+            afterContainer = rest.substring(containerMatch.index + containerMatch[0].length);
+        }
+    } else if (title) {
+        // APA chapter: Title. In A. Editor (Ed.), Book title (pp. 1–10).
+        const apaChapterMatch = text.match(/\bIn\s+(?:[^()]+\((?:Eds?|Trans)\.\),\s*)?([_*]*)([^_*()]+?)\1\s*\((?:[^()]*?)pp?\.\s*[^()]*\)/);
+        // APA article: Title. Journal Name, 49(2), 150–170.
+        const apaJournalMatch = text.match(/\.\s+([_*]*)([^.()_*[\]]+?)\1,\s*[_*]*\d+[_*]*(?:\(\d+\))?,\s*\d/);
+        const match = apaChapterMatch || apaJournalMatch;
+        if (match && match.index !== undefined) {
+            // The article title runs from "(Year)." to the container; the format parser's title may be the container
+            const betweenMatch = text.substring(0, match.index).match(/\(\d{4}[^)]*\)\.\s*(.+?)\s*$/);
+            articleTitle = stripMarkdownLinks(betweenMatch ? betweenMatch[1] : title).replace(/^[_*]+|[_*.]+$/g, '').trim();
+            containerTitle = match[2].trim();
+            afterContainer = text.substring(match.index + match[0].indexOf(match[2]) + match[2].length);
+        }
+    }
+
+    // Volume and issue directly after a journal title ("_JBL_ 122, no. 1" or "Journal, 49(2)"). A bare
+    // number is a volume only with an issue, a year or a page ("2:2152"); otherwise it is a page.
+    const numbersMatch = afterContainer.match(/^[\]_*]*,?\s*(vol\.\s*)?(\d+)(?:,?\s*no\.\s*(\d+)|\((\d+)\))?/i);
+    const journalNumbers = numbersMatch && (numbersMatch[1] || numbersMatch[3] || numbersMatch[4]
+        || /^[_*]*\s*(?:\([^()]*\d{4}[^()]*\)|:\s*\d)/.test(afterContainer.substring(numbersMatch[0].length)))
+        ? numbersMatch
+        : null;
+    const volumeMatch = text.match(/\bvol(?:ume)?\.?\s*(\d+[A-Z]?)\b/i);
+    const issueMatch = text.match(/\bno\.\s*(\d+)/i);
+    const volume = journalNumbers ? journalNumbers[2] : volumeMatch ? volumeMatch[1] : null;
+    const issue = journalNumbers && (journalNumbers[3] || journalNumbers[4])
+        ? journalNumbers[3] || journalNumbers[4]
+        : issueMatch ? issueMatch[1] : null;
+
+    const editionMatch = text.match(/\b(\d+(?:st|nd|rd|th)|[Rr]ev(?:ised)?\.?|[Ee]xpanded|[Ee]nlarged)\s+ed(?:ition|n)?\b\.?/);
+    const placeMatch = text.match(/(?:^|[(;]\s*|\.\s+)(\p{Lu}[^.:;()[\]_*“”"]*?):\s*[^:;()]+?,\s*\d{4}/u);
+    const doiMatch = citation.match(/(?:doi:\s*|https?:\/\/(?:dx\.)?doi\.org\/)(10\.\d{4,9}\/[^\s,;)\]]+)/i);
+
+    let entryType: EntryType = 'book';
+    if (/\b(?:dissertation|thesis)\b/i.test(text)) {
+        entryType = 'thesis';
+    } else if (articleTitle && containerTitle && REFERENCE_WORK_REGEX.test(containerTitle)) {
+        entryType = 'dictionary-entry';
+    } else if (articleTitle && containerTitle && (journalNumbers || !/\b[Ii]n\s|\bed(?:ited by|s?\.)\s/.test(text))) {
+        entryType = 'article';
+    } else if (articleTitle && containerTitle) {
+        entryType = 'chapter';
+    } else if (articleTitle) {
+        entryType = 'article';
+    }
+
+    return {
+        entryType,
+        containerTitle,
+        articleTitle,
+        volume,
+        issue,
+        edition: editionMatch ? editionMatch[1] : null,
+        place: placeMatch ? placeMatch[1].trim() : null,
+        doi: doiMatch ? doiMatch[1].replace(/\.$/, '') : null,
+        editors: editorNames(contributors),
+    };
+}
+
+/**
+ * BibTeX fields whose values are taken verbatim rather than decoded as LaTeX
+ */
+const VERBATIM_BIBTEX_FIELDS = ['url', 'doi', 'eprint', 'file', 'isbn', 'issn'];
+
+/**
+ * Entry types for BibTeX and BibLaTeX entry kinds; anything else is "misc"
+ */
+const BIBTEX_ENTRY_TYPES: Record<string, EntryType> = {
+    book: 'book', mvbook: 'book', collection: 'book', mvcollection: 'book',
+    reference: 'book', mvreference: 'book', proceedings: 'book', mvproceedings: 'book',
+    inbook: 'chapter', bookinbook: 'chapter', suppbook: 'chapter', incollection: 'chapter', inproceedings: 'chapter',
+    inreference: 'dictionary-entry',
+    article: 'article',
+    thesis: 'thesis', phdthesis: 'thesis', mastersthesis: 'thesis',
+    report: 'report', techreport: 'report',
+    online: 'webpage', electronic: 'webpage', www: 'webpage',
+};
+
+/**
+ * Parses a BibTeX entry into a ParsedCitation
+ */
+export function parseBibtex(bibtex: string): ParsedCitation {
+    bibtex = unwrapLinkedBibtexFields(bibtex);
+
+    const entry = parseFirstBibtexEntry(bibtex);
+    const rawFields = entry ? entry.fields : {};
+
+    // Decode LaTeX markup for display; rawCitation keeps the source as written
+    const fields: Record<string, string> = {};
+    for (const [name, value] of Object.entries(rawFields)) {
+        fields[name] = VERBATIM_BIBTEX_FIELDS.includes(name) ? value : decodeLatex(value);
+    }
+    const field = (name: string): string | null => fields[name] || null;
 
-    const authorMatch = bibtex.match(/author\s*=\s*\{([^}]+)\}/i);
-    const titleMatch = bibtex.match(/title\s*=\s*\{([^}]+)\}/i);
-    const yearMatch = bibtex.match(/year\s*=\s*\{?(\d{4})\}?/i);
-    const pagesMatch = bibtex.match(/pages\s*=\s*\{([^}]+)\}/i);
-    const publisherMatch = bibtex.match(/publisher\s*=\s*\{([^}]+)\}/i);
-    const urlMatch = bibtex.match(/url\s*=\s*\{([^}]+)\}/i);
-    const isbnMatch = bibtex.match(/isbn\s*=\s*\{([^}]+)\}/i);
-    const abstractMatch = bibtex.match(/abstract\s*=\s*\{([^}]+)\}/i);
-    const keywordsMatch = bibtex.match(/keywords\s*=\s*\{([^}]+)\}/i);
-
-    // Fallback title fields: journal, booktitle, series (common in @misc, @article, @inproceedings)
-    const journalMatch = bibtex.match(/journal\s*=\s*\{([^}]+)\}/i);
-    const booktitleMatch = bibtex.match(/booktitle\s*=\s*\{([^}]+)\}/i);
-    const seriesMatch = bibtex.match(/series\s*=\s*\{([^}]+)\}/i);
+    let citeKey = entry && entry.key ? entry.key : 'unknown';
+    citeKey = citeKey.replace(/[_\W]+/g, '-').replace(/-+/g, '-').replace(/^-|-$/g, '') || 'unknown';
+
+    const author = field('author');
+    const yearMatch = (field('year') || field('date') || '').match(/\d{4}/);
+    const year = yearMatch ? yearMatch[0] : null;
+    const keywordsValue = field('keywords');
 
     // Determine the raw title value: journal → booktitle → title → series
-    let rawTitleValue = journalMatch ? journalMatch[1]
-        : booktitleMatch ? booktitleMatch[1]
-            : titleMatch ? titleMatch[1]
-                : seriesMatch ? seriesMatch[1]
-                    : null;
-    const titleSourceField = journalMatch ? 'journal'
-        : booktitleMatch ? 'booktitle'
-            : titleMatch ? 'title'
-                : seriesMatch ? 'series'
-                    : null;
+    const titleSourceField = ['journal', 'booktitle', 'title', 'series'].find(name => field(name)) || null;
+    const rawTitleValue = titleSourceField ? fields[titleSourceField] : null;
 
     let title = rawTitleValue;
-    let url = urlMatch ? urlMatch[1] : null;
+    let url = field('url');
 
     // Check if the title value already contains a markdown link [Text](url)
     if (title) {
@@ -130,11 +347,9 @@ export function parseBibtex(bibtex: string): ParsedCitation {
             // If we have a URL and the title doesn't already have one, wrap it
             title = `[${title}](${url})`;
             // Update rawCitation to reflect the hyperlinked title
-            if (rawTitleValue && titleSourceField) {
-                bibtex = bibtex.replace(
-                    new RegExp(`${titleSourceField}\\s*=\\s*\\{${rawTitleValue.replace(/[.*+?^${}()|[\]\\\\]/g, '\\$&')}\\}`, 'i'),
-                    `${titleSourceField}={${title}}`
-                );
+            if (entry && titleSourceField) {
+                const span = entry.spans[titleSourceField];
+                bibtex = `${bibtex.substring(0, span.start)}{[${rawFields[titleSourceField]}](${url})}${bibtex.substring(span.end)}`;
             }
         }
     }
@@ -142,34 +357,56 @@ export function parseBibtex(bibtex: string): ParsedCitation {
     // Generate a cleaned title for note names (no markdown links, no brackets)
     const cleanedTitle = title ? title.replace(/\[([^\]]+)\]\([^)]+\)/g, '$1').replace(/[[\]]/g, '') : null;
 
+    const contributors = mergeContributors(
+        parseBibtexNames(rawFields.author || '', 'author'),
+        parseBibtexNames(rawFields.editor || '', fields.editortype === 'compiler' ? 'compiler' : 'editor'),
+        parseBibtexNames(rawFields.translator || '', 'translator')
+    );
+
     // Generate cite key - use the BibTeX key if available, otherwise generate from author/year
-    let finalCiteKey = citeKey;
-    if (citeKey === 'unknown' && authorMatch && yearMatch) {
-        const authorLastName = authorMatch[1].split(',')[0].trim().toLowerCase().replace(/\s+/g, '-');
-        finalCiteKey = `${authorLastName}-${yearMatch[1]}`;
-    }
+    const finalCiteKey = citeKey === 'unknown' ? buildCiteKey(contributors, year) : citeKey;
 
     // Parse keywords into array
-    const keywords = keywordsMatch
-        ? keywordsMatch[1].split(/[;,]/).map(k => k.trim()).filter(k => k.length > 0)
+    const keywords = keywordsValue
+        ? keywordsValue.split(/[;,]/).map(k => k.trim()).filter(k => k.length > 0)
         : null;
 
-    return {
+    // The title above names the reference note; keep the article and its container apart as well
+    const containerValue = field('journaltitle') || field('journal') || field('booktitle');
+    const containerTitle = containerValue ? stripMarkdownLinks(containerValue) : null;
+    const articleTitle = containerTitle && field('title') ? stripMarkdownLinks(fields.title) : null;
+    let entryType: EntryType = entry ? BIBTEX_ENTRY_TYPES[entry.type] || 'misc' : 'misc';
+    if (entryType === 'chapter' && containerTitle && REFERENCE_WORK_REGEX.test(containerTitle)) {
+        entryType = 'dictionary-entry';
+    }
+
+    return withConfidence({
         format: 'bibtex',
         citeKey: finalCiteKey,
-        author: authorMatch ? authorMatch[1] : null,
+        author,
         title,
         cleanedTitle,
-        year: yearMatch ? yearMatch[1] : null,
-        pages: pagesMatch ? pagesMatch[1] : null,
-        publisher: publisherMatch ? publisherMatch[1] : null,
+        year,
+        pages: field('pages'),
+        publisher: field('publisher'),
         url: url,
         rawCitation: bibtex,
-        isbn: isbnMatch ? isbnMatch[1] : null,
-        abstract: abstractMatch ? abstractMatch[1] : null,
+        isbn: field('isbn'),
+        abstract: field('abstract'),
         keywords,
-        series: seriesMatch ? seriesMatch[1] : null,
-    };
+        series: field('series'),
+        contributors,
+        fields,
+        entryType,
+        containerTitle,
+        articleTitle,
+        volume: field('volume'),
+        issue: field('number') || field('issue'),
+        edition: field('edition'),
+        place: field('location') || field('address'),
+        doi: field('doi'),
+        editors: editorNames(contributors),
+    });
 }
 
 /**
@@ -201,7 +438,7 @@ export function parseMLA(text: string): ParsedCitation {
             title = bookTitleMatch[1].trim();
         } else {
             // Remove surrounding formatting (quotes, italics, asterisks) from the link text
-            title = markdownLinkMatch[1].replace(/^[_*“"‘']+|[_*”"’',]+$/g, '').trim();
+            title = markdownLinkMatch[1].replace(/^[_*“"‘']+|[_*”"’',.]+$/g, '').trim();
         }
 
         // Author is everything before the markdown link (before the title)
@@ -224,18 +461,19 @@ export function parseMLA(text: string): ParsedCitation {
         const titleMatch = citation.match(titleRegex);
 
         if (titleMatch) {
-            title = titleMatch[1].trim();
+            title = titleMatch[1].replace(/[.,]+$/, '').trim();
             const titleStart = citation.indexOf(titleMatch[0]);
-            author = citation.substring(0, titleStart).replace(/\.?\s*$/, '').trim();
+            author = authorBeforeTitle(citation.substring(0, titleStart));
 
-            const afterTitle = citation.substring(titleStart + titleMatch[0].length).trim();
+            // The year and publisher come before a trailing locator ("pp. 1-5")
+            const afterTitle = citation.substring(titleStart + titleMatch[0].length).trim()
+                .replace(TRAILING_LOCATOR_REGEX, '').replace(/[,\s]+$/, '');
             const yearMatch = afterTitle.match(/(\d{4})\.?$/);
             year = yearMatch ? yearMatch[1] : null;
 
-            // Publisher is everything after the title except the year, usually separated by a comma
-            let pubRaw = afterTitle.replace(/^[.,\s]+/, '').replace(/,?\s*\d{4}\.?$/, '').trim();
-            // Remove edition info like "2nd ed.,"
-            publisher = pubRaw.replace(/^[^,]+ed\.,\s*/i, '').trim();
+            // Publisher is the element before the year; container, editors, edition and volume precede it
+            const pubRaw = afterTitle.replace(/^[.,\s]+/, '').replace(/,?\s*\d{4}\.?$/, '').trim();
+            publisher = pubRaw.split(/,(?!\s*(?:Inc|Ltd|LLC|Incorporated)\b)\s*/).pop()?.trim() || null;
         } else {
             // Fallback for very simple formats
             // Author usually ends with a period followed by a word that doesn't look like an initial
@@ -252,14 +490,13 @@ export function parseMLA(text: string): ParsedCitation {
         }
     }
 
-    // Generate cite key from author and year
-    const citeKey = author && year
-        ? `${author.split(',')[0].toLowerCase().replace(/\s+/g, '-')}-${year}`
-        : 'unknown';
+    // Generate cite key from the first author and year
+    const contributors = buildContributors(author, citation);
+    const citeKey = buildCiteKey(contributors, year);
 
     const cleanedTitle = title ? title.replace(/\[([^\]]+)\]\([^)]+\)/g, '$1').replace(/[[\]]/g, '') : null;
 
-    return {
+    return withConfidence({
         format: 'mla',
         citeKey,
         author,
@@ -274,7 +511,9 @@ export function parseMLA(text: string): ParsedCitation {
         abstract: null,
         keywords: null,
         series: null,
-    };
+        contributors,
+        ...extractWorkDetails(citation, title, contributors),
+    });
 }
 
 /**
@@ -305,7 +544,7 @@ export function parseAPA(text: string): ParsedCitation {
         year = yearMatch ? yearMatch[1] : null;
 
         // Author is everything before "(Year)"
-        const yearIndex = citation.indexOf('(');
+        const yearIndex = citation.search(/\(\d{4}/);
         if (yearIndex > 0) {
             author = citation.substring(0, yearIndex).replace(/,$/, '').trim();
         }
@@ -321,8 +560,8 @@ export function parseAPA(text: string): ParsedCitation {
         const yearMatch = citation.match(/\((\d{4})\)/);
         year = yearMatch ? yearMatch[1] : null;
 
-        // Author is before the year
-        const yearIndex = citation.indexOf('(');
+        // Author is before the year (an "(Ed.)" marker stays with the author)
+        const yearIndex = citation.search(/\(\d{4}/);
         if (yearIndex > 0) {
             author = citation.substring(0, yearIndex).replace(/,$/, '').trim();
         }
@@ -347,18 +586,13 @@ export function parseAPA(text: string): ParsedCitation {
         }
     }
 
-    // Generate cite key from author last name and year
-    let citeKey = 'unknown';
-    if (author && year) {
-        // Handle multiple authors or names with punctuation
-        const firstAuthor = author.split(/[&,]|and/)[0].trim();
-        const lastName = firstAuthor.split(/\s+/).pop()?.toLowerCase().replace(/[^\w]/g, '') || 'unknown';
-        citeKey = `${lastName}-${year}`;
-    }
+    // Generate cite key from the first author's family name and year
+    const contributors = buildContributors(author, citation);
+    const citeKey = buildCiteKey(contributors, year);
 
     const cleanedTitle = title ? title.replace(/\[([^\]]+)\]\([^)]+\)/g, '$1').replace(/[[\]]/g, '') : null;
 
-    return {
+    return withConfidence({
         format: 'apa',
         citeKey,
         author,
@@ -373,18 +607,70 @@ export function parseAPA(text: string): ParsedCitation {
         abstract: null,
         keywords: null,
         series: null,
+        contributors,
+        ...extractWorkDetails(citation, title, contributors),
+    });
+}
+
+/**
+ * Chicago/Turabian (and SBL) shortened note: Family, Short Title, page.
+ * e.g. "Wright, *Resurrection*, 45." or "Elwell and Beitzel, “Wisdom,” 2152."
+ */
+const SHORT_NOTE_REGEX = /^(\p{Lu}[\p{L}'’-]+(?:,?\s+(?:and|&)\s+\p{Lu}[\p{L}'’-]+)*),\s+(\[[^\]]+\]\([^)]+\)|([_*]+)[^_*]+\3|[“"][^”"]+[”"]|[^,().]+),?\s+((?:\d+[a-z]?|[ivxlc]+)(?:\s*[–:,-]\s*\d+[a-z]?)*)\.?$/u;
+
+/**
+ * Matches a shortened note and returns its parts, or null if the text is not one
+ */
+function matchShortNote(citation: string): { author: string; title: string; url: string | null; pages: string } | null {
+    const match = citation.trim().match(SHORT_NOTE_REGEX);
+    if (!match) return null;
+
+    const linkMatch = match[2].match(/^\[([^\]]+)\]\(([^)]+)\)$/);
+    const rawTitle = linkMatch ? linkMatch[1] : match[2];
+
+    return {
+        author: match[1],
+        title: rawTitle.replace(/^[_*“"‘']+|[_*”"’',]+$/g, '').trim(),
+        url: linkMatch ? linkMatch[2] : null,
+        pages: match[4],
     };
 }
 
 /**
- * Parses a Chicago citation into a ParsedCitation
- * Format: Author. Title. Place: Publisher, Year.
+ * Parses a Chicago (or Turabian) citation into a ParsedCitation
+ * Bibliography: Author. Title. Place: Publisher, Year.
+ * Full note: Author, Title (Place: Publisher, Year), page.
+ * Shortened note: Author, Short Title, page.
  * Also handles Logos format: Author, [_Title_](url), Series (Place: Publisher, Year).
  */
 export function parseChicago(text: string): ParsedCitation {
     const lines = text.trim().split('\n');
     const citation = lines.join(' ').trim();
 
+    // Shortened notes carry no publication data; they are resolved against existing notes later
+    const shortNote = matchShortNote(citation);
+    if (shortNote) {
+        const contributors = parseContributorString(shortNote.author);
+        return withConfidence({
+            format: 'chicago',
+            citationForm: 'short-note',
+            citeKey: 'unknown',
+            author: shortNote.author,
+            title: shortNote.title,
+            cleanedTitle: shortNote.title,
+            year: null,
+            pages: shortNote.pages,
+            publisher: null,
+            url: shortNote.url,
+            rawCitation: citation,
+            isbn: null,
+            abstract: null,
+            keywords: null,
+            series: null,
+            contributors,
+        });
+    }
+
     let author: string | null = null;
     let title: string | null = null;
     let url: string | null = null;
@@ -403,13 +689,12 @@ export function parseChicago(text: string): ParsedCitation {
             title = inBookMatch[2].trim();
         } else {
             // Remove surrounding formatting (quotes, italics, asterisks) from the link text
-            title = markdownLinkMatch[1].replace(/^[_*“"‘']+|[_*”"’',]+$/g, '').trim();
+            title = markdownLinkMatch[1].replace(/^[_*“"‘']+|[_*”"’',.]+$/g, '').trim();
         }
 
         // Author is everything before the markdown link (before the comma or just before the bracket)
         const beforeLink = citation.substring(0, citation.indexOf('['));
-        // Remove trailing comma and whitespace
-        author = beforeLink.replace(/,?\s*$/, '').trim();
+        author = authorBeforeTitle(beforeLink);
 
         // Year is typically in parentheses: (Place: Publisher, Year) or just , Year)
         // If there are page numbers after the parentheses, we shouldn't confuse them with the year.
@@ -430,9 +715,10 @@ export function parseChicago(text: string): ParsedCitation {
         const titleMatch = citation.match(titleRegex);
 
         if (titleMatch) {
-            title = titleMatch[1].trim();
+            // A quoted title keeps its terminal punctuation inside the quotes
+            title = titleMatch[1].replace(/[.,]+$/, '').trim();
             const titleStart = citation.indexOf(titleMatch[0]);
-            author = citation.substring(0, titleStart).replace(/\.?\s*$/, '').trim();
+            author = authorBeforeTitle(citation.substring(0, titleStart));
 
             const afterTitle = citation.substring(titleStart + titleMatch[0].length).trim();
             const yearMatch = afterTitle.match(/,\s*(\d{4})\.?$/);
@@ -486,24 +772,25 @@ export function parseChicago(text: string): ParsedCitation {
     }
 
 
-    // Generate cite key from author and year
-    let citeKey = 'unknown';
-    if (author && year) {
-        const firstAuthor = author.split(/[&,]|and/)[0].trim();
-        const lastName = firstAuthor.split(/\s+/).pop()?.toLowerCase().replace(/[^\w]/g, '') || 'unknown';
-        citeKey = `${lastName}-${year}`;
-    }
+    // Generate cite key from the first author's family name and year
+    const contributors = buildContributors(author, citation);
+    const citeKey = buildCiteKey(contributors, year);
 
     const cleanedTitle = title ? title.replace(/\[([^\]]+)\]\([^)]+\)/g, '$1').replace(/[[\]]/g, '') : null;
 
-    return {
+    // Full notes wrap the publication data in parentheses and end with the page locator
+    const withoutLinkTargets = citation.replace(/\]\([^)]*\)/g, ']');
+    const noteMatch = withoutLinkTargets.match(/\([^()]*\d{4}[^()]*\)(?:,\s*([^()]+?))?\.?\s*$/);
+
+    return withConfidence({
         format: 'chicago',
+        citationForm: noteMatch ? 'note' : 'bibliography',
         citeKey,
         author,
         title,
         cleanedTitle,
         year,
-        pages: null,
+        pages: noteMatch && noteMatch[1] ? noteMatch[1].trim() : null,
         publisher,
         url,
         rawCitation: citation,
@@ -511,7 +798,586 @@ export function parseChicago(text: string): ParsedCitation {
         abstract: null,
         keywords: null,
         series: null,
+        contributors,
+        ...extractWorkDetails(citation, title, contributors),
+    });
+}
+
+/**
+ * Series abbreviation with a volume number, e.g. "WBC 34A", "AB 28–28A" or "JSNTSup 12"
+ */
+const SBL_SERIES_REGEX = /^([A-Z][A-Za-z]*[A-Z][A-Za-z]*)\s+(\d+[A-Z]?(?:[–-]\d+[A-Z]?)?)$/;
+
+/**
+ * Series or journal abbreviation without a volume, e.g. "PNTC" or "JSNTSup"
+ */
+const SBL_ABBREVIATION_REGEX = /^[A-Z][A-Za-z]*[A-Z][A-Za-z]*$/;
+
+/**
+ * SBL journal article: a quoted title, then the journal abbreviation, volume and
+ * year, e.g. “Psalm 143 and the Logic of Romans 3,” JBL 99 (1980): 107–15.
+ * Link targets must be removed first.
+ */
+const SBL_JOURNAL_REGEX = /\[?[“"]([^”"]+?)[.,]?[”"]\]?\s+([A-Z][A-Za-z]*[A-Z][A-Za-z]*)\s+(\d+[A-Z]?)\s*\((?:[^()]*\s)?(\d{4})\)(?::\s*([^()]+?))?\.?\s*$/;
+
+/**
+ * Reads series and volume information from the segments between an SBL title
+ * and its publication data, e.g. ["2 vols.", "AB 28–28A"] or ["vol. 42", "Word Biblical Commentary"]
+ */
+function parseSblSeries(segments: string[]): string | null {
+    let seriesName: string | null = null;
+    let volume: string | null = null;
+
+    for (const raw of segments) {
+        const segment = raw.trim().replace(/^[.,;\s]+|[.,;\s]+$/g, '');
+        if (!segment) continue;
+
+        // Multivolume counts ("2 vols.") and credits ("ed. ...", "trans. ...") are not series
+        if (/^\d+\s+vols?\.?$/i.test(segment)) continue;
+        if (/^(?:ed|eds|trans|comp|edited by|translated by|compiled by)\b/i.test(segment)) continue;
+
+        const volumeMatch = segment.match(/^vols?\.\s*(\S+)$/i);
+        if (volumeMatch) {
+            volume = volumeMatch[1];
+            continue;
+        }
+
+        if (SBL_SERIES_REGEX.test(segment)) return segment;
+        if (!seriesName) seriesName = segment;
+    }
+
+    if (!seriesName) return null;
+    return volume ? `${seriesName} ${volume}` : seriesName;
+}
+
+/**
+ * Parses an SBL Handbook of Style citation into a ParsedCitation
+ * Note form: Author, Title, Series Vol (Place: Publisher, Year), page.
+ * Also the first-edition note form: Author, Title (Series Vol; Place: Publisher, Year), page.
+ * Bibliography form: Author. Title. Series Vol. Place: Publisher, Year.
+ */
+export function parseSBL(text: string): ParsedCitation {
+    const lines = text.trim().split('\n');
+    // Footnotes copied from a document may keep their note number
+    const citation = lines.join(' ').trim().replace(/^\d+\.\s+/, '');
+
+    // Journal articles carry the journal abbreviation, volume and year instead of publication data
+    const journalMatch = citation.replace(/\]\([^)]*\)/g, ']').match(SBL_JOURNAL_REGEX);
+    if (journalMatch && journalMatch.index !== undefined) {
+        const beforeTitle = citation.substring(0, citation.search(/\[?[“"]/));
+        const isNote = /,\s*$/.test(beforeTitle);
+        const articleAuthor = beforeTitle.replace(/[,.\s]+$/, '').trim() || null;
+        const articleTitle = journalMatch[1].trim();
+        const linkMatch = citation.match(/\]\(([^)]+)\)/);
+        const contributors = buildContributors(articleAuthor, citation);
+
+        return withConfidence({
+            format: 'sbl',
+            citationForm: isNote ? 'note' : 'bibliography',
+            citeKey: buildCiteKey(contributors, journalMatch[4]),
+            author: articleAuthor,
+            title: articleTitle,
+            cleanedTitle: articleTitle,
+            year: journalMatch[4],
+            pages: isNote && journalMatch[5] ? journalMatch[5].trim() : null,
+            publisher: null,
+            url: linkMatch ? linkMatch[1] : null,
+            rawCitation: citation,
+            isbn: null,
+            abstract: null,
+            keywords: null,
+            series: null,
+            contributors,
+            ...extractWorkDetails(citation, articleTitle, contributors),
+            entryType: 'article',
+            containerTitle: journalMatch[2],
+            articleTitle,
+            volume: journalMatch[3],
+        });
+    }
+
+    let author: string | null = null;
+    let title: string | null = null;
+    let url: string | null = null;
+    let year: string | null = null;
+    let publisher: string | null = null;
+    let pages: string | null = null;
+    let titleStart = -1;
+    let titleEnd = -1;
+
+    // Publication data is the last parenthetical with a year that is not a link target
+    const pubParens = Array.from(citation.matchAll(/\(([^()]*\d{4}[^()]*)\)/g))
+        .filter(m => !/^https?:/.test(m[1]));
+    const pubParen = pubParens.length > 0 ? pubParens[pubParens.length - 1] : null;
+
+    const markdownLinkMatch = citation.match(/\[([^\]]+)\]\(([^)]+)\)/);
+    const inBookMatch = citation.match(/\bin\s+([_*]+)(.*?)\1/);
+    const italicMatch = citation.match(/([_*]+)([^_*]+)\1/);
+
+    if (markdownLinkMatch && markdownLinkMatch.index !== undefined) {
+        url = markdownLinkMatch[2];
+        titleStart = markdownLinkMatch.index;
+        titleEnd = titleStart + markdownLinkMatch[0].length;
+        // Remove surrounding formatting (quotes, italics, asterisks) from the link text
+        title = markdownLinkMatch[1].replace(/^[_*“"‘']+|[_*”"’',.]+$/g, '').trim();
+    } else if (italicMatch && italicMatch.index !== undefined) {
+        titleStart = italicMatch.index;
+        titleEnd = titleStart + italicMatch[0].length;
+        title = italicMatch[2].trim();
+    }
+
+    // Articles in dictionaries and encyclopedias are filed under the containing work
+    if (inBookMatch && inBookMatch.index !== undefined) {
+        const quotedArticleMatch = citation.match(/[“"][^”"]+[”"]\s*in\s+[_*]/);
+        if (!markdownLinkMatch && quotedArticleMatch && quotedArticleMatch.index !== undefined) {
+            titleStart = quotedArticleMatch.index;
+        } else if (titleStart === -1) {
+            titleStart = inBookMatch.index;
+        }
+        titleEnd = inBookMatch.index + inBookMatch[0].length;
+        title = inBookMatch[2].trim();
+    }
+
+    let seriesSegments: string[] = [];
+    let publication: string | null = null;
+
+    if (pubParen && pubParen.index !== undefined) {
+        // Note form
+        if (titleStart === -1) {
+            // Plain text: Author, Title[, Series Vol] (Publication), page.
+            const firstComma = citation.indexOf(',');
+            if (firstComma > 0 && firstComma < pubParen.index) {
+                titleStart = firstComma + 1;
+                const parts = citation.substring(titleStart, pubParen.index).split(/,\s+/);
+                const seriesIndex = parts.findIndex((p, i) => i > 0 && (SBL_SERIES_REGEX.test(p.trim()) || /^(?:vols?\.|\d+\s+vols?\.)/i.test(p.trim())
+                    // A series abbreviation without a volume directly precedes the publication data
+                    || (i === parts.length - 1 && SBL_ABBREVIATION_REGEX.test(p.trim()))));
+                const titleParts = seriesIndex === -1 ? parts : parts.slice(0, seriesIndex);
+                title = titleParts.join(', ').trim();
+                titleEnd = titleStart + titleParts.join(', ').length;
+            }
+        }
+
+        if (titleStart > 0) {
+            author = citation.substring(0, titleStart).replace(/[,.\s]+$/, '').trim();
+        }
+
+        seriesSegments = citation.substring(titleEnd, pubParen.index).split(',');
+        const parenSegments = pubParen[1].split(';');
+        publication = parenSegments.pop() || null;
+        seriesSegments.push(...parenSegments);
+
+        // Page locator follows the parenthetical: "), 45.", "), 2:152." or "), 45 n. 3."
+        const locatorMatch = citation.substring(pubParen.index + pubParen[0].length).match(/^,\s*([^()]+?)\.?\s*$/);
+        pages = locatorMatch ? locatorMatch[1].trim() : null;
+    } else {
+        // Bibliography form
+        if (titleStart === -1) {
+            // Author usually ends with a period followed by a word that doesn't look like an initial
+            const authorMatch = citation.match(/^(.+?)\.(?=\s+[A-Z][A-Za-z\d]+(?!\.))/) || citation.match(/^([^.]+)\./);
+            if (authorMatch) {
+                titleStart = authorMatch[0].length;
+                const rest = citation.substring(titleStart);
+                const titleMatch = rest.match(/^\s*(.+?)\.(?:\s+|$)/);
+                title = titleMatch ? titleMatch[1].trim() : rest.trim();
+                titleEnd = titleStart + (titleMatch ? titleMatch[0].length : rest.length);
+            }
+        }
+
+        if (titleStart > 0) {
+            author = citation.substring(0, titleStart).replace(/[,.\s]+$/, '').trim();
+        }
+
+        if (titleEnd !== -1) {
+            const segments = citation.substring(titleEnd).split(/\.\s+/);
+            const pubIndex = segments.findIndex(s => /\d{4}/.test(s) && !SBL_SERIES_REGEX.test(s.trim()));
+            if (pubIndex !== -1) {
+                publication = segments[pubIndex];
+                seriesSegments = segments.slice(0, pubIndex);
+            } else {
+                seriesSegments = segments;
+            }
+        }
+    }
+
+    if (publication) {
+        const yearMatch = publication.match(/(\d{4})/);
+        year = yearMatch ? yearMatch[1] : null;
+        const publisherMatch = publication.match(/(?:^|:)\s*([^:]+?),\s*\d{4}/);
+        publisher = publisherMatch ? publisherMatch[1].trim() : null;
+    }
+
+    const series = parseSblSeries(seriesSegments);
+
+    // Generate cite key from the first author's family name and year
+    const contributors = buildContributors(author, citation);
+    const citeKey = buildCiteKey(contributors, year);
+
+    const cleanedTitle = title ? title.replace(/\[([^\]]+)\]\([^)]+\)/g, '$1').replace(/[[\]]/g, '') : null;
+
+    return withConfidence({
+        format: 'sbl',
+        citationForm: pubParen ? 'note' : 'bibliography',
+        citeKey,
+        author,
+        title,
+        cleanedTitle,
+        year,
+        pages,
+        publisher,
+        url,
+        rawCitation: citation,
+        isbn: null,
+        abstract: null,
+        keywords: null,
+        series,
+        contributors,
+        ...extractWorkDetails(citation, title, contributors),
+    });
+}
+
+/**
+ * Keeps only the non-empty values, for use as a ParsedCitation's field map
+ */
+function compactFields(values: Record<string, string | number | null | undefined>): Record<string, string> {
+    const fields: Record<string, string> = {};
+    for (const [name, value] of Object.entries(values)) {
+        if (value !== null && value !== undefined && String(value).trim()) {
+            fields[name] = String(value).trim();
+        }
+    }
+    return fields;
+}
+
+/**
+ * Joins the authors as an inverted "and" list, matching a BibTeX author field
+ */
+function authorList(contributors: Contributor[]): string | null {
+    const authors = contributors.filter(c => c.role === 'author').map(c => formatInvertedName(c));
+    return authors.length > 0 ? authors.join(' and ') : null;
+}
+
+/**
+ * RIS reference types whose container is a periodical rather than a book
+ */
+const RIS_PERIODICAL_TYPES = ['JOUR', 'JFULL', 'EJOUR', 'MGZN', 'NEWS'];
+
+/**
+ * RIS reference types that describe a whole book
+ */
+const RIS_BOOK_TYPES = ['BOOK', 'EBOOK', 'EDBOOK'];
+
+/**
+ * Entry types for RIS reference types; anything else is "misc"
+ */
+const RIS_ENTRY_TYPES: Record<string, EntryType> = {
+    BOOK: 'book', EBOOK: 'book', EDBOOK: 'book',
+    CHAP: 'chapter', ECHAP: 'chapter', CONF: 'chapter', CPAPER: 'chapter',
+    JOUR: 'article', EJOUR: 'article', MGZN: 'article', NEWS: 'article',
+    DICT: 'dictionary-entry', ENCYC: 'dictionary-entry',
+    THES: 'thesis', RPRT: 'report', ELEC: 'webpage', WEB: 'webpage',
+};
+
+/**
+ * Parses the first RIS record into a ParsedCitation
+ * Format: TY  - BOOK / AU  - Family, Given / TI  - Title / ... / ER  -
+ */
+export function parseRIS(text: string): ParsedCitation {
+    const record = parseRisRecords(text)[0];
+    const tags = record ? record.tags : {};
+    const type = record ? record.type : '';
+    const tag = (...names: string[]): string | null => {
+        for (const name of names) {
+            if (tags[name] && tags[name][0]) return tags[name][0];
+        }
+        return null;
     };
+    const names = (role: Contributor['role'], ...names: string[]): Contributor[] =>
+        names.flatMap(name => tags[name] || [])
+            .map(value => parseRisName(value, role))
+            .filter((c): c is Contributor => c !== null);
+
+    const isBook = RIS_BOOK_TYPES.includes(type);
+    const itemTitle = tag('TI', 'T1', 'CT') || (isBook ? tag('BT') : null);
+    const container = isBook ? null : tag('JO', 'JF', 'T2', 'JA', 'BT');
+    const series = tag('T3') || (isBook ? tag('T2') : null);
+
+    const yearMatch = (tag('PY', 'Y1', 'DA') || '').match(/\d{4}/);
+    const year = yearMatch ? yearMatch[0] : null;
+
+    const startPage = tag('SP');
+    const endPage = tag('EP');
+    const pages = startPage && endPage && !startPage.includes('-') ? `${startPage}-${endPage}` : startPage;
+
+    // SN holds the ISBN for books and the ISSN for periodicals
+    const serial = tag('SN');
+    const isIssn = serial !== null && /^\d{4}-?\d{3}[\dXx]$/.test(serial);
+
+    const contributors = mergeContributors(
+        names('author', 'AU', 'A1'),
+        names('editor', 'A2', 'ED'),
+        names('translator', 'A4')
+    );
+
+    // Same fallback as BibTeX: the container names the reference note
+    const title = container || itemTitle || series;
+    const keywords = tags.KW && tags.KW.length > 0 ? tags.KW.filter(k => k.length > 0) : null;
+    const doi = (tag('DO') || '').replace(/^https?:\/\/(?:dx\.)?doi\.org\//i, '') || null;
+    let entryType = RIS_ENTRY_TYPES[type] || 'misc';
+    if (entryType === 'chapter' && container && REFERENCE_WORK_REGEX.test(container)) {
+        entryType = 'dictionary-entry';
+    }
+    const idTag = tag('ID');
+    const citeKey = idTag
+        ? idTag.replace(/[_\W]+/g, '-').replace(/-+/g, '-').replace(/^-|-$/g, '') || buildCiteKey(contributors, year)
+        : buildCiteKey(contributors, year);
+
+    return withConfidence({
+        format: 'ris',
+        citeKey,
+        author: authorList(contributors),
+        title,
+        cleanedTitle: title,
+        year,
+        pages,
+        publisher: tag('PB'),
+        url: tag('UR'),
+        rawCitation: record ? text.substring(record.start, record.end).trim() : text.trim(),
+        isbn: serial && !isIssn ? serial : null,
+        abstract: tag('AB', 'N2'),
+        keywords,
+        series,
+        contributors,
+        fields: compactFields({
+            title: itemTitle,
+            [RIS_PERIODICAL_TYPES.includes(type) ? 'journal' : 'booktitle']: container,
+            series,
+            volume: tag('VL'),
+            number: tag('IS'),
+            edition: tag('ET'),
+            address: tag('CY'),
+            publisher: tag('PB'),
+            year,
+            pages,
+            doi,
+            isbn: serial && !isIssn ? serial : null,
+            issn: isIssn ? serial : null,
+            url: tag('UR'),
+        }),
+        entryType,
+        containerTitle: container,
+        articleTitle: container ? itemTitle : null,
+        volume: tag('VL'),
+        issue: tag('IS'),
+        edition: tag('ET'),
+        place: tag('CY'),
+        doi,
+        editors: editorNames(contributors),
+    });
+}
+
+/**
+ * CSL item types whose container is a periodical rather than a book
+ */
+const CSL_PERIODICAL_TYPES = ['article-journal', 'article-magazine', 'article-newspaper'];
+
+/**
+ * Entry types for CSL item types; anything else is "misc"
+ */
+const CSL_ENTRY_TYPES: Record<string, EntryType> = {
+    book: 'book', classic: 'book',
+    chapter: 'chapter', 'paper-conference': 'chapter',
+    'article-journal': 'article', 'article-magazine': 'article', 'article-newspaper': 'article', article: 'article',
+    entry: 'dictionary-entry', 'entry-dictionary': 'dictionary-entry', 'entry-encyclopedia': 'dictionary-entry',
+    thesis: 'thesis', report: 'report', webpage: 'webpage', 'post-weblog': 'webpage',
+};
+
+/**
+ * Parses the first CSL-JSON item into a ParsedCitation
+ * Format: {"type": "book", "title": "...", "author": [{"family": "...", "given": "..."}], ...}
+ */
+export function parseCslJson(text: string): ParsedCitation {
+    const csl = extractCslJson(text);
+    const item = csl ? csl.items[0] : {};
+
+    const contributors = cslContributors(item);
+    const year = cslYear(item.issued);
+    const container = item['container-title'] || null;
+    const itemTitle = item.title || null;
+    const series = item['collection-title']
+        ? [item['collection-title'], item['collection-number']].filter(part => part !== undefined).join(' ')
+        : null;
+
+    // Container first, as for RIS
+    const title = container || itemTitle || series;
+    const keywords = item.keyword
+        ? item.keyword.split(/[;,]/).map(k => k.trim()).filter(k => k.length > 0)
+        : null;
+    const optional = (value: string | number | undefined): string | null =>
+        value !== undefined && String(value).trim() ? String(value).trim() : null;
+    const citationKey = item['citation-key'];
+    const citeKey = citationKey
+        ? citationKey.replace(/[_\W]+/g, '-').replace(/-+/g, '-').replace(/^-|-$/g, '') || buildCiteKey(contributors, year)
+        : buildCiteKey(contributors, year);
+
+    return withConfidence({
+        format: 'csl-json',
+        citeKey,
+        author: authorList(contributors),
+        title,
+        cleanedTitle: title,
+        year,
+        pages: item.page || null,
+        publisher: item.publisher || null,
+        url: item.URL || null,
+        rawCitation: csl ? text.substring(csl.start).trim() : text.trim(),
+        isbn: item.ISBN || null,
+        abstract: item.abstract || null,
+        keywords,
+        series,
+        contributors,
+        fields: compactFields({
+            title: itemTitle,
+            [CSL_PERIODICAL_TYPES.includes(item.type || '') ? 'journal' : 'booktitle']: container,
+            series,
+            volume: item.volume,
+            number: item.issue,
+            edition: item.edition,
+            address: item['publisher-place'],
+            publisher: item.publisher,
+            year,
+            pages: item.page,
+            doi: item.DOI,
+            isbn: item.ISBN,
+            issn: item.ISSN,
+            url: item.URL,
+        }),
+        entryType: CSL_ENTRY_TYPES[item.type || ''] || 'misc',
+        containerTitle: container,
+        articleTitle: container ? itemTitle : null,
+        volume: optional(item.volume),
+        issue: optional(item.issue),
+        edition: optional(item.edition),
+        place: optional(item['publisher-place']),
+        doi: optional(item.DOI),
+        editors: editorNames(contributors),
+    });
+}
+
+/**
+ * Parses citation text with the parser for the given format
+ */
+function parseCitationText(citationText: string, format: CitationFormat): ParsedCitation {
+    switch (format) {
+        case 'mla':
+            return parseMLA(citationText);
+        case 'apa':
+            return parseAPA(citationText);
+        case 'chicago':
+            return parseChicago(citationText);
+        case 'sbl':
+            return parseSBL(citationText);
+        case 'ris':
+            return parseRIS(citationText);
+        case 'csl-json':
+            return parseCslJson(citationText);
+        case 'bibtex':
+        default:
+            return parseBibtex(citationText);
+    }
+}
+
+/**
+ * Returns true if a paragraph reads as a complete citation of the given format
+ * rather than quoted text: short, detected as that format, dated, and parsed confidently
+ */
+function isCitationParagraph(paragraph: string, format: CitationFormat): boolean {
+    if (paragraph.split('\n').length > 3) return false;
+
+    const detected = detectCitationFormat(paragraph);
+    if (detected === 'bibtex' || (format !== 'auto' && detected !== format)) return false;
+
+    const citation = parseCitationText(paragraph, detected);
+    return citation.year !== null && (citation.confidence ?? 0) >= LOW_CONFIDENCE_THRESHOLD;
+}
+
+/**
+ * Detects the citation format of a clipboard. Structured citations (RIS, CSL-JSON,
+ * BibTeX) are found anywhere; formatted ones are read from the last paragraph only
+ * (or its last line, when the citation follows the quote after a single line break),
+ * so publication data inside the quoted text is not taken for the citation's.
+ */
+function detectClipboardFormat(clipboard: string): CitationFormat {
+    const trimmed = clipboard.trim();
+    const whole = detectCitationFormat(trimmed);
+    if (whole === 'ris' || whole === 'csl-json' || (whole === 'bibtex' && /(?:^|\s)@\w+\{/.test(trimmed))) {
+        return whole;
+    }
+
+    const paragraphs = trimmed.split(/\n[ \t]*\n/);
+    const citation = paragraphs[paragraphs.length - 1].trim();
+    if (citation.includes('\n')) {
+        const lastLine = detectCitationFormat(citation.substring(citation.lastIndexOf('\n') + 1));
+        if (lastLine !== 'bibtex') return lastLine;
+    }
+    return detectCitationFormat(citation);
+}
+
+/**
+ * Splits a clipboard that holds several Logos copies (text followed by its
+ * citation, repeated) into one chunk per copy. A clipboard with at most one
+ * citation is returned whole.
+ */
+export function splitClipboardEntries(clipboard: string, preferredFormat: CitationFormat = 'auto'): string[] {
+    const trimmed = clipboard.trim();
+    const format = preferredFormat === 'auto' ? detectClipboardFormat(trimmed) : preferredFormat;
+
+    // Offsets just after each citation
+    let ends: number[] = [];
+    if (format === 'bibtex') {
+        ends = parseBibtexDatabase(trimmed).entries.map(entry => entry.end);
+    } else if (format === 'ris') {
+        ends = parseRisRecords(trimmed).map(record => record.end);
+    } else if (format !== 'csl-json') {
+        // Formatted citations sit in their own paragraph after the quoted text
+        const paragraphs = [...trimmed.matchAll(/\S[\s\S]*?(?=\n[ \t]*\n|$)/g)];
+        const lastLine = (paragraph: string) => paragraph.substring(paragraph.lastIndexOf('\n') + 1);
+        // Quoted text followed by its citation after a single line break
+        const endsInCitation = (paragraph: string) => paragraph.includes('\n') && isCitationParagraph(lastLine(paragraph), preferredFormat);
+
+        // Copies are laid out alike, so the last one tells whether citations have a paragraph of
+        // their own and which format they are in. A quote that merely ends in a reference-like
+        // line is then not split off.
+        const finalParagraph = paragraphs.length > 0 ? paragraphs[paragraphs.length - 1][0] : '';
+        const inline = endsInCitation(finalParagraph);
+        const citationFormat = preferredFormat === 'auto'
+            ? detectCitationFormat(inline ? lastLine(finalParagraph) : finalParagraph)
+            : preferredFormat;
+
+        for (const match of paragraphs) {
+            const isBoundary = inline
+                ? isCitationParagraph(lastLine(match[0]), citationFormat)
+                : !endsInCitation(match[0]) && isCitationParagraph(match[0], citationFormat);
+            if (match.index !== undefined && isBoundary) {
+                ends.push(match.index + match[0].length);
+            }
+        }
+    }
+
+    if (ends.length < 2) return [trimmed];
+
+    // Text after the last citation stays with the last copy
+    return ends.map((end, index) => trimmed.substring(
+        index === 0 ? 0 : ends[index - 1],
+        index === ends.length - 1 ? trimmed.length : end
+    ).trim());
+}
+
+/**
+ * Parses a clipboard holding one or more Logos copies, one result per copy
+ */
+export function parseLogosClipboardEntries(clipboard: string, preferredFormat: CitationFormat = 'auto'): ParsedClipboard[] {
+    return splitClipboardEntries(clipboard, preferredFormat).map(chunk => parseLogosClipboard(chunk, preferredFormat));
 }
 
 /**
@@ -532,7 +1398,7 @@ export function parseLogosClipboard(clipboard: string, preferredFormat: Citation
     }
 
     // Detect format
-    const format = preferredFormat === 'auto' ? detectCitationFormat(trimmed) : preferredFormat;
+    const format = preferredFormat === 'auto' ? detectClipboardFormat(trimmed) : preferredFormat;
 
     let mainText = "";
     let citationText = trimmed;
@@ -548,6 +1414,19 @@ export function parseLogosClipboard(clipboard: string, preferredFormat: Citation
             mainText = trimmed;
             citationText = "";
         }
+    } else if (format === 'ris') {
+        // Anything before the TY line is the quoted text
+        const start = trimmed.search(/^TY\s{1,2}-\s/m);
+        if (start > 0) {
+            mainText = trimmed.substring(0, start).trim();
+            citationText = trimmed.substring(start).trim();
+        }
+    } else if (format === 'csl-json') {
+        const csl = extractCslJson(trimmed);
+        if (csl && csl.start > 0) {
+            mainText = trimmed.substring(0, csl.start).trim();
+            citationText = trimmed.substring(csl.start).trim();
+        }
     } else {
         // For other formats (MLA, APA, Chicago), look for a newline separation
         // Logos typically puts the citation at the end after one or more newlines
@@ -569,11 +1448,11 @@ export function parseLogosClipboard(clipboard: string, preferredFormat: Citation
             // Heuristics for citation start:
             // APA: Author (Year)
             // MLA: Author. Title
-            // Chicago: Author. Title
+            // Chicago/SBL: Author. Title
             const looksLikeCitation =
                 (format === 'apa' && /\(\d{4}\)/.test(line)) ||
                 (format === 'mla' && /[A-Z][a-z]+,?\s+[A-Z]/.test(line) && (line.includes('.') || line.includes('_') || line.includes('*'))) ||
-                (format === 'chicago' && /[A-Z][a-z]+,?\s+[A-Z]/.test(line) && (line.includes('.') || line.includes('_') || line.includes('*')));
+                ((format === 'chicago' || format === 'sbl') && /[A-Z][a-z]+,?\s+[A-Z]/.test(line) && (line.includes('.') || line.includes('_') || line.includes('*')));
 
             if (looksLikeCitation) {
                 citationStartIndex = i;
@@ -598,37 +1477,21 @@ export function parseLogosClipboard(clipboard: string, preferredFormat: Citation
 
     // Extract page number if present (before parsing format-specific fields)
     let pageFromText: string | null = null;
-    if (citationText) {
+    if (citationText && format !== 'ris' && format !== 'csl-json') {
         const { cleanedText, page } = extractPageNumber(citationText);
         citationText = cleanedText;
         pageFromText = page;
     }
 
     // Parse the citation part
-    let citation: ParsedCitation | null = null;
-    if (citationText) {
-        switch (format) {
-            case 'mla':
-                citation = parseMLA(citationText);
-                break;
-            case 'apa':
-                citation = parseAPA(citationText);
-                break;
-            case 'chicago':
-                citation = parseChicago(citationText);
-                break;
-            case 'bibtex':
-                citation = parseBibtex(citationText);
-                break;
-            default:
-                citation = parseBibtex(citationText);
-        }
-    }
+    const citation = citationText ? parseCitationText(citationText, format) : null;
 
+    const page = pageFromText || (citation ? citation.pages : null);
     return {
         mainText: mainText.trim(),
         citation,
-        page: pageFromText || (citation ? citation.pages : null),
+        page,
+        locator: parseLocator(page),
         reflyLink,
     };
 }
@@ -646,18 +1509,26 @@ export function extractCiteKey(bibtex: string): string {
 }
 
 /**
- * Extracts page number from text (typically at the end of a citation)
+ * Extracts the page (or other labelled locator, or classical locus) from the end of a citation
  */
 export function extractPageNumber(text: string): { cleanedText: string, page: string | null } {
-    // Match common page patterns at the end of a citation
-    // Added comma and space to the leading character class to clean the remaining string better
-    const pageRegex = /[([ ,]?(p{1,2}\.? ?\d+([–-]\d+)?)[)\]]?\.?$/i;
-    const match = text.match(pageRegex);
+    // Match labelled locators at the end of a citation: pages (roman numerals,
+    // multiple ranges, notes), sections and columns
+    const match = text.match(TRAILING_LOCATOR_REGEX);
     if (match) {
         const page = match[1];
-        const cleanedText = text.replace(pageRegex, "").trim();
+        const cleanedText = text.replace(TRAILING_LOCATOR_REGEX, "").trim();
         return { cleanedText, page };
     }
+
+    // Loci have no label ("…, Inst. 1.3.1."): try the segments after the last commas or parenthesis, shortest first
+    for (const separator of [...text.matchAll(/[,(]\s*/g)].reverse()) {
+        const index = separator.index ?? 0;
+        const locator = parseLocator(text.substring(index + separator[0].length).replace(/[)\]]?\.?\s*$/, ''));
+        if (locator && locator.kind === 'locus') {
+            return { cleanedText: text.substring(0, index).trim(), page: locator.value };
+        }
+    }
     return { cleanedText: text.trim(), page: null };
 }
 
@@ -665,16 +1536,16 @@ export function extractPageNumber(text: string): { cleanedText: string, page: st
  * Extracts pages field from BibTeX content
  */
 export function extractPagesFromBibtex(bibtex: string): string | null {
-    const match = bibtex.match(/pages\s*=\s*[{"']([^}"']+)[}"']/i);
-    return match ? match[1] : null;
+    const entry = parseFirstBibtexEntry(bibtex);
+    return entry && entry.fields.pages ? entry.fields.pages : null;
 }
 
 /**
  * Extracts book title from BibTeX content
  */
 export function extractBookTitle(bibtex: string): string | null {
-    const titleMatch = bibtex.match(/title\s*=\s*\{([^}]+)\}/i);
-    return titleMatch ? titleMatch[1] : null;
+    const entry = parseFirstBibtexEntry(bibtex);
+    return entry && entry.fields.title ? entry.fields.title : null;
 }
 
 /**
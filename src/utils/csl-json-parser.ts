@@ -0,0 +1,149 @@
+/**
+ * Reader for CSL-JSON items as placed on the clipboard by Zotero and citation managers
+ */
+
+import { Contributor, ContributorRole } from '../types';
+
+/**
+ * A CSL name variable entry
+ */
+export interface CslName {
+    family?: string;
+    given?: string;
+    suffix?: string;
+    'non-dropping-particle'?: string;
+    'dropping-particle'?: string;
+    /** Institutional or otherwise unstructured name */
+    literal?: string;
+}
+
+/**
+ * A CSL date variable, either as date parts or as a raw/literal string
+ */
+export interface CslDate {
+    'date-parts'?: (number | string)[][];
+    raw?: string;
+    literal?: string;
+}
+
+/**
+ * The subset of CSL-JSON item variables the plugin reads
+ */
+export interface CslItem {
+    id?: string | number;
+    type?: string;
+    'citation-key'?: string;
+    title?: string;
+    'container-title'?: string;
+    'collection-title'?: string;
+    'collection-number'?: string | number;
+    publisher?: string;
+    'publisher-place'?: string;
+    volume?: string | number;
+    issue?: string | number;
+    edition?: string | number;
+    page?: string;
+    DOI?: string;
+    ISBN?: string;
+    ISSN?: string;
+    URL?: string;
+    abstract?: string;
+    keyword?: string;
+    issued?: CslDate;
+    author?: CslName[];
+    editor?: CslName[];
+    translator?: CslName[];
+    compiler?: CslName[];
+}
+
+/**
+ * Returns true if the parsed JSON value looks like a CSL item
+ */
+function isCslItem(value: unknown): value is CslItem {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) return false;
+    const item = value as Record<string, unknown>;
+    return typeof item.type === 'string' && (typeof item.title === 'string' || Array.isArray(item.author));
+}
+
+/**
+ * Finds CSL-JSON (an item or an array of items) at the end of the text.
+ * Returns the offset where the JSON starts so any preceding quoted text can be
+ * kept, or null if the text holds no CSL-JSON.
+ */
+export function extractCslJson(text: string): { start: number; items: CslItem[] } | null {
+    const starts = /^[ \t]*[[{]/gm;
+    let match: RegExpExecArray | null;
+
+    while ((match = starts.exec(text)) !== null) {
+        const start = match.index + match[0].length - 1;
+        let parsed: unknown;
+        try {
+            parsed = JSON.parse(text.substring(start));
+        } catch {
+            continue;
+        }
+
+        const values: unknown[] = Array.isArray(parsed) ? parsed : [parsed];
+        if (values.length > 0 && values.every(isCslItem)) {
+            return { start, items: values };
+        }
+    }
+
+    return null;
+}
+
+/**
+ * Returns the four-digit year of a CSL date, if any
+ */
+export function cslYear(date: CslDate | undefined): string | null {
+    if (!date) return null;
+    const first = date['date-parts'] && date['date-parts'][0] ? date['date-parts'][0][0] : undefined;
+    const source = first !== undefined ? String(first) : (date.raw || date.literal || '');
+    const match = source.match(/\d{4}/);
+    return match ? match[0] : null;
+}
+
+/**
+ * CSL name variables read as contributors; each shares its name with the role
+ */
+const CSL_NAME_VARIABLES: ContributorRole[] = ['author', 'editor', 'translator', 'compiler'];
+
+/**
+ * Returns the names of a name variable. Clipboard JSON is not validated, so a
+ * single name is read as a list of one and a string as a literal name.
+ */
+function cslNames(value: unknown): CslName[] {
+    const names: unknown[] = Array.isArray(value) ? value : [value];
+    return names.flatMap(name => {
+        if (typeof name === 'string') return [{ literal: name }];
+        return name && typeof name === 'object' && !Array.isArray(name) ? [name as CslName] : [];
+    });
+}
+
+/**
+ * Converts the name variables of a CSL item to contributors
+ */
+export function cslContributors(item: CslItem): Contributor[] {
+    const contributors: Contributor[] = [];
+
+    for (const role of CSL_NAME_VARIABLES) {
+        for (const name of cslNames(item[role])) {
+            const family = (name.family || name.literal || '').trim();
+            if (!family) continue;
+
+            const particle = [name['dropping-particle'], name['non-dropping-particle']]
+                .filter(part => part)
+                .join(' ');
+
+            contributors.push({
+                family,
+                given: name.given ? name.given.trim() : null,
+                suffix: name.suffix || null,
+                particle: particle || null,
+                role,
+            });
+        }
+    }
+
+    return contributors;
+}
@@ -2,7 +2,8 @@
  * Utility functions for file name handling
  */
 
-import { ParsedCitation } from '../types';
+import { ContributorRole, ParsedCitation } from '../types';
+import { citeKeyName, formatContributorName } from './name-parser';
 
 /**
  * Sanitizes a note name by removing characters that are invalid in file paths
@@ -20,6 +21,75 @@ export function generateNotePath(noteName: string, folder: string): string {
     return folder ? `${folder}/${sanitized}.md` : `${sanitized}.md`;
 }
 
+/**
+ * Builds the name of a reference note: "Title - References"
+ */
+export function referenceNoteName(title: string): string {
+    return sanitizeNoteName(`${toTitleCase(title)} - References`);
+}
+
+/**
+ * Builds the name of an article-level reference note. The parent work is part of
+ * the name so that "Covenant" in two encyclopedias gets two notes.
+ */
+export function articleNoteName(articleTitle: string, workTitle: string): string {
+    return sanitizeNoteName(`${toTitleCase(articleTitle)} (${toTitleCase(workTitle)}) - References`);
+}
+
+/**
+ * Returns the article title and the title of the work containing it, or null if
+ * the citation is not part of a larger work. An article title that repeats the
+ * container's is not a title of its own.
+ */
+export function citationArticle(citation: ParsedCitation): { title: string; workTitle: string } | null {
+    const { articleTitle, containerTitle } = citation;
+    if (!articleTitle || !containerTitle || articleTitle.toLowerCase() === containerTitle.toLowerCase()) return null;
+    return { title: articleTitle, workTitle: containerTitle };
+}
+
+/**
+ * Derives the citation of the work that contains an article, chapter or entry.
+ * The article's authors are dropped; the work is credited to its editors.
+ */
+export function workCitation(citation: ParsedCitation): ParsedCitation {
+    const title = citation.containerTitle || citation.title;
+    const contributors = (citation.contributors || []).filter(c => c.role === 'editor' || c.role === 'compiler');
+    const editorKey = citeKeyName(contributors);
+    const titleKey = (title || '').toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-|-$/g, '');
+
+    return {
+        ...citation,
+        citeKey: editorKey && citation.year ? `${editorKey}-${citation.year}` : titleKey || citation.citeKey,
+        author: citation.editors && citation.editors.length > 0 ? citation.editors.join(', ') : null,
+        title,
+        cleanedTitle: title,
+        pages: null,
+        contributors,
+        entryType: citation.entryType === 'dictionary-entry' || citation.entryType === 'chapter' ? 'book' : undefined,
+        containerTitle: null,
+        articleTitle: null,
+    };
+}
+
+/**
+ * Adds an article link to the "## Articles" section of a work note, creating the
+ * section if needed. Content that already lists the link is returned unchanged.
+ */
+export function addArticleLink(content: string, articleLink: string): string {
+    if (content.includes(articleLink)) return content;
+
+    const line = `- ${articleLink}`;
+    if (/^## Articles\s*$/m.test(content)) {
+        return content.replace(
+            /## Articles([\s\S]*?)((\n#+\s)|$)/,
+            (_: string, articles: string, followingHeading: string) =>
+                `## Articles\n${articles.trim() ? `${articles.trim()}\n` : '\n'}${line}\n${followingHeading}`
+        );
+    }
+
+    return `${content.trim()}${content.trim() ? '\n\n' : ''}## Articles\n\n${line}\n`;
+}
+
 /**
  * Generates YAML frontmatter from a list of metadata fields (legacy)
  */
@@ -34,12 +104,37 @@ export function generateMetadataFrontmatter(fields: string[]): string {
     return metadata;
 }
 
+/**
+ * Frontmatter list keys for each contributor role
+ */
+const CONTRIBUTOR_KEYS: Record<ContributorRole, string> = {
+    author: 'authors',
+    editor: 'editors',
+    translator: 'translators',
+    compiler: 'compilers',
+};
+
+/**
+ * Frontmatter keys for the optional work details of a citation
+ */
+const WORK_DETAIL_KEYS: Record<string, keyof ParsedCitation> = {
+    'container-title': 'containerTitle',
+    'article-title': 'articleTitle',
+    volume: 'volume',
+    issue: 'issue',
+    edition: 'edition',
+    place: 'place',
+    doi: 'doi',
+};
+
 /**
  * Options for enhanced metadata in frontmatter
  */
 export interface FrontmatterOptions {
     fetchLogosMetadata?: boolean;
     coverImagePath?: string;
+    /** Name of the work note an article note belongs to */
+    parentNote?: string;
 }
 
 /**
@@ -59,13 +154,51 @@ export function generateCitationFrontmatter(
     if (citation.author) {
         metadata += `author: "${citation.author.replace(/"/g, '\\"')}"\n`;
     }
+
+    // Contributor lists, one YAML list per role, so Dataview can query by person
+    if (citation.contributors && citation.contributors.length > 0) {
+        for (const [role, key] of Object.entries(CONTRIBUTOR_KEYS)) {
+            const names = citation.contributors
+                .filter(c => c.role === role)
+                .map(c => formatContributorName(c));
+            if (names.length === 0) continue;
+            metadata += `${key}:\n`;
+            names.forEach(name => {
+                metadata += `  - "${name.replace(/"/g, '\\"')}"\n`;
+            });
+        }
+    }
+
+    // Editors known only by name (no structured contributors)
+    const hasEditorContributors = citation.contributors && citation.contributors.some(c => c.role === 'editor');
+    if (!hasEditorContributors && citation.editors && citation.editors.length > 0) {
+        metadata += `editors:\n`;
+        citation.editors.forEach(name => {
+            metadata += `  - "${name.replace(/"/g, '\\"')}"\n`;
+        });
+    }
+
     if (citation.year) {
         metadata += `year: ${citation.year}\n`;
     }
     if (citation.publisher) {
         metadata += `publisher: "${citation.publisher.replace(/"/g, '\\"')}"\n`;
     }
+
+    // Work details keep a dictionary article and its parent encyclopedia apart
+    if (citation.entryType) {
+        metadata += `entry-type: ${citation.entryType}\n`;
+    }
+    for (const [key, value] of Object.entries(WORK_DETAIL_KEYS)) {
+        const text = citation[value];
+        if (typeof text === 'string' && text) {
+            metadata += `${key}: "${text.replace(/"/g, '\\"')}"\n`;
+        }
+    }
     metadata += `cite-key: "${citation.citeKey}"\n`;
+    if (options.parentNote) {
+        metadata += `parent: "[[${options.parentNote}]]"\n`;
+    }
 
     // Enhanced Logos metadata
     if (options.fetchLogosMetadata) {
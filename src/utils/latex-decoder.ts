@@ -0,0 +1,112 @@
+/**
+ * Converts LaTeX accents, escapes and text commands found in BibTeX values to Unicode
+ */
+
+/**
+ * Combining marks for single-character accent commands, e.g. \"o or \'{e}
+ */
+const SYMBOL_ACCENTS: Record<string, string> = {
+    '"': '\u0308', "'": '\u0301', '`': '\u0300', '^': '\u0302',
+    '~': '\u0303', '=': '\u0304', '.': '\u0307',
+};
+
+/**
+ * Combining marks for letter accent commands, e.g. \v{c} or \c c
+ */
+const LETTER_ACCENTS: Record<string, string> = {
+    u: '\u0306', v: '\u030C', H: '\u030B', c: '\u0327',
+    k: '\u0328', r: '\u030A', d: '\u0323', b: '\u0331',
+};
+
+/**
+ * Control words that stand for a single character
+ */
+const LATEX_SYMBOLS: Record<string, string> = {
+    ss: 'ß', ae: 'æ', AE: 'Æ', oe: 'œ', OE: 'Œ', aa: 'å', AA: 'Å',
+    o: 'ø', O: 'Ø', l: 'ł', L: 'Ł', i: 'ı', j: 'ȷ',
+    textendash: '–', textemdash: '—', ldots: '…', dots: '…', textellipsis: '…',
+    textquoteleft: '‘', textquoteright: '’', textquotedblleft: '“', textquotedblright: '”',
+    guillemotleft: '«', guillemotright: '»', textsection: '§', S: '§', P: '¶',
+    copyright: '©', textregistered: '®', texttrademark: '™', textdagger: '†',
+    textasciitilde: '~', textbackslash: '\\', textbar: '|',
+};
+
+/**
+ * Commands whose argument is kept and whose name is dropped
+ */
+const FORMATTING_COMMANDS = [
+    'emph', 'textit', 'textbf', 'textsc', 'textup', 'textsl', 'textrm', 'textsf', 'texttt',
+    'mkbibemph', 'mkbibitalic', 'mkbibbold', 'mkbibquote', 'enquote', 'uppercase', 'lowercase', 'mbox',
+];
+
+/**
+ * Splits text into protected parts (markdown link targets and bare URLs) that must
+ * not be decoded, e.g. ref.ly context parameters full of "~" and "--".
+ */
+const PROTECTED_REGEX = /(\]\([^)]*\)|https?:\/\/[^\s)}]+)/;
+
+/**
+ * Returns the base letter for an accent argument, mapping dotless \i and \j to i and j
+ */
+function accentBase(letter: string): string {
+    return letter === '\\i' ? 'i' : letter === '\\j' ? 'j' : letter;
+}
+
+/**
+ * Decodes a segment of LaTeX source that contains no URLs
+ */
+function decodeSegment(text: string): string {
+    // Hold escaped braces aside so brace stripping does not remove them
+    let result = text.replace(/\\\{/g, '\uE000').replace(/\\\}/g, '\uE001');
+
+    // Accent commands: \"o, \"{o}, \' e, \'{\i}
+    result = result.replace(
+        /\\(["'`^~=.])\s*(?:\{\s*(\\[ij]|[A-Za-z])\s*\}|(\\[ij](?![A-Za-z])|[A-Za-z]))/g,
+        (_, accent: string, braced?: string, bare?: string) =>
+            `${accentBase(braced || bare || '')}${SYMBOL_ACCENTS[accent]}`
+    );
+    result = result.replace(
+        /\\([uvHckrdb])(?:\s*\{\s*(\\[ij]|[A-Za-z])\s*\}|\s+([A-Za-z]))/g,
+        (_, accent: string, braced?: string, bare?: string) =>
+            `${accentBase(braced || bare || '')}${LETTER_ACCENTS[accent]}`
+    );
+
+    // Formatting commands keep their argument
+    result = result.replace(new RegExp(`\\\\(?:${FORMATTING_COMMANDS.join('|')})\\s*(?=\\{)`, 'g'), '');
+
+    // Control words for single characters; like LaTeX, they swallow following spaces
+    result = result.replace(/\\([A-Za-z]+)(?:\{\}|\s*)/g, (match: string, name: string) =>
+        LATEX_SYMBOLS[name] !== undefined ? LATEX_SYMBOLS[name] : match
+    );
+
+    // Escaped specials
+    result = result.replace(/\\([&%$#_])/g, '$1');
+
+    // TeX ligatures and ties
+    result = result
+        .replace(/---/g, '—')
+        .replace(/--/g, '–')
+        .replace(/``/g, '“')
+        .replace(/''/g, '”')
+        .replace(/~/g, ' ');
+
+    // Drop grouping braces and restore escaped ones
+    result = result.replace(/[{}]/g, '').replace(/\uE000/g, '{').replace(/\uE001/g, '}');
+
+    return result.normalize('NFC');
+}
+
+/**
+ * Decodes LaTeX markup in a BibTeX field value to plain Unicode text.
+ * Markdown link targets and URLs are left untouched.
+ */
+export function decodeLatex(text: string): string {
+    if (!text) return text;
+
+    return text
+        .split(PROTECTED_REGEX)
+        .map((part, index) => index % 2 === 1 ? part : decodeSegment(part))
+        .join('')
+        .replace(/\s+/g, ' ')
+        .trim();
+}
@@ -0,0 +1,102 @@
+/**
+ * Parses and formats pinpoint locators: pages (including roman numerals and
+ * multiple ranges), footnotes, sections, columns and classical loci
+ */
+
+import { Locator, LocatorKind } from '../types';
+
+/**
+ * A single locator number: arabic (with optional dotted divisions or volume:page),
+ * or roman, optionally followed by a note ("45 n. 3", "45n3", "12 nn. 4–5")
+ */
+const LOCATOR_NUMBER = String.raw`(?:\d+(?:[.:]\d+)*[a-z]?|[ivxlcdm]+)(?:\s*nn?\.?\s*\d+(?:[–-]\d+)?)?`;
+
+/**
+ * One or more locator numbers joined by ranges or commas ("12, 15–17")
+ */
+const LOCATOR_LIST = String.raw`${LOCATOR_NUMBER}(?:\s*(?:[–-]|,\s*|\s+and\s+)${LOCATOR_NUMBER})*`;
+
+/**
+ * A labelled locator at the end of a citation: "p. 12", "pp. xiv–xvi", "§ 4.2", "cols. 3–4"
+ */
+export const TRAILING_LOCATOR_REGEX = new RegExp(String.raw`(?:^|[([ ,])((?:pp?\.|§§?|cols?\.)\s?${LOCATOR_LIST})[)\]]?\.?$`, 'i');
+
+/**
+ * Labels and the locator kind they introduce
+ */
+const LABELS: [RegExp, LocatorKind][] = [
+    [/^pp?\.\s*/i, 'page'],
+    [/^§§?\s*/, 'section'],
+    [/^cols?\.\s*/i, 'column'],
+    [/^nn?\.\s*/i, 'footnote'],
+];
+
+/**
+ * Classical and confessional loci: an abbreviated work followed by numbered
+ * divisions, e.g. "Inst. 1.3.1", "Ant. 18.63" or "Summa I, q. 2"
+ */
+const LOCUS_REGEX = /^\p{Lu}[\p{L}]*\.?(?:\s+\p{Lu}[\p{L}]*\.?)*\s+(?:\d+(?:\.\d+)+|[IVX]+,\s*q\.\s*\d+(?:,\s*a\.\s*\d+)?)$/u;
+
+/**
+ * Parses a locator such as "p. xiv", "45 n. 3", "12, 15–17", "§ 4.2",
+ * "col. 12" or "Inst. 1.3.1". Returns null for empty input.
+ */
+export function parseLocator(text: string | null): Locator | null {
+    if (!text) return null;
+
+    // Drop trailing punctuation, keeping the period of an abbreviation
+    let value = text.trim().replace(/[,;]+$/, '').replace(/(\d|\b[ivxlcdm]+)\.$/i, '$1').trim();
+    if (!value) return null;
+
+    if (LOCUS_REGEX.test(value)) {
+        return { kind: 'locus', value };
+    }
+
+    let kind: LocatorKind = 'page';
+    for (const [label, labelKind] of LABELS) {
+        const match = value.match(label);
+        if (match) {
+            kind = labelKind;
+            value = value.substring(match[0].length).trim();
+            break;
+        }
+    }
+
+    // Notes on a page: "45 n. 3", "45n3", "45 nn. 3–4"
+    const noteMatch = value.match(/^(\S+?)\s*(nn?)\.?\s*(\d+(?:[–-]\d+)?)$/);
+    if (kind === 'page' && noteMatch && /\d|^[ivxlcdm]+$/i.test(noteMatch[1])) {
+        return { kind: 'footnote', value: `${noteMatch[1]} ${noteMatch[2]}. ${noteMatch[3]}` };
+    }
+    if (kind === 'footnote') {
+        value = `n. ${value}`;
+    }
+
+    return { kind, value };
+}
+
+/**
+ * Returns true if a locator value names more than one place ("12–14", "12, 15")
+ */
+function isPlural(value: string): boolean {
+    return /[–,]|\d-\d|\band\b/.test(value);
+}
+
+/**
+ * Formats a locator with its label: "p. xiv", "pp. 12, 15–17", "p. 45 n. 3",
+ * "§ 4.2", "cols. 3–4" or "Inst. 1.3.1"
+ */
+export function formatLocator(locator: Locator): string {
+    const plural = isPlural(locator.value);
+    switch (locator.kind) {
+        case 'page':
+            return `${plural ? 'pp.' : 'p.'} ${locator.value}`;
+        case 'footnote':
+            return locator.value.startsWith('n') ? locator.value : `p. ${locator.value}`;
+        case 'section':
+            return `${plural ? '§§' : '§'} ${locator.value}`;
+        case 'column':
+            return `${plural ? 'cols.' : 'col.'} ${locator.value}`;
+        case 'locus':
+            return locator.value;
+    }
+}
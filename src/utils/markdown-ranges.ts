@@ -0,0 +1,116 @@
+/**
+ * Finds the parts of a Markdown note that are not plain prose: frontmatter, code,
+ * math, HTML, links and URLs. Text rewriters such as the Bible linker leave these
+ * untouched, which also makes them safe to run over their own output.
+ */
+
+/**
+ * A span of text, from `start` up to but not including `end`
+ */
+export interface TextRange {
+    start: number;
+    end: number;
+}
+
+/**
+ * YAML frontmatter, only at the very start of a note
+ */
+const FRONTMATTER_REGEX = /^---\r?\n[\s\S]*?\r?\n---[ \t]*(?:\r?\n|$)/;
+
+/**
+ * Non-prose Markdown constructs, tried left to right so whichever starts first wins:
+ * fenced code (closed by a fence of the same character, or unclosed to the end),
+ * display math, inline code, inline math, HTML and Obsidian comments, inline HTML
+ * elements with their content (an element's text may already be a link), other
+ * HTML tags, wikilinks and embeds, inline and reference links and images, link
+ * definitions and URLs
+ */
+const NON_PROSE_REGEX = new RegExp([
+    /^ {0,3}(`{3,}|~{3,})[^\n]*\n[\s\S]*?(?:^ {0,3}\1[`~]*[ \t]*$|(?![\s\S]))/.source,
+    /\$\$[\s\S]*?\$\$/.source,
+    // Closed by a run of backticks as long as the opening one (group 2, after the fence)
+    '(`+)[\\s\\S]*?\\2(?!`)',
+    /\$(?=\S)[^$\n]*?[^\s$]\$(?!\d)/.source,
+    /<!--[\s\S]*?-->/.source,
+    // Obsidian comments, unclosed ones to the end of the note
+    /%%[\s\S]*?(?:%%|(?![\s\S]))/.source,
+    // An element opened and closed on one line; the tag name is group 3
+    '<([A-Za-z][\\w-]*)\\b[^<>\\n]*>[^\\n]*?<\\/\\3\\s*>',
+    /<\/?[A-Za-z][^<>\n]*>/.source,
+    /!?\[\[[^\]\n]*\]\]/.source,
+    /!?\[[^\]\n]*\](?:\([^)\n]*\)|\[[^\]\n]*\])/.source,
+    /^ {0,3}\[[^\]\n]+\]:[ \t]*\S.*$/.source,
+    /\b[A-Za-z][A-Za-z0-9+.-]*:\/\/[^\s<>]+|\blogosref:[^\s<>]+/.source,
+].join('|'), 'gm');
+
+/**
+ * Returns the ranges of the text that are not plain prose, in order and without overlaps
+ */
+export function findNonProseRanges(text: string): TextRange[] {
+    const ranges: TextRange[] = [];
+
+    const frontmatter = text.match(FRONTMATTER_REGEX);
+    const regex = new RegExp(NON_PROSE_REGEX.source, NON_PROSE_REGEX.flags);
+    if (frontmatter) {
+        ranges.push({ start: 0, end: frontmatter[0].length });
+        regex.lastIndex = frontmatter[0].length;
+    }
+
+    let match: RegExpExecArray | null;
+    while ((match = regex.exec(text)) !== null) {
+        if (match[0].length === 0) {
+            regex.lastIndex++;
+            continue;
+        }
+        ranges.push({ start: match.index, end: match.index + match[0].length });
+    }
+
+    return ranges;
+}
+
+/**
+ * Returns the range containing the offset, or null if the offset is in prose.
+ * Ranges must be in order, as returned by findNonProseRanges.
+ */
+export function rangeAt(ranges: TextRange[], offset: number): TextRange | null {
+    let low = 0;
+    let high = ranges.length - 1;
+    while (low <= high) {
+        const mid = (low + high) >> 1;
+        if (ranges[mid].end <= offset) {
+            low = mid + 1;
+        } else if (ranges[mid].start > offset) {
+            high = mid - 1;
+        } else {
+            return ranges[mid];
+        }
+    }
+    return null;
+}
+
+/**
+ * Returns the first range that starts within [start, end), or null
+ */
+export function firstRangeWithin(ranges: TextRange[], start: number, end: number): TextRange | null {
+    for (const range of ranges) {
+        if (range.start >= end) return null;
+        if (range.start >= start) return range;
+    }
+    return null;
+}
+
+/**
+ * Returns the target and text of the inline link or bare URL at the offset of a
+ * line, or null if there is none. Editors render links without their target, so
+ * it is read back from the Markdown.
+ */
+export function linkAt(line: string, offset: number): { href: string; text: string } | null {
+    for (const match of line.matchAll(/\[([^\]]*)\]\(<?([^)\s>]+)>?[^)]*\)|\b[A-Za-z][A-Za-z0-9+.-]*:\/\/[^\s<>)]+|\blogosref:[^\s<>)]+/g)) {
+        const start = match.index ?? 0;
+        if (start > offset) break;
+        if (offset < start + match[0].length) {
+            return match[2] !== undefined ? { href: match[2], text: match[1] } : { href: match[0], text: match[0] };
+        }
+    }
+    return null;
+}
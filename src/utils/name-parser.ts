@@ -0,0 +1,424 @@
+/**
+ * Utility functions for parsing personal names and contributor roles
+ * from BibTeX name lists and formatted (MLA/APA/Chicago) author strings
+ */
+
+import { Contributor, ContributorRole } from '../types';
+import { decodeLatex } from './latex-decoder';
+
+/** Name suffixes that follow the family name */
+const SUFFIX_REGEX = /^(?:Jr|Sr|II|III|IV|V)\.?$/;
+
+/** Lowercase family-name particles, e.g. "van", "de", "von" */
+const PARTICLES = ['van', 'von', 'de', 'der', 'den', 'del', 'della', 'di', 'da', 'du', 'des', 'la', 'le', 'ter', 'ten', 'op', "d'", 'dos', 'das', 'zu', 'y'];
+
+/** Role markers as they appear after a name list ("eds.", "(Ed.)", "trans.") */
+const ROLE_SUFFIX_REGEX = /,?\s*\(?\b(eds?|editors?|trans|tr|translators?|comps?|compilers?)\.?\)?\.?$/i;
+
+/** Role markers as they appear before a name list ("edited by", "Trans.") */
+const ROLE_PREFIX_REGEX = /(?:^|[.,]\s+)((?:[Ee]dited|[Tt]ranslated|[Cc]ompiled)(?: and (?:edited|translated|compiled))* by|[Ee]ds?\.|[Tt]rans\.|[Cc]omp\.)\s+((?:(?:\p{Lu}\.|\p{Lu}[\p{L}'’-]+|van|von|de|der|du|la|le|and|&)(?:\s+|(?=[.,;:)]|$)))+)/gu;
+
+/**
+ * Maps a role marker such as "eds." or "translated by" to a contributor role
+ */
+function roleFromMarker(marker: string): ContributorRole {
+    const lower = marker.toLowerCase();
+    if (lower.startsWith('tr')) return 'translator';
+    if (lower.startsWith('comp')) return 'compiler';
+    if (lower.startsWith('ed')) return 'editor';
+    return 'author';
+}
+
+/** A role marker that opens a ";"-separated name group ("trans. John Vriend", "Translated and edited by Jane Roe") */
+const ROLE_LEAD_REGEX = /^((?:edited|translated|compiled)(?:\s+and\s+(?:edited|translated|compiled))*\s+by|eds?\.|trans\.|tr\.|comps?\.)\s*/i;
+
+/**
+ * Maps a role marker to every role it names: "translated and edited by" is both
+ */
+function rolesFromMarker(marker: string): ContributorRole[] {
+    return marker.split(/\s+and\s+/i).map(roleFromMarker);
+}
+
+/**
+ * Splits leading lowercase particles off a family name
+ */
+function splitParticle(words: string[]): { particle: string | null; rest: string[] } {
+    let i = 0;
+    while (i < words.length - 1 && PARTICLES.includes(words[i].toLowerCase()) && words[i] === words[i].toLowerCase()) {
+        i++;
+    }
+    return {
+        particle: i > 0 ? words.slice(0, i).join(' ') : null,
+        rest: words.slice(i),
+    };
+}
+
+/**
+ * Parses a name written in natural order: "Given [particle] Family [Suffix]"
+ */
+function parseNaturalName(name: string, role: ContributorRole): Contributor | null {
+    const words = name.trim().split(/\s+/).filter(w => w.length > 0);
+    if (words.length === 0) return null;
+
+    let suffix: string | null = null;
+    if (words.length > 1 && SUFFIX_REGEX.test(words[words.length - 1])) {
+        suffix = words.pop() || null;
+    }
+
+    // The particle starts at the first lowercase particle after the given names
+    const particleStart = words.findIndex((w, i) => i > 0 && i < words.length - 1 && PARTICLES.includes(w));
+    if (particleStart > 0) {
+        const { particle, rest } = splitParticle(words.slice(particleStart));
+        return {
+            family: rest.join(' '),
+            given: words.slice(0, particleStart).join(' '),
+            suffix,
+            particle,
+            role,
+        };
+    }
+
+    return {
+        family: words[words.length - 1],
+        given: words.length > 1 ? words.slice(0, -1).join(' ') : null,
+        suffix,
+        particle: null,
+        role,
+    };
+}
+
+/**
+ * Parses a name written family-first: "[particle] Family, Given [particle]"
+ */
+function parseInvertedName(family: string, given: string, suffix: string | null, role: ContributorRole): Contributor {
+    const { particle: leading, rest } = splitParticle(family.trim().split(/\s+/));
+
+    // Chicago sometimes trails the particle after the given names: "Rad, Gerhard von"
+    const givenWords = given.trim().split(/\s+/).filter(w => w.length > 0);
+    let trailing: string | null = null;
+    while (givenWords.length > 1 && PARTICLES.includes(givenWords[givenWords.length - 1])) {
+        trailing = trailing ? `${givenWords.pop()} ${trailing}` : givenWords.pop() || null;
+    }
+
+    return {
+        family: rest.join(' '),
+        given: givenWords.length > 0 ? givenWords.join(' ') : null,
+        suffix,
+        particle: leading || trailing,
+        role,
+    };
+}
+
+/**
+ * Returns true if a comma-separated part looks like given names or initials
+ * that belong to the preceding family name (e.g. "J. A." or "M. L.")
+ */
+function isInitials(part: string): boolean {
+    return /^(?:[\p{Lu}]\.\s*-?)+$/u.test(part.trim());
+}
+
+/**
+ * Parses a formatted author string from MLA, APA, Chicago or SBL citations.
+ * Handles inverted first authors, "and"/"&" lists, "et al." and role markers
+ * like "ed.", "eds.", "(Eds.)" and "trans.". A marker after a ";" starts a
+ * list of its own: "Herman Bavinck; trans. John Vriend".
+ */
+export function parseContributorString(text: string, defaultRole: ContributorRole = 'author'): Contributor[] {
+    const groups: { text: string; roles: ContributorRole[] | null }[] = [];
+    for (const segment of text.split(';')) {
+        const lead = segment.trim().match(ROLE_LEAD_REGEX);
+        if (lead) {
+            groups.push({ text: segment.trim().substring(lead[0].length), roles: rolesFromMarker(lead[1]) });
+        } else if (groups.length > 0) {
+            // Names without a marker continue the list before them
+            groups[groups.length - 1].text += `;${segment}`;
+        } else {
+            groups.push({ text: segment, roles: null });
+        }
+    }
+
+    return groups.flatMap(group => parseNameListInRoles(group.text, group.roles || [defaultRole]));
+}
+
+/**
+ * Parses a list of names credited in each of the given roles
+ */
+function parseNameListInRoles(text: string, roles: ContributorRole[]): Contributor[] {
+    const [first, ...others] = roles;
+    const people = parseNameList(text, first);
+    return [...people, ...others.flatMap(role => people.map(person => ({ ...person, role })))];
+}
+
+/**
+ * Parses a list of names that share a role, which a trailing marker ("eds.") can set
+ */
+function parseNameList(text: string, defaultRole: ContributorRole): Contributor[] {
+    let remaining = text.trim().replace(/[,;:\s]+$/, '');
+    if (!remaining) return [];
+
+    let role = defaultRole;
+    const roleMatch = remaining.match(ROLE_SUFFIX_REGEX);
+    if (roleMatch && roleMatch.index !== undefined && roleMatch.index > 0) {
+        role = roleFromMarker(roleMatch[1]);
+        remaining = remaining.substring(0, roleMatch.index);
+    }
+
+    // Drop a sentence-ending period but keep the period of a trailing initial
+    remaining = remaining.replace(/(\p{L}{2,})\.$/u, '$1');
+
+    remaining = remaining
+        .replace(/,?\s*\bet\s+al\.?/gi, '')
+        .replace(/,?\s*\band\s+others\b/gi, '')
+        .trim();
+
+    const chunks = remaining
+        .split(/\s*(?:,\s*(?:and|&)\s+|\s+(?:and|&)\s+|;\s*)/)
+        .map(c => c.trim())
+        .filter(c => c.length > 0);
+
+    const contributors: Contributor[] = [];
+
+    chunks.forEach((chunk, chunkIndex) => {
+        if (!chunk.includes(',')) {
+            const person = parseNaturalName(chunk, role);
+            if (person) contributors.push(person);
+            return;
+        }
+
+        const parts = chunk.split(/\s*,\s*/).filter(p => p.length > 0);
+        let i = 0;
+        while (i < parts.length) {
+            const part = parts[i];
+            const next = parts[i + 1];
+            const afterNext = parts[i + 2];
+
+            // The first name of a list is inverted in MLA/Chicago; APA inverts every name
+            const singleFamily = splitParticle(part.split(/\s+/)).rest.length === 1;
+            const inverted = next !== undefined && !SUFFIX_REGEX.test(next) &&
+                ((chunkIndex === 0 && i === 0 && singleFamily) || isInitials(next));
+
+            if (inverted) {
+                const suffix = afterNext !== undefined && SUFFIX_REGEX.test(afterNext) ? afterNext : null;
+                contributors.push(parseInvertedName(part, next, suffix, role));
+                i += suffix ? 3 : 2;
+            } else {
+                const suffix = next !== undefined && SUFFIX_REGEX.test(next) ? next : null;
+                const person = parseNaturalName(suffix ? `${part} ${suffix}` : part, role);
+                if (person) contributors.push(person);
+                i += suffix ? 2 : 1;
+            }
+        }
+    });
+
+    return contributors;
+}
+
+/**
+ * Finds contributors introduced by a role marker anywhere in a citation,
+ * e.g. "Trans. Ford Lewis Battles" or "edited by John T. McNeill".
+ */
+export function extractRoleContributors(citation: string): Contributor[] {
+    const contributors: Contributor[] = [];
+    for (const match of citation.matchAll(ROLE_PREFIX_REGEX)) {
+        contributors.push(...parseNameListInRoles(match[2], rolesFromMarker(match[1])));
+    }
+    return contributors;
+}
+
+/**
+ * Splits a BibTeX value into words at brace depth 0
+ */
+function splitBibtexWords(value: string, separator: RegExp): string[] {
+    const words: string[] = [];
+    let depth = 0;
+    let current = '';
+    for (const ch of value) {
+        if (ch === '{') depth++;
+        if (ch === '}') depth = Math.max(0, depth - 1);
+        if (depth === 0 && separator.test(ch)) {
+            if (current.trim()) words.push(current.trim());
+            current = '';
+            continue;
+        }
+        current += ch;
+    }
+    if (current.trim()) words.push(current.trim());
+    return words;
+}
+
+/**
+ * Splits a BibTeX name list on "and" at brace depth 0
+ */
+function splitBibtexNameList(value: string): string[] {
+    const names: string[] = [];
+    let current: string[] = [];
+    for (const word of splitBibtexWords(value, /[\s~]/)) {
+        if (word.toLowerCase() === 'and') {
+            names.push(current.join(' '));
+            current = [];
+        } else {
+            current.push(word);
+        }
+    }
+    names.push(current.join(' '));
+    return names.filter(n => n.length > 0);
+}
+
+/**
+ * A BibTeX "von" word starts with a lowercase letter outside of protective braces
+ */
+function isVonWord(word: string): boolean {
+    if (word.startsWith('{') && !word.startsWith('{\\')) return false;
+    return /^\p{Ll}/u.test(decodeLatex(word));
+}
+
+/**
+ * Joins BibTeX name words and decodes them, returning null for empty parts
+ */
+function joinDecoded(words: string[]): string | null {
+    const joined = decodeLatex(words.join(' '));
+    return joined ? joined : null;
+}
+
+/**
+ * Parses a single BibTeX name in any of the three standard forms:
+ * "First von Last", "von Last, First" and "von Last, Jr, First"
+ */
+function parseBibtexName(name: string, role: ContributorRole): Contributor | null {
+    const parts = splitBibtexWords(name, /,/);
+    if (parts.length === 0) return null;
+
+    const lastPart = splitBibtexWords(parts[0], /[\s~]/);
+    let given: string | null = null;
+    let suffix: string | null = null;
+    let von: string[] = [];
+    let last: string[] = [];
+
+    if (parts.length === 1) {
+        // First von Last
+        const words = lastPart;
+        const vonStart = words.findIndex((w, i) => i < words.length - 1 && isVonWord(w));
+        if (vonStart === -1) {
+            given = joinDecoded(words.slice(0, -1));
+            last = words.slice(-1);
+        } else {
+            let vonEnd = vonStart;
+            for (let i = vonStart; i < words.length - 1; i++) {
+                if (isVonWord(words[i])) vonEnd = i;
+            }
+            given = joinDecoded(words.slice(0, vonStart));
+            von = words.slice(vonStart, vonEnd + 1);
+            last = words.slice(vonEnd + 1);
+        }
+    } else {
+        // von Last, [Jr,] First
+        let i = 0;
+        while (i < lastPart.length - 1 && isVonWord(lastPart[i])) i++;
+        von = lastPart.slice(0, i);
+        last = lastPart.slice(i);
+        if (parts.length >= 3) {
+            suffix = joinDecoded([parts[1]]);
+            given = joinDecoded([parts.slice(2).join(', ')]);
+        } else {
+            given = joinDecoded([parts[1]]);
+        }
+    }
+
+    const family = joinDecoded(last);
+    if (!family) return null;
+
+    return {
+        family,
+        given,
+        suffix,
+        particle: von.length > 0 ? joinDecoded(von) : null,
+        role,
+    };
+}
+
+/**
+ * Parses a BibTeX name list (`author`, `editor`, `translator` fields).
+ * "and others" marks a truncated list and is dropped.
+ */
+export function parseBibtexNames(value: string, role: ContributorRole = 'author'): Contributor[] {
+    return splitBibtexNameList(value)
+        .filter(name => name.toLowerCase() !== 'others')
+        .map(name => parseBibtexName(name, role))
+        .filter((c): c is Contributor => c !== null);
+}
+
+/**
+ * Parses a single RIS name ("Family, Given[, Suffix]"). Names without a comma
+ * are corporate or single-field names and are kept whole as the family name.
+ */
+export function parseRisName(value: string, role: ContributorRole = 'author'): Contributor | null {
+    const parts = value.split(',').map(part => part.trim());
+    if (!parts[0]) return null;
+
+    if (parts.length === 1) {
+        return { family: parts[0], given: null, suffix: null, particle: null, role };
+    }
+
+    const suffix = parts[2] || null;
+    return parseInvertedName(parts[0], parts[1], suffix, role);
+}
+
+/**
+ * Formats a contributor inverted as in BibTeX and RIS: "particle Family, Suffix, Given"
+ */
+export function formatInvertedName(contributor: Contributor): string {
+    const family = [contributor.particle, contributor.family].filter(part => part).join(' ');
+    return [family, contributor.suffix, contributor.given].filter(part => part).join(', ');
+}
+
+/**
+ * Formats a contributor as a display name: "Given particle Family, Suffix"
+ */
+export function formatContributorName(contributor: Contributor): string {
+    const name = [contributor.given, contributor.particle, contributor.family]
+        .filter(part => part)
+        .join(' ');
+    return contributor.suffix ? `${name}, ${contributor.suffix}` : name;
+}
+
+/**
+ * Returns a cite-key friendly family name for the first author (or first contributor)
+ */
+export function citeKeyName(contributors: Contributor[]): string | null {
+    const first = contributors.find(c => c.role === 'author') || contributors[0];
+    if (!first) return null;
+
+    const key = first.family
+        .toLowerCase()
+        .replace(/\s+/g, '-')
+        .replace(/[^\p{L}\p{N}-]/gu, '');
+    return key || null;
+}
+
+/**
+ * Merges contributor lists, dropping duplicates of the same person and role
+ */
+export function mergeContributors(...lists: Contributor[][]): Contributor[] {
+    const seen = new Set<string>();
+    const merged: Contributor[] = [];
+    for (const contributor of lists.flat()) {
+        const id = `${contributor.role}|${contributor.family}|${contributor.given || ''}`.toLowerCase();
+        if (seen.has(id)) continue;
+        seen.add(id);
+        merged.push(contributor);
+    }
+    return merged;
+}
+
+/**
+ * Replaces the contributors parsed from a previous author string with those of
+ * an edited one; contributors credited elsewhere in the citation are kept
+ */
+export function replaceAuthorContributors(contributors: Contributor[], previousAuthor: string | null, author: string | null): Contributor[] {
+    const id = (contributor: Contributor) => `${contributor.role}|${contributor.family}|${contributor.given || ''}`.toLowerCase();
+    const previous = new Set((previousAuthor ? parseContributorString(previousAuthor) : []).map(id));
+    return mergeContributors(
+        author ? parseContributorString(author) : [],
+        contributors.filter(contributor => !previous.has(id(contributor)))
+    );
+}
@@ -0,0 +1,69 @@
+/**
+ * Resolves shortened notes (Author, Short Title, page) against existing reference notes
+ */
+
+import { ParsedCitation } from '../types';
+
+/**
+ * An existing reference note that a shortened note may point to
+ */
+export interface ReferenceCandidate {
+    path: string;
+    title: string;
+    /** Author strings from frontmatter, e.g. "N. T. Wright" or "Wright, N. T." */
+    authors: string[];
+}
+
+/**
+ * Normalizes a title for comparison: strips links and emphasis, punctuation and a leading article
+ */
+export function normalizeTitle(title: string): string {
+    return title
+        .replace(/\[([^\]]+)\]\([^)]+\)/g, '$1')
+        .replace(/[_*]/g, '')
+        .normalize('NFC')
+        .toLowerCase()
+        .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+        .replace(/\s+/g, ' ')
+        .trim()
+        .replace(/^(?:the|a|an) /, '');
+}
+
+/**
+ * Returns the family names named in a shortened note's author, e.g. "Elwell and Beitzel"
+ */
+function shortNoteFamilies(author: string): string[] {
+    return author
+        .split(/,?\s+(?:and|&)\s+/)
+        .map(name => name.trim().toLowerCase())
+        .filter(Boolean);
+}
+
+/**
+ * Finds the reference note a shortened note refers to.
+ * The short title must appear at a word boundary in the note's title and every
+ * family name must appear in its authors. Titles that start with the short title
+ * win, then the shortest title.
+ */
+export function findShortNoteMatch(citation: ParsedCitation, candidates: ReferenceCandidate[]): ReferenceCandidate | null {
+    const shortTitle = normalizeTitle(citation.cleanedTitle || citation.title || '');
+    if (!shortTitle) return null;
+
+    const families = citation.author ? shortNoteFamilies(citation.author) : [];
+
+    const matches = candidates.filter(candidate => {
+        const title = normalizeTitle(candidate.title);
+        if (!` ${title} `.includes(` ${shortTitle} `)) return false;
+
+        const authorText = ` ${candidate.authors.join(' ').toLowerCase().replace(/[^\p{L}\p{N}'’-]+/gu, ' ')} `;
+        return families.every(family => authorText.includes(` ${family} `));
+    });
+
+    matches.sort((a, b) => {
+        const aStarts = normalizeTitle(a.title).startsWith(shortTitle) ? 0 : 1;
+        const bStarts = normalizeTitle(b.title).startsWith(shortTitle) ? 0 : 1;
+        return aStarts - bStarts || a.title.length - b.title.length;
+    });
+
+    return matches[0] || null;
+}
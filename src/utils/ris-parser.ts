@@ -0,0 +1,83 @@
+/**
+ * Parser for RIS records as exported by Zotero, EndNote and library catalogs
+ *
+ * A record starts with `TY  - TYPE` and ends with `ER  -`. Each line carries a
+ * two-character tag; repeatable tags (AU, KW, ...) keep every value in order.
+ */
+
+/**
+ * A single RIS record
+ */
+export interface RisRecord {
+    /** Reference type from the TY tag, uppercased (BOOK, JOUR, CHAP, ...) */
+    type: string;
+    /** Values keyed by tag, in source order */
+    tags: Record<string, string[]>;
+    /** Offset of the TY line in the source */
+    start: number;
+    /** Offset just after the ER line (or the end of the text) */
+    end: number;
+}
+
+/**
+ * A tagged RIS line: two-character tag, two spaces (some exporters use one), hyphen
+ */
+const RIS_LINE_REGEX = /^([A-Z][A-Z0-9])\s{1,2}-(?:\s(.*))?$/;
+
+/**
+ * Returns true if the text contains the start of a RIS record
+ */
+export function containsRis(text: string): boolean {
+    return /^TY\s{1,2}-\s/m.test(text);
+}
+
+/**
+ * Parses every RIS record in the text. Lines outside a record are ignored and
+ * untagged lines inside one continue the previous value.
+ */
+export function parseRisRecords(text: string): RisRecord[] {
+    const records: RisRecord[] = [];
+    let current: RisRecord | null = null;
+    let lastTag: string | null = null;
+    let offset = 0;
+
+    for (const rawLine of text.split('\n')) {
+        const lineStart = offset;
+        offset += rawLine.length + 1;
+        const line = rawLine.replace(/\r$/, '').replace(/^\uFEFF/, '');
+        const match = line.match(RIS_LINE_REGEX);
+
+        if (!match) {
+            // Wrapped value: append to the previous tag
+            if (current && lastTag && line.trim()) {
+                const values = current.tags[lastTag];
+                values[values.length - 1] = `${values[values.length - 1]} ${line.trim()}`.trim();
+            }
+            continue;
+        }
+
+        const tag = match[1];
+        const value = (match[2] || '').trim();
+
+        if (tag === 'TY') {
+            current = { type: value.toUpperCase(), tags: {}, start: lineStart, end: text.length };
+            records.push(current);
+            lastTag = null;
+            continue;
+        }
+
+        if (!current) continue;
+
+        if (tag === 'ER') {
+            current.end = Math.min(offset, text.length);
+            current = null;
+            lastTag = null;
+            continue;
+        }
+
+        (current.tags[tag] = current.tags[tag] || []).push(value);
+        lastTag = tag;
+    }
+
+    return records;
+}
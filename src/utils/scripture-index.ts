@@ -0,0 +1,232 @@
+/**
+ * Scripture index: where in the vault each Bible passage is referenced.
+ * References are read from prose and from ref.ly and Logos app links, and
+ * stored as passages so ranges can be matched against each other.
+ */
+
+import { BOOK_DETAILS } from '../constants/bible-books';
+import { BibleLinkOptions, BiblePassage } from '../types';
+import { formatPassage } from './bible-link-targets';
+import { parseBibleReferences } from './bible-linker';
+import { findNonProseRanges } from './markdown-ranges';
+
+/**
+ * A passage referenced in a note
+ */
+export interface ScriptureReference {
+    passage: BiblePassage;
+    /** Path of the note the reference appears in */
+    path: string;
+    /** Zero-based line the reference appears on */
+    line: number;
+    /** Link subpath to the block ("#^id") or heading ("#Heading") holding the reference, or "" */
+    subpath: string;
+}
+
+/**
+ * A Logos reference in a ref.ly or Logos app link, e.g. "https://ref.ly/Jn3.16;esv" or "logosref:Bible.Ge1.1-2.3"
+ */
+const LOGOS_LINK_REGEX = /(?:https:\/\/ref\.ly\/|logosref:Bible\.)([1-4]?[A-Za-z]+\d+(?:\.\d+)?(?:-\d+(?:\.\d+)?)?)/g;
+
+/**
+ * Reads a Logos reference such as "Jn3.16", "Jn3.16-18", "Ge1.1-2.3" or "Ps1-2".
+ * Returns null for anything that is not a known book.
+ */
+export function parseLogosReference(ref: string): BiblePassage | null {
+    const match = ref.match(/^([1-4]?[A-Za-z]+)(\d+)(?:\.(\d+))?(?:-(\d+)(?:\.(\d+))?)?$/);
+    if (!match || !BOOK_DETAILS[match[1]]) return null;
+
+    const verse = match[3] ? Number(match[3]) : null;
+    const end = match[4] ? Number(match[4]) : null;
+    // A single number after a verse ends the verse range; after a chapter it ends the chapter range
+    const endsOnVerse = verse !== null && !match[5];
+
+    return {
+        bookCode: match[1],
+        chapter: Number(match[2]),
+        verse,
+        endChapter: endsOnVerse ? null : end,
+        endVerse: match[5] ? Number(match[5]) : endsOnVerse ? end : null,
+    };
+}
+
+/**
+ * Returns the passage a Bible link points at: the Logos reference of a ref.ly or
+ * Logos app link, else the link text if it is a single Bible reference (as in links
+ * to Bible websites). Returns null for other links.
+ */
+export function parseBibleLink(href: string, text: string, options: BibleLinkOptions = {}): BiblePassage | null {
+    const logos = href.match(new RegExp(`^${LOGOS_LINK_REGEX.source}`));
+    if (logos) return parseLogosReference(logos[1]);
+
+    const trimmed = text.trim();
+    const references = parseBibleReferences(trimmed, options);
+    if (references.length !== 1) return null;
+
+    const [reference] = references;
+    return reference.full && reference.valid && reference.text === trimmed ? reference.passage : null;
+}
+
+/**
+ * Returns the link subpath for the block holding a line: the block ID at the end
+ * of its list item or paragraph (a whole callout is one paragraph), else the
+ * heading above it
+ */
+function blockSubpath(lines: string[], line: number): string {
+    const listItem = /^\s*(?:>\s*)*(?:[-*+]|\d+[.)])\s/;
+    const blockId = /\s\^([A-Za-z0-9-]+)\s*$/;
+
+    // A list item is a block of its own; a paragraph runs to the next blank line or list item
+    let last = line;
+    if (!listItem.test(lines[line])) {
+        while (last + 1 < lines.length && lines[last + 1].trim() && !listItem.test(lines[last + 1])) last++;
+    }
+    for (let i = line; i <= last; i++) {
+        const id = lines[i].match(blockId);
+        if (id) return `#^${id[1]}`;
+    }
+
+    for (let i = line; i >= 0; i--) {
+        const heading = lines[i].match(/^#{1,6}\s+(.+?)(?:\s+#+)?\s*$/);
+        if (heading) return `#${heading[1].replace(/[#^|[\]]/g, '')}`;
+    }
+    return '';
+}
+
+/**
+ * Finds every passage a note references, in prose and in existing ref.ly and
+ * Logos app links. Frontmatter is skipped.
+ */
+export function findScriptureReferences(content: string, path: string, options: BibleLinkOptions = {}): ScriptureReference[] {
+    const found: { offset: number; passage: BiblePassage }[] = parseBibleReferences(content, options)
+        .filter(reference => reference.valid)
+        .map(reference => ({ offset: reference.start, passage: reference.passage }));
+
+    const frontmatter = content.startsWith('---') ? findNonProseRanges(content)[0] : undefined;
+    const bodyStart = frontmatter && frontmatter.start === 0 ? frontmatter.end : 0;
+    for (const match of content.substring(bodyStart).matchAll(LOGOS_LINK_REGEX)) {
+        const passage = parseLogosReference(match[1]);
+        if (passage) {
+            found.push({ offset: bodyStart + (match.index ?? 0), passage });
+        }
+    }
+
+    const lines = content.split('\n');
+    // References are visited in order, so line numbers are counted forward from the previous one
+    let line = 0;
+    let lineEnd = lines[0].length;
+    return found
+        .sort((a, b) => a.offset - b.offset)
+        .map(({ offset, passage }) => {
+            while (offset > lineEnd && line + 1 < lines.length) {
+                line++;
+                lineEnd += lines[line].length + 1;
+            }
+            return { passage, path, line, subpath: blockSubpath(lines, line) };
+        });
+}
+
+/**
+ * Canonical position of a book; unknown books sort last
+ */
+function bookOrder(bookCode: string): number {
+    const index = Object.keys(BOOK_DETAILS).indexOf(bookCode);
+    return index === -1 ? Number.MAX_SAFE_INTEGER : index;
+}
+
+/**
+ * Returns the first and last verse a passage covers as sortable numbers.
+ * Whole chapters run from verse 0 to the end of the chapter.
+ */
+function passageBounds(passage: BiblePassage): [number, number] {
+    const position = (chapter: number, verse: number | null, isEnd: boolean) => chapter * 1000 + (verse ?? (isEnd ? 999 : 0));
+    const start = position(passage.chapter, passage.verse, false);
+
+    if (passage.endChapter !== null) {
+        return [start, position(passage.endChapter, passage.endVerse, true)];
+    }
+    return [start, position(passage.chapter, passage.endVerse ?? passage.verse, true)];
+}
+
+/**
+ * Returns true if two passages share at least one verse, e.g. "Romans 8" and "Romans 8:28-30"
+ */
+export function passagesOverlap(a: BiblePassage, b: BiblePassage): boolean {
+    if (a.bookCode !== b.bookCode) return false;
+    const [aStart, aEnd] = passageBounds(a);
+    const [bStart, bEnd] = passageBounds(b);
+    return aStart <= bEnd && bStart <= aEnd;
+}
+
+/**
+ * Orders passages canonically: by book, then by where they start and end
+ */
+export function comparePassages(a: BiblePassage, b: BiblePassage): number {
+    const [aStart, aEnd] = passageBounds(a);
+    const [bStart, bEnd] = passageBounds(b);
+    return bookOrder(a.bookCode) - bookOrder(b.bookCode) || aStart - bStart || aEnd - bEnd;
+}
+
+/**
+ * Orders references canonically, then by note and line
+ */
+function compareReferences(a: ScriptureReference, b: ScriptureReference): number {
+    return comparePassages(a.passage, b.passage) || a.path.localeCompare(b.path) || a.line - b.line;
+}
+
+/**
+ * Returns the references that overlap a passage, in canonical order
+ */
+export function findOverlappingReferences(references: ScriptureReference[], passage: BiblePassage): ScriptureReference[] {
+    return references
+        .filter(reference => passagesOverlap(reference.passage, passage))
+        .sort(compareReferences);
+}
+
+/**
+ * Returns a wikilink to the block or heading a reference appears in
+ */
+export function referenceLink(reference: ScriptureReference): string {
+    const note = reference.path.replace(/\.md$/, '');
+    const name = note.replace(/^.*\//, '');
+    return `[[${note}${reference.subpath}|${name}]]`;
+}
+
+/**
+ * Renders the index note: a heading per book in canonical order and a line per
+ * passage listing the notes that reference it
+ */
+export function renderScriptureIndex(references: ScriptureReference[]): string {
+    const sorted = [...references].sort(compareReferences);
+    const lines: string[] = [];
+    let currentBook: string | null = null;
+    let currentPassage: string | null = null;
+    let links: string[] = [];
+
+    const flush = () => {
+        if (currentPassage !== null) {
+            lines.push(`- ${currentPassage}: ${links.join(', ')}`);
+        }
+    };
+
+    for (const reference of sorted) {
+        const passage = formatPassage(reference.passage);
+        const link = referenceLink(reference);
+
+        if (passage === currentPassage) {
+            if (!links.includes(link)) links.push(link);
+            continue;
+        }
+
+        flush();
+        if (reference.passage.bookCode !== currentBook) {
+            currentBook = reference.passage.bookCode;
+            lines.push(`${lines.length > 0 ? '\n' : ''}## ${BOOK_DETAILS[currentBook]?.name || currentBook}`);
+        }
+        currentPassage = passage;
+        links = [link];
+    }
+    flush();
+
+    return lines.join('\n') + '\n';
+}
@@ -0,0 +1,62 @@
+/**
+ * Checks Bible references against the chapters and verses each book actually has
+ */
+
+import {
+    CHAPTER_VERSES,
+    HEBREW_CHAPTER_VERSES,
+    PSALMS_WITH_TITLE_VERSE,
+    PSALMS_WITH_TWO_TITLE_VERSES
+} from '../constants/versification';
+import { Versification } from '../types';
+
+/**
+ * Returns the verse count of each chapter of a book, or undefined for books
+ * without a versification table (e.g. the deuterocanon)
+ */
+export function getChapterVerses(bookCode: string, versification: Versification = 'english'): number[] | undefined {
+    if (versification === 'hebrew') {
+        if (HEBREW_CHAPTER_VERSES[bookCode]) return HEBREW_CHAPTER_VERSES[bookCode];
+        if (bookCode === 'Ps') {
+            return CHAPTER_VERSES.Ps.map((count, index) => {
+                const psalm = index + 1;
+                if (PSALMS_WITH_TWO_TITLE_VERSES.includes(psalm)) return count + 2;
+                return PSALMS_WITH_TITLE_VERSE.includes(psalm) ? count + 1 : count;
+            });
+        }
+    }
+    return CHAPTER_VERSES[bookCode];
+}
+
+/**
+ * Returns true if the chapter, verse and range end exist in the book.
+ * Books without a versification table are assumed valid.
+ */
+export function isValidReference(
+    bookCode: string,
+    chapter: string,
+    verse?: string,
+    endChapter?: string,
+    endVerse?: string,
+    versification: Versification = 'english'
+): boolean {
+    const chapters = getChapterVerses(bookCode, versification);
+    if (!chapters) return true;
+
+    const start = Number(chapter);
+    const end = endChapter ? Number(endChapter) : start;
+    if (start < 1 || end < start || end > chapters.length) return false;
+
+    if (verse) {
+        const first = Number(verse);
+        if (first < 1 || first > chapters[start - 1]) return false;
+        if (endVerse) {
+            const last = Number(endVerse);
+            if (last > chapters[end - 1] || (end === start && last < first)) return false;
+        }
+    } else if (endVerse && Number(endVerse) > chapters[end - 1]) {
+        return false;
+    }
+
+    return true;
+}